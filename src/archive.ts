@@ -0,0 +1,188 @@
+/**
+ * Dated snapshot archive
+ *
+ * Keeps a copy of every validated download under a folder named after the
+ * date GIAS published it, e.g. archive/2026-10-19/edubasealldata.csv.gz, and
+ * prunes old snapshots according to a daily/weekly/monthly retention policy.
+ */
+
+import { createReadStream, createWriteStream, promises as fs } from 'fs';
+import * as path from 'path';
+import { pipeline } from 'stream/promises';
+import { createGzip } from 'zlib';
+import { differenceInCalendarDays, format, isValid, parse, startOfWeek, subWeeks } from 'date-fns';
+import { CHANGES_JSON_FILE, CHANGES_MARKDOWN_FILE } from './diff';
+import { MANIFEST_FILE } from './manifest';
+
+// Types
+export interface RetentionPolicy {
+  // Keep every snapshot from the last N days
+  dailyDays: number;
+  // Keep the latest snapshot of each week for the last M weeks
+  weeklyWeeks: number;
+  // Keep the latest snapshot of every month indefinitely
+  monthly: boolean;
+}
+
+export const ARCHIVE_DIR = 'archive';
+export const SNAPSHOT_DATE_FORMAT = 'yyyy-MM-dd';
+export const GZIP_EXTENSION = '.gz';
+
+// Files that describe a snapshot folder rather than archived copies of downloads
+const SNAPSHOT_METADATA_FILES = [MANIFEST_FILE, CHANGES_JSON_FILE, CHANGES_MARKDOWN_FILE];
+
+/**
+ * Copies a file into the snapshot folder for the given date, gzip-compressing
+ * it when asked. Returns the path of the archived copy.
+ */
+export async function archiveFile(
+  archiveDir: string,
+  date: Date,
+  sourcePath: string,
+  gzip = false
+): Promise<string> {
+  const snapshotDir = path.join(archiveDir, format(date, SNAPSHOT_DATE_FORMAT));
+  await fs.mkdir(snapshotDir, { recursive: true });
+
+  const fileName = path.basename(sourcePath);
+  const targetPath = path.join(snapshotDir, gzip ? fileName + GZIP_EXTENSION : fileName);
+  const tempPath = `${targetPath}.tmp`;
+
+  if (gzip) {
+    await pipeline(createReadStream(sourcePath), createGzip(), createWriteStream(tempPath));
+  } else {
+    await fs.copyFile(sourcePath, tempPath);
+  }
+  await fs.rename(tempPath, targetPath);
+
+  // Only one form of the file is kept per snapshot
+  const otherForm = gzip ? path.join(snapshotDir, fileName) : targetPath + GZIP_EXTENSION;
+  await fs.rm(otherForm, { force: true });
+
+  return targetPath;
+}
+
+/**
+ * Lists the snapshot dates in the archive, oldest first
+ */
+export async function listSnapshots(archiveDir: string): Promise<string[]> {
+  let entries;
+  try {
+    entries = await fs.readdir(archiveDir, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+
+  return entries
+    .filter(entry => entry.isDirectory() && parseSnapshotDate(entry.name) !== null)
+    .map(entry => entry.name)
+    .sort();
+}
+
+/**
+ * Works out which snapshots the retention policy keeps on the given day
+ */
+export function selectSnapshotsToKeep(snapshots: string[], policy: RetentionPolicy, today: Date): Set<string> {
+  const keep = new Set<string>();
+  const dated = snapshots
+    .map(name => ({ name, date: parseSnapshotDate(name) }))
+    .filter((snapshot): snapshot is { name: string; date: Date } => snapshot.date !== null)
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  // Later snapshots overwrite earlier ones, leaving the latest per week or month
+  const latestPerWeek = new Map<string, string>();
+  const latestPerMonth = new Map<string, string>();
+  const oldestWeek = subWeeks(startOfWeek(today, { weekStartsOn: 1 }), Math.max(0, policy.weeklyWeeks - 1));
+
+  dated.forEach(({ name, date }) => {
+    const age = differenceInCalendarDays(today, date);
+    if (age < policy.dailyDays) {
+      keep.add(name);
+    }
+
+    const week = startOfWeek(date, { weekStartsOn: 1 });
+    if (policy.weeklyWeeks > 0 && week >= oldestWeek) {
+      latestPerWeek.set(format(week, SNAPSHOT_DATE_FORMAT), name);
+    }
+    if (policy.monthly) {
+      latestPerMonth.set(format(date, 'yyyy-MM'), name);
+    }
+  });
+
+  latestPerWeek.forEach(name => keep.add(name));
+  latestPerMonth.forEach(name => keep.add(name));
+  return keep;
+}
+
+/**
+ * Deletes the archived copies the retention policy no longer needs. A
+ * snapshot only holds the files replaced that day, so for each kept date the
+ * latest copy of every file on or before it is kept, even when that copy sits
+ * in an older snapshot. The manifest and change report of a snapshot describe
+ * its files, so they stay while it holds any and go with the last of them.
+ * Returns the dates whose snapshots were removed entirely.
+ */
+export async function pruneArchive(
+  archiveDir: string,
+  policy: RetentionPolicy,
+  today = new Date()
+): Promise<string[]> {
+  const snapshots = await listSnapshots(archiveDir);
+  const keepDates = [...selectSnapshotsToKeep(snapshots, policy, today)].sort();
+
+  // Each file's archived copies, oldest first, whether plain or gzipped
+  const copiesByFile = new Map<string, { date: string; entry: string }[]>();
+  for (const name of snapshots) {
+    for (const entry of await fs.readdir(path.join(archiveDir, name))) {
+      if (SNAPSHOT_METADATA_FILES.includes(entry)) continue;
+      const fileName = entry.endsWith(GZIP_EXTENSION) ? entry.slice(0, -GZIP_EXTENSION.length) : entry;
+      const copies = copiesByFile.get(fileName) ?? [];
+      copies.push({ date: name, entry });
+      copiesByFile.set(fileName, copies);
+    }
+  }
+
+  for (const copies of copiesByFile.values()) {
+    const needed = new Set(keepDates
+      .map(keepDate => copies.filter(copy => copy.date <= keepDate).pop())
+      .filter(copy => copy !== undefined));
+    for (const copy of copies.filter(copy => !needed.has(copy))) {
+      await fs.rm(path.join(archiveDir, copy.date, copy.entry), { recursive: true, force: true });
+    }
+  }
+
+  const removed: string[] = [];
+  for (const name of snapshots) {
+    const entries = await fs.readdir(path.join(archiveDir, name));
+    if (entries.every(entry => SNAPSHOT_METADATA_FILES.includes(entry))) {
+      await fs.rm(path.join(archiveDir, name), { recursive: true, force: true });
+      removed.push(name);
+    }
+  }
+  return removed;
+}
+
+/**
+ * Returns the archived copy of a file that was current on the given date:
+ * the one in the latest snapshot on or before that date. Returns null when
+ * the archive holds no earlier copy.
+ */
+export async function findSnapshot(archiveDir: string, fileName: string, date: Date): Promise<string | null> {
+  const cutoff = format(date, SNAPSHOT_DATE_FORMAT);
+  const candidates = (await listSnapshots(archiveDir)).filter(name => name <= cutoff).reverse();
+
+  for (const name of candidates) {
+    for (const candidate of [fileName, fileName + GZIP_EXTENSION]) {
+      const candidatePath = path.join(archiveDir, name, candidate);
+      if (await fs.access(candidatePath).then(() => true).catch(() => false)) {
+        return candidatePath;
+      }
+    }
+  }
+  return null;
+}
+
+function parseSnapshotDate(name: string): Date | null {
+  const date = parse(name, SNAPSHOT_DATE_FORMAT, new Date());
+  return isValid(date) && format(date, SNAPSHOT_DATE_FORMAT) === name ? date : null;
+}
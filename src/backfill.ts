@@ -0,0 +1,213 @@
+/**
+ * Historical backfill
+ *
+ * Fetches the dated extracts for every day in a range into the snapshot
+ * folders of the archive, e.g. archive/2025-07-01/edubasealldata.csv. Files
+ * already present, either matching the folder's manifest or archived by a
+ * daily run and still readable, are not fetched again, so an interrupted
+ * backfill can simply be run again.
+ */
+
+import { createReadStream, promises as fs } from 'fs';
+import * as path from 'path';
+import { pipeline, Readable } from 'stream';
+import { createGunzip } from 'zlib';
+import { eachDayOfInterval, format } from 'date-fns';
+import { ARCHIVE_DIR, GZIP_EXTENSION, SNAPSHOT_DATE_FORMAT } from './archive';
+import { resolveSettings } from './config';
+import { readCsvRecords } from './csv';
+import {
+  DEFAULT_CONFIG,
+  DEFAULT_URL_TEMPLATES,
+  fetchData,
+  FetchDataOptions,
+  FetcherConfig,
+  FileTemplate,
+  validateCSVContent,
+} from './fetch-data';
+import { verifyManifest } from './manifest';
+import { ConsoleReporter } from './reporter';
+import { validateHeader } from './schema';
+
+// Types
+export interface BackfillOptions extends Omit<FetchDataOptions, 'date'> {
+  from: Date;
+  to: Date;
+}
+
+export type BackfillStatus = 'downloaded' | 'existing' | 'missing';
+
+export interface BackfillEntry {
+  date: string;
+  file: string;
+  status: BackfillStatus;
+}
+
+export interface BackfillReport {
+  from: string;
+  to: string;
+  generatedAt: string;
+  entries: BackfillEntry[];
+}
+
+export const BACKFILL_REPORT_FILE = 'backfill.json';
+
+// Bytes of an unlisted copy checked the way the sample of a download is
+const SAMPLE_SIZE = 64 * 1024;
+
+/**
+ * Lists the files a snapshot folder already holds: those that match its
+ * manifest, and the copies the daily archive step made, which have no
+ * manifest entry and may be gzipped. Unlisted copies that fail the checks of
+ * a download are removed so the file is fetched again.
+ */
+async function findPresentFiles(snapshotDir: string, templates: FileTemplate[]): Promise<Set<string>> {
+  let verification;
+  try {
+    verification = await verifyManifest(snapshotDir);
+  } catch {
+    verification = { files: [] };
+  }
+  const present = new Set(verification.files.filter(file => file.status === 'ok').map(file => file.file));
+  const listed = new Set(verification.files.map(file => file.file));
+
+  const entries = await fs.readdir(snapshotDir).catch(() => [] as string[]);
+  for (const template of templates.filter(template => !listed.has(template.outputFile))) {
+    const copies = [template.outputFile, template.outputFile + GZIP_EXTENSION].filter(name => entries.includes(name));
+    if (copies.length === 0) continue;
+
+    const copyPath = path.join(snapshotDir, copies[0]);
+    if (await isUsableCopy(copyPath, template)) {
+      present.add(template.outputFile);
+    } else {
+      await fs.rm(copyPath, { force: true });
+    }
+  }
+  return present;
+}
+
+/**
+ * Checks an unlisted copy: it must read back in full, which a cut-off gzip
+ * stream does not, pass the content and header checks of a download, and end
+ * with a complete row
+ */
+async function isUsableCopy(copyPath: string, template: FileTemplate): Promise<boolean> {
+  const input = createReadStream(copyPath);
+  const source: Readable = copyPath.endsWith(GZIP_EXTENSION)
+    ? pipeline(input, createGunzip(), () => undefined)
+    : input;
+
+  let sample = '';
+  const sampled = async function* () {
+    for await (const chunk of source) {
+      if (sample.length < SAMPLE_SIZE) sample += Buffer.from(chunk).toString('utf8');
+      yield chunk as Buffer;
+    }
+  };
+
+  let header: string[] | null = null;
+  let last: string[] | null = null;
+  try {
+    for await (const record of readCsvRecords(sampled())) {
+      header ??= record;
+      last = record;
+    }
+  } catch {
+    return false;
+  }
+
+  if (!header || !last || last.length < header.length) return false;
+  if (!validateCSVContent(sample).isValid) return false;
+  return !template.schema || validateHeader(sample, template.schema).isValid;
+}
+
+/**
+ * Fetches every template for every day from `from` to `to` inclusive and
+ * writes a combined report of what was obtained to the archive folder
+ */
+export async function backfill(options: BackfillOptions): Promise<BackfillReport> {
+  if (options.from > options.to) {
+    throw new Error(`Backfill start ${format(options.from, SNAPSHOT_DATE_FORMAT)} is after its end ` +
+      `${format(options.to, SNAPSHOT_DATE_FORMAT)}`);
+  }
+
+  const { config, templates } = resolveSettings({
+    defaults: DEFAULT_CONFIG,
+    defaultTemplates: DEFAULT_URL_TEMPLATES,
+    configFile: options.configFile,
+    env: options.env,
+    config: options.config,
+    urlTemplates: options.urlTemplates,
+  });
+  const reporter = options.reporter ?? new ConsoleReporter();
+  const archiveDir = config.archiveDir || path.join(config.outputDir, ARCHIVE_DIR);
+  const entries: BackfillEntry[] = [];
+
+  for (const day of eachDayOfInterval({ start: options.from, end: options.to })) {
+    const date = format(day, SNAPSHOT_DATE_FORMAT);
+    const snapshotDir = path.join(archiveDir, date);
+    const present = await findPresentFiles(snapshotDir, templates);
+    const pending = templates.filter(template => !present.has(template.outputFile));
+
+    templates
+      .filter(template => present.has(template.outputFile))
+      .forEach(template => entries.push({ date, file: template.outputFile, status: 'existing' }));
+
+    if (pending.length === 0) {
+      reporter.report({ type: 'backfill-date-skipped', date });
+      continue;
+    }
+
+    // Each day is an ordinary run against its own folder, pinned to that day's files and
+    // keeping them as published, without the reports, filtered copies or database of the data directory
+    const dayConfig: FetcherConfig = {
+      ...config,
+      outputDir: snapshotDir,
+      lookbackDays: 0,
+      writeManifest: true,
+      changeReport: false,
+      transactional: false,
+      // Nothing is withheld, so rules that would fail a daily run are reported as warnings
+      integritySeverity: Object.fromEntries(Object.entries(config.integritySeverity)
+        .map(([rule, severity]) => [rule, severity === 'error' ? 'warning' : severity])),
+      archive: false,
+      sqlite: false,
+      privacyProfile: '',
+    };
+    const result = await fetchData({
+      date: day,
+      config: dayConfig,
+      urlTemplates: pending,
+      fetchFn: options.fetchFn,
+      configFile: false,
+      reporter,
+    });
+
+    const downloaded = new Set(result.downloadedFiles.concat(result.unchangedFiles).map(file => path.basename(file)));
+    pending.forEach(template => entries.push({
+      date,
+      file: template.outputFile,
+      status: downloaded.has(template.outputFile) ? 'downloaded' : 'missing',
+    }));
+
+    // Leave no empty folder behind for a day with nothing published
+    const remaining = await fs.readdir(snapshotDir).catch(() => []);
+    if (remaining.length === 0) {
+      await fs.rm(snapshotDir, { recursive: true, force: true });
+    }
+  }
+
+  const report: BackfillReport = {
+    from: format(options.from, SNAPSHOT_DATE_FORMAT),
+    to: format(options.to, SNAPSHOT_DATE_FORMAT),
+    generatedAt: new Date().toISOString(),
+    entries,
+  };
+
+  await fs.mkdir(archiveDir, { recursive: true });
+  const reportPath = path.join(archiveDir, BACKFILL_REPORT_FILE);
+  await fs.writeFile(reportPath, JSON.stringify(report, null, 2) + '\n');
+  reporter.report({ type: 'backfill-summary', path: reportPath, report });
+
+  return report;
+}
@@ -0,0 +1,902 @@
+#!/usr/bin/env node
+/**
+ * GIAS Data command-line interface
+ *
+ * Usage:
+ *   gias-data [fetch] [--date yyyy-MM-dd] [--out dir] [--only name,name] [--threshold percent]
+ *                     [--config file] [--reporter console|json|github] [--transactional]
+ *                     [--dry-run] [--json]
+ *   gias-data backfill --from yyyy-MM-dd --to yyyy-MM-dd [--out dir] [--only name,name]
+ *                     [--config file] [--reporter console|json|github] [--json]
+ *   gias-data lineage <urn> [--data dir] [--json]
+ *   gias-data trusts [--uid uid | --urn urn | --out dir] [--data dir]
+ *   gias-data geojson [--data dir] [--out file] [--ndjson] [--dataset name,name] [--type list]
+ *                     [--phase list] [--status list] [--la list] [--problems file]
+ *   gias-data sqlite [--data dir] [--out file] [--config file]
+ *   gias-data serve [--data dir] [--port 3000] [--host 127.0.0.1] [--no-watch]
+ *   gias-data verify [dataDir]
+ *
+ * Exit codes: 0 when every file was fetched (or was unchanged), 2 when only
+ * some files were fetched, and 1 when nothing was fetched, a transactional run
+ * published nothing, or the run failed. A backfill uses the same codes for the
+ * date and file pairs it covers.
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { parseArgs } from 'util';
+import { format, isValid, parse } from 'date-fns';
+import { backfill, BackfillReport } from './backfill';
+import { ConfigError, filterTemplates, resolveSettings } from './config';
+import {
+  DEFAULT_CONFIG,
+  DEFAULT_URL_TEMPLATES,
+  DownloadResult,
+  fetchData,
+  FetchDataOptions,
+  FetcherConfig,
+  FileTemplate,
+  resolveTemplateUrl,
+} from './fetch-data';
+import { exportGeoJson, GEO_DATASETS, GeoDataset, GeoFilter, GeoProblem } from './geo';
+import { LineageChain, LineageGraph, loadLineage } from './lineage';
+import { createReporter, REPORTER_NAMES, ReporterName } from './reporter';
+import { exportTrusts, loadTrusts, toTrustDocument } from './trusts';
+import { ApiServer, DEFAULT_HOST, DEFAULT_PORT } from './server';
+import { exportSqlite, SQLITE_FILE } from './sqlite';
+import { runVerify } from './verify-manifest';
+
+// Types
+export interface FetchCommandOptions {
+  date?: Date;
+  outputDir?: string;
+  only?: string[];
+  threshold?: number;
+  lookbackDays?: number;
+  configFile?: string;
+  reporter: ReporterName;
+  transactional: boolean;
+  dryRun: boolean;
+  json: boolean;
+}
+
+export interface BackfillCommandOptions {
+  from: Date;
+  to: Date;
+  outputDir?: string;
+  only?: string[];
+  configFile?: string;
+  reporter: ReporterName;
+  json: boolean;
+}
+
+// Commands that read the data directory fall back to the configured outputDir without --data
+export interface DataDirOptions {
+  dataDir?: string;
+  configFile?: string;
+}
+
+export type VerifyCommandOptions = DataDirOptions;
+
+export interface LineageCommandOptions extends DataDirOptions {
+  urn: number;
+  json: boolean;
+}
+
+export interface TrustsCommandOptions extends DataDirOptions {
+  uid?: number;
+  urn?: number;
+  outputDir?: string;
+}
+
+export interface GeoCommandOptions extends DataDirOptions {
+  outputPath?: string;
+  ndjson: boolean;
+  datasets: GeoDataset[];
+  filter: GeoFilter;
+  problemsPath?: string;
+}
+
+export interface ServeCommandOptions extends DataDirOptions {
+  port: number;
+  host: string;
+  watch: boolean;
+}
+
+export interface SqliteCommandOptions extends DataDirOptions {
+  databasePath?: string;
+}
+
+export const EXIT_SUCCESS = 0;
+export const EXIT_FAILURE = 1;
+export const EXIT_PARTIAL = 2;
+
+export const USAGE = `Usage:
+  gias-data [fetch] [options]    Download and validate the GIAS extracts
+  gias-data backfill --from <yyyy-MM-dd> --to <yyyy-MM-dd> [options]
+                                 Fetch every day in the range into archive/<date>/, skipping days
+                                 already present; accepts --out, --only, --config, --reporter and --json
+  gias-data lineage <urn> [--data <dir>] [--json]
+                                 Show the establishments that replaced a URN and its history, from the
+                                 links file in the data directory
+  gias-data trusts [--uid <uid> | --urn <urn> | --out <dir>] [--data <dir>]
+                                 Print a trust with its academies and governance roles as JSON, print
+                                 the trusts an academy belongs to, or write one <uid>.json per trust;
+                                 academies missing from one of the membership files are reported on stderr
+  gias-data geojson [--data <dir>] [--out <file>] [--ndjson] [--problems <file>] [filters]
+                                 Write the establishments and children's centres as WGS84 GeoJSON
+                                 points (to stdout without --out); --ndjson writes one feature per line.
+                                 Filters take comma-separated codes or names: --dataset establishments,
+                                 childrens-centres, --type, --phase, --status and --la. Rows without
+                                 usable coordinates are counted on stderr and listed in --problems
+  gias-data sqlite [--data <dir>] [--out <file>] [--config <file>]
+                                 Build or update a SQLite database of the fetched files (default:
+                                 <data>/${SQLITE_FILE}), rebuilding only the tables whose file changed
+  gias-data serve [--data <dir>] [--port <port>] [--host <host>] [--no-watch]
+                                 Serve the data directory as a read-only JSON API (default:
+                                 http://${DEFAULT_HOST}:${DEFAULT_PORT}), reloading when the files change
+  gias-data verify [dataDir]     Check data files against the manifest
+
+  The commands that read the data directory also take --config <file>; without --data they
+  read the outputDir of the config file and environment, as fetch writes it (default: ./data)
+
+Options:
+  --date <yyyy-MM-dd>      Fetch the extracts published on this date (default: today)
+  --out <dir>              Directory to write the files to (default: ./data)
+  --only <names>           Comma-separated files to fetch, e.g. edubasealldata,links_edubasealldata
+  --threshold <percent>    Size change that triggers a warning (default: ${DEFAULT_CONFIG.sizeChangeThresholdPercent})
+  --lookback-days <days>   Fall back to the extracts of up to this many earlier days when a file
+                           is not published yet (default: ${DEFAULT_CONFIG.lookbackDays})
+  --config <file>          Config file to load instead of ./gias.config.json
+  --reporter <name>        Progress output: console, json (JSON lines) or github (default: console)
+  --transactional          Publish the files only if every required file downloads and validates
+  --dry-run                Show what would be downloaded without fetching anything
+  --json                   Print the result as JSON on stdout; logs go to stderr
+  -h, --help               Show this help`;
+
+/**
+ * Raised for invalid command-line usage
+ */
+export class CliError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CliError';
+  }
+}
+
+function parseDateFlag(value: string, flag: string): Date {
+  const date = parse(value, 'yyyy-MM-dd', new Date());
+  if (!isValid(date)) {
+    throw new CliError(`Invalid ${flag} "${value}", expected yyyy-MM-dd`);
+  }
+  return date;
+}
+
+function parseOnlyFlag(value: string): string[] {
+  const only = value.split(',').map(name => name.trim()).filter(name => name.length > 0);
+  if (only.length === 0) {
+    throw new CliError('--only needs at least one file name');
+  }
+  return only;
+}
+
+function parseReporterFlag(value: string | undefined): ReporterName {
+  const reporter = value ?? 'console';
+  if (!REPORTER_NAMES.includes(reporter as ReporterName)) {
+    throw new CliError(`Invalid --reporter "${reporter}", expected one of ${REPORTER_NAMES.join(', ')}`);
+  }
+  return reporter as ReporterName;
+}
+
+function parseDataDirFlags(values: { data?: string; config?: string }): DataDirOptions {
+  const options: DataDirOptions = {};
+  if (values.data !== undefined) options.dataDir = path.resolve(values.data);
+  if (values.config !== undefined) options.configFile = values.config;
+  return options;
+}
+
+/**
+ * Finds the data directory a command reads: --data when given, otherwise the
+ * outputDir the config file and environment set, as for the fetch command
+ */
+export function resolveDataDir(options: DataDirOptions): string {
+  if (options.dataDir) return options.dataDir;
+  return resolveSettings({
+    defaults: DEFAULT_CONFIG,
+    defaultTemplates: DEFAULT_URL_TEMPLATES,
+    configFile: options.configFile,
+  }).config.outputDir;
+}
+
+/**
+ * Parses the flags of the fetch command
+ */
+export function parseFetchArgs(args: string[]): FetchCommandOptions {
+  let values;
+  try {
+    ({ values } = parseArgs({
+      args,
+      options: {
+        date: { type: 'string' },
+        out: { type: 'string' },
+        only: { type: 'string' },
+        threshold: { type: 'string' },
+        'lookback-days': { type: 'string' },
+        config: { type: 'string' },
+        reporter: { type: 'string', default: 'console' },
+        transactional: { type: 'boolean', default: false },
+        'dry-run': { type: 'boolean', default: false },
+        json: { type: 'boolean', default: false },
+      },
+      strict: true,
+      allowPositionals: false,
+    }));
+  } catch (error) {
+    throw new CliError(error instanceof Error ? error.message : String(error));
+  }
+
+  const options: FetchCommandOptions = {
+    reporter: parseReporterFlag(values.reporter),
+    transactional: values.transactional ?? false,
+    dryRun: values['dry-run'] ?? false,
+    json: values.json ?? false,
+  };
+
+  if (values.date !== undefined) {
+    options.date = parseDateFlag(values.date, '--date');
+  }
+
+  if (values.out !== undefined) {
+    options.outputDir = path.resolve(values.out);
+  }
+
+  if (values.only !== undefined) {
+    options.only = parseOnlyFlag(values.only);
+  }
+
+  if (values.threshold !== undefined) {
+    const threshold = Number(values.threshold);
+    if (!Number.isFinite(threshold) || threshold < 0) {
+      throw new CliError(`Invalid --threshold "${values.threshold}", expected a non-negative number`);
+    }
+    options.threshold = threshold;
+  }
+
+  if (values['lookback-days'] !== undefined) {
+    const lookbackDays = Number(values['lookback-days']);
+    if (!Number.isInteger(lookbackDays) || lookbackDays < 0) {
+      throw new CliError(`Invalid --lookback-days "${values['lookback-days']}", expected a whole number of days`);
+    }
+    options.lookbackDays = lookbackDays;
+  }
+
+  if (values.config !== undefined) {
+    options.configFile = values.config;
+  }
+
+  return options;
+}
+
+/**
+ * Parses the flags of the backfill command
+ */
+export function parseBackfillArgs(args: string[]): BackfillCommandOptions {
+  let values;
+  try {
+    ({ values } = parseArgs({
+      args,
+      options: {
+        from: { type: 'string' },
+        to: { type: 'string' },
+        out: { type: 'string' },
+        only: { type: 'string' },
+        config: { type: 'string' },
+        reporter: { type: 'string', default: 'console' },
+        json: { type: 'boolean', default: false },
+      },
+      strict: true,
+      allowPositionals: false,
+    }));
+  } catch (error) {
+    throw new CliError(error instanceof Error ? error.message : String(error));
+  }
+
+  if (values.from === undefined || values.to === undefined) {
+    throw new CliError('backfill needs both --from and --to');
+  }
+
+  const options: BackfillCommandOptions = {
+    from: parseDateFlag(values.from, '--from'),
+    to: parseDateFlag(values.to, '--to'),
+    reporter: parseReporterFlag(values.reporter),
+    json: values.json ?? false,
+  };
+  if (options.from > options.to) {
+    throw new CliError(`--from ${values.from} is after --to ${values.to}`);
+  }
+
+  if (values.out !== undefined) {
+    options.outputDir = path.resolve(values.out);
+  }
+  if (values.only !== undefined) {
+    options.only = parseOnlyFlag(values.only);
+  }
+  if (values.config !== undefined) {
+    options.configFile = values.config;
+  }
+
+  return options;
+}
+
+/**
+ * Parses the arguments of the lineage command
+ */
+export function parseLineageArgs(args: string[]): LineageCommandOptions {
+  let values;
+  let positionals;
+  try {
+    ({ values, positionals } = parseArgs({
+      args,
+      options: {
+        data: { type: 'string' },
+        config: { type: 'string' },
+        json: { type: 'boolean', default: false },
+      },
+      strict: true,
+      allowPositionals: true,
+    }));
+  } catch (error) {
+    throw new CliError(error instanceof Error ? error.message : String(error));
+  }
+
+  if (positionals.length !== 1) {
+    throw new CliError('lineage needs exactly one URN');
+  }
+  const urn = Number(positionals[0]);
+  if (!Number.isInteger(urn) || urn <= 0) {
+    throw new CliError(`Invalid URN "${positionals[0]}", expected a positive whole number`);
+  }
+
+  return { urn, json: values.json ?? false, ...parseDataDirFlags(values) };
+}
+
+/**
+ * Parses the flags of the trusts command
+ */
+export function parseTrustsArgs(args: string[]): TrustsCommandOptions {
+  let values;
+  try {
+    ({ values } = parseArgs({
+      args,
+      options: {
+        data: { type: 'string' },
+        config: { type: 'string' },
+        uid: { type: 'string' },
+        urn: { type: 'string' },
+        out: { type: 'string' },
+      },
+      strict: true,
+      allowPositionals: false,
+    }));
+  } catch (error) {
+    throw new CliError(error instanceof Error ? error.message : String(error));
+  }
+
+  const given = [values.uid, values.urn, values.out].filter(value => value !== undefined);
+  if (given.length !== 1) {
+    throw new CliError('trusts needs exactly one of --uid, --urn or --out');
+  }
+
+  const options: TrustsCommandOptions = parseDataDirFlags(values);
+  if (values.uid !== undefined) options.uid = parseIdFlag(values.uid, '--uid');
+  if (values.urn !== undefined) options.urn = parseIdFlag(values.urn, '--urn');
+  if (values.out !== undefined) options.outputDir = path.resolve(values.out);
+  return options;
+}
+
+function parseIdFlag(value: string, flag: string): number {
+  const id = Number(value);
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new CliError(`Invalid ${flag} "${value}", expected a positive whole number`);
+  }
+  return id;
+}
+
+/**
+ * Parses the flags of the geojson command
+ */
+export function parseGeoArgs(args: string[]): GeoCommandOptions {
+  let values;
+  try {
+    ({ values } = parseArgs({
+      args,
+      options: {
+        data: { type: 'string' },
+        config: { type: 'string' },
+        out: { type: 'string' },
+        ndjson: { type: 'boolean', default: false },
+        dataset: { type: 'string' },
+        type: { type: 'string' },
+        phase: { type: 'string' },
+        status: { type: 'string' },
+        la: { type: 'string' },
+        problems: { type: 'string' },
+      },
+      strict: true,
+      allowPositionals: false,
+    }));
+  } catch (error) {
+    throw new CliError(error instanceof Error ? error.message : String(error));
+  }
+
+  const list = (value: string | undefined) => value?.split(',').map(entry => entry.trim()).filter(Boolean);
+  const datasets = list(values.dataset) ?? GEO_DATASETS;
+  const unknown = datasets.filter(dataset => !GEO_DATASETS.includes(dataset as GeoDataset));
+  if (unknown.length > 0 || datasets.length === 0) {
+    throw new CliError(`Invalid --dataset "${values.dataset}", expected ${GEO_DATASETS.join(' or ')}`);
+  }
+
+  const filter: GeoFilter = {};
+  (['type', 'phase', 'status', 'la'] as const).forEach(key => {
+    const entries = list(values[key]);
+    if (entries && entries.length > 0) filter[key] = entries;
+  });
+
+  const options: GeoCommandOptions = {
+    ...parseDataDirFlags(values),
+    ndjson: values.ndjson ?? false,
+    datasets: datasets as GeoDataset[],
+    filter,
+  };
+  if (values.out !== undefined) options.outputPath = path.resolve(values.out);
+  if (values.problems !== undefined) options.problemsPath = path.resolve(values.problems);
+  return options;
+}
+
+/**
+ * Parses the flags of the sqlite command
+ */
+export function parseSqliteArgs(args: string[]): SqliteCommandOptions {
+  let values;
+  try {
+    ({ values } = parseArgs({
+      args,
+      options: {
+        data: { type: 'string' },
+        out: { type: 'string' },
+        config: { type: 'string' },
+      },
+      strict: true,
+      allowPositionals: false,
+    }));
+  } catch (error) {
+    throw new CliError(error instanceof Error ? error.message : String(error));
+  }
+
+  const options: SqliteCommandOptions = {};
+  if (values.data !== undefined) options.dataDir = path.resolve(values.data);
+  if (values.out !== undefined) options.databasePath = path.resolve(values.out);
+  if (values.config !== undefined) options.configFile = values.config;
+  return options;
+}
+
+/**
+ * Parses the arguments of the verify command
+ */
+export function parseVerifyArgs(args: string[]): VerifyCommandOptions {
+  let values;
+  let positionals;
+  try {
+    ({ values, positionals } = parseArgs({
+      args,
+      options: {
+        config: { type: 'string' },
+      },
+      strict: true,
+      allowPositionals: true,
+    }));
+  } catch (error) {
+    throw new CliError(error instanceof Error ? error.message : String(error));
+  }
+
+  if (positionals.length > 1) {
+    throw new CliError('verify takes at most one data directory');
+  }
+  return parseDataDirFlags({ data: positionals[0], config: values.config });
+}
+
+/**
+ * Parses the flags of the serve command
+ */
+export function parseServeArgs(args: string[]): ServeCommandOptions {
+  let values;
+  try {
+    ({ values } = parseArgs({
+      args,
+      options: {
+        data: { type: 'string' },
+        config: { type: 'string' },
+        port: { type: 'string' },
+        host: { type: 'string', default: DEFAULT_HOST },
+        'no-watch': { type: 'boolean', default: false },
+      },
+      strict: true,
+      allowPositionals: false,
+    }));
+  } catch (error) {
+    throw new CliError(error instanceof Error ? error.message : String(error));
+  }
+
+  const port = values.port !== undefined ? Number(values.port) : DEFAULT_PORT;
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new CliError(`Invalid --port "${values.port}", expected a number from 0 to 65535`);
+  }
+
+  return {
+    ...parseDataDirFlags(values),
+    port,
+    host: values.host ?? DEFAULT_HOST,
+    watch: !(values['no-watch'] ?? false),
+  };
+}
+
+/**
+ * Picks the templates named by --only. Names may be given with or without
+ * the .csv extension.
+ */
+export function selectTemplates(templates: FileTemplate[], only?: string[]): FileTemplate[] {
+  if (!only) return templates;
+
+  try {
+    return filterTemplates(templates, only, '--only');
+  } catch {
+    const available = templates.map(template => template.outputFile.replace(/\.csv$/i, ''));
+    const unknown = only.filter(name => !available.includes(name.replace(/\.csv$/i, '')));
+    throw new CliError(`Unknown file(s) for --only: ${unknown.join(', ')}. Available: ${available.join(', ')}`);
+  }
+}
+
+/**
+ * Maps a download result onto the process exit code
+ */
+export function exitCodeFor(result: DownloadResult): number {
+  if (!result.published || result.integrity?.failed) return EXIT_FAILURE;
+  const obtained = result.downloadedFiles.length + result.unchangedFiles.length;
+  if (result.skippedFiles.length === 0) return EXIT_SUCCESS;
+  return obtained > 0 ? EXIT_PARTIAL : EXIT_FAILURE;
+}
+
+/**
+ * Maps a backfill report onto the process exit code
+ */
+export function backfillExitCodeFor(report: BackfillReport): number {
+  const missing = report.entries.filter(entry => entry.status === 'missing').length;
+  if (missing === 0) return EXIT_SUCCESS;
+  return missing < report.entries.length ? EXIT_PARTIAL : EXIT_FAILURE;
+}
+
+/**
+ * Runs the fetch command
+ */
+export async function runFetch(args: string[], fetchFn?: typeof fetch): Promise<number> {
+  const options = parseFetchArgs(args);
+
+  // Flags take precedence over the config file and environment
+  const overrides: Partial<FetcherConfig> = {};
+  if (options.outputDir) overrides.outputDir = options.outputDir;
+  if (options.threshold !== undefined) overrides.sizeChangeThresholdPercent = options.threshold;
+  if (options.lookbackDays !== undefined) overrides.lookbackDays = options.lookbackDays;
+  if (options.transactional) overrides.transactional = true;
+
+  const settings = resolveSettings({
+    defaults: DEFAULT_CONFIG,
+    defaultTemplates: DEFAULT_URL_TEMPLATES,
+    configFile: options.configFile,
+    config: overrides,
+  });
+  const templates = selectTemplates(settings.templates, options.only);
+
+  if (options.dryRun) {
+    const resolved = settings.config;
+    const date = options.date ?? new Date();
+    const plan = templates.map(template => ({
+      file: template.outputFile,
+      url: resolveTemplateUrl(template, date, resolved),
+      outputPath: path.join(resolved.outputDir, template.outputFile),
+    }));
+
+    if (options.json) {
+      process.stdout.write(JSON.stringify({ date: format(date, 'yyyy-MM-dd'), files: plan }, null, 2) + '\n');
+    } else {
+      plan.forEach(entry => console.log(`Would download ${entry.url} -> ${entry.outputPath}`));
+    }
+    return EXIT_SUCCESS;
+  }
+
+  const fetchOptions: FetchDataOptions = {
+    date: options.date,
+    config: settings.config,
+    urlTemplates: templates,
+    fetchFn,
+    configFile: false,
+    // Keep stdout for the JSON result when --json is given
+    reporter: createReporter(options.reporter, { stderr: options.json, outputDir: settings.config.outputDir }),
+  };
+  const result = await fetchData(fetchOptions);
+
+  if (options.json) {
+    process.stdout.write(JSON.stringify(result, null, 2) + '\n');
+  } else {
+    console.log('Data fetch completed');
+  }
+  return exitCodeFor(result);
+}
+
+/**
+ * Runs the backfill command
+ */
+export async function runBackfill(args: string[], fetchFn?: typeof fetch): Promise<number> {
+  const options = parseBackfillArgs(args);
+
+  const overrides: Partial<FetcherConfig> = {};
+  if (options.outputDir) overrides.outputDir = options.outputDir;
+
+  const settings = resolveSettings({
+    defaults: DEFAULT_CONFIG,
+    defaultTemplates: DEFAULT_URL_TEMPLATES,
+    configFile: options.configFile,
+    config: overrides,
+  });
+
+  const report = await backfill({
+    from: options.from,
+    to: options.to,
+    config: settings.config,
+    urlTemplates: selectTemplates(settings.templates, options.only),
+    fetchFn,
+    configFile: false,
+    reporter: createReporter(options.reporter, { stderr: options.json }),
+  });
+
+  if (options.json) {
+    process.stdout.write(JSON.stringify(report, null, 2) + '\n');
+  }
+  return backfillExitCodeFor(report);
+}
+
+/**
+ * Runs the lineage command
+ */
+export async function runLineage(args: string[]): Promise<number> {
+  const options = parseLineageArgs(args);
+  const graph = await loadLineage(resolveDataDir(options));
+  if (!graph.has(options.urn)) {
+    console.error(`URN ${options.urn} does not appear in the links file`);
+    return EXIT_FAILURE;
+  }
+
+  const current = graph.resolveCurrent(options.urn);
+  const history = graph.history(options.urn);
+  const cycles = graph.findCycles().filter(cycle => cycle.includes(options.urn));
+  const conflicts = graph.findConflicts()
+    .filter(conflict => conflict.from === options.urn || conflict.to === options.urn);
+
+  if (options.json) {
+    const describe = (urn: number) => ({ urn, name: graph.nameOf(urn) });
+    process.stdout.write(JSON.stringify({
+      urn: options.urn,
+      current: current.map(describe),
+      history,
+      cycles,
+      conflicts,
+    }, null, 2) + '\n');
+    return EXIT_SUCCESS;
+  }
+
+  console.log(`Current establishment(s) for ${options.urn}:`);
+  current.forEach(urn => console.log(`  ${describeUrn(graph, urn)}`));
+  console.log('History:');
+  history.forEach(chain => console.log(`  ${describeChain(chain)}`));
+  cycles.forEach(cycle => console.error(`WARNING: cycle ${[...cycle, cycle[0]].join(' -> ')}`));
+  conflicts.forEach(conflict => console.error(`WARNING: ${conflict.message}`));
+  return EXIT_SUCCESS;
+}
+
+/**
+ * Runs the trusts command
+ */
+export async function runTrusts(args: string[]): Promise<number> {
+  const options = parseTrustsArgs(args);
+  const index = await loadTrusts(resolveDataDir(options));
+  const discrepancies = index.findDiscrepancies();
+
+  if (options.outputDir) {
+    const written = await exportTrusts(index, options.outputDir);
+    discrepancies.forEach(discrepancy => console.error(`WARNING: ${discrepancy.message}`));
+    console.log(`Wrote ${written.length} trust documents to ${options.outputDir}`);
+    return written.length > 0 ? EXIT_SUCCESS : EXIT_FAILURE;
+  }
+
+  const trusts = options.uid !== undefined
+    ? [index.get(options.uid)].filter(trust => trust !== undefined)
+    : index.trustsOf(options.urn as number);
+  if (trusts.length === 0) {
+    console.error(options.uid !== undefined
+      ? `No trust or group with UID ${options.uid}`
+      : `URN ${options.urn} is not a member of any trust or group`);
+    return EXIT_FAILURE;
+  }
+
+  const documents = trusts.map(trust => toTrustDocument(trust, discrepancies));
+  documents.flatMap(document => document.discrepancies)
+    .filter(discrepancy => options.urn === undefined || discrepancy.urn === options.urn)
+    .forEach(discrepancy => console.error(`WARNING: ${discrepancy.message}`));
+  process.stdout.write(JSON.stringify(options.uid !== undefined ? documents[0] : documents, null, 2) + '\n');
+  return EXIT_SUCCESS;
+}
+
+/**
+ * Runs the geojson command
+ */
+export async function runGeo(args: string[]): Promise<number> {
+  const options = parseGeoArgs(args);
+  const dataDir = resolveDataDir(options);
+  const result = await exportGeoJson({
+    dataDir,
+    outputPath: options.outputPath,
+    datasets: options.datasets,
+    format: options.ndjson ? 'ndjson' : 'geojson',
+    filter: options.filter,
+  });
+
+  result.missingFiles.forEach(file => console.error(`WARNING: ${file} is not in ${dataDir}`));
+  if (result.missingFiles.length === options.datasets.length) {
+    return EXIT_FAILURE;
+  }
+
+  // The features may be on stdout, so the summary goes to stderr
+  console.error(`Wrote ${result.features} features` + (options.outputPath ? ` to ${options.outputPath}` : ''));
+  if (result.problems.length > 0) {
+    console.error(`WARNING: ${describeGeoProblems(result.problems)}`);
+  }
+  if (options.problemsPath) {
+    await fs.writeFile(options.problemsPath, JSON.stringify(result.problems, null, 2) + '\n');
+  }
+  return EXIT_SUCCESS;
+}
+
+/**
+ * Runs the sqlite command
+ */
+export async function runSqlite(args: string[]): Promise<number> {
+  const options = parseSqliteArgs(args);
+  const overrides: Partial<FetcherConfig> = {};
+  if (options.dataDir) overrides.outputDir = options.dataDir;
+  if (options.databasePath) overrides.sqlitePath = options.databasePath;
+
+  const { config, templates } = resolveSettings({
+    defaults: DEFAULT_CONFIG,
+    defaultTemplates: DEFAULT_URL_TEMPLATES,
+    configFile: options.configFile,
+    config: overrides,
+  });
+  const result = await exportSqlite({
+    dataDir: config.outputDir,
+    templates,
+    databasePath: config.sqlitePath || undefined,
+  });
+
+  if (result.rebuilt.length === 0 && result.unchanged.length === 0) {
+    console.error(`No data files found in ${config.outputDir}`);
+    return EXIT_FAILURE;
+  }
+  result.rebuilt.forEach(file => console.log(`Rebuilt: ${file}`));
+  result.unchanged.forEach(file => console.log(`Unchanged: ${file}`));
+  console.log(`Wrote ${result.path}`);
+  return EXIT_SUCCESS;
+}
+
+/**
+ * Runs the serve command until the process is interrupted
+ */
+export async function runServe(args: string[]): Promise<number> {
+  const options = parseServeArgs(args);
+  const dataDir = resolveDataDir(options);
+  const server = new ApiServer({ ...options, dataDir });
+  const address = await server.start();
+  console.log(`Serving ${dataDir} on http://${address.address}:${address.port}`);
+
+  await new Promise<void>(resolve => {
+    process.once('SIGINT', () => resolve());
+    process.once('SIGTERM', () => resolve());
+  });
+  await server.stop();
+  return EXIT_SUCCESS;
+}
+
+function describeGeoProblems(problems: GeoProblem[]): string {
+  const missing = problems.filter(problem => problem.reason === 'missing-coordinates').length;
+  const outOfRange = problems.length - missing;
+  return `${problems.length} rows were left out: ${missing} without coordinates, ` +
+    `${outOfRange} outside the National Grid`;
+}
+
+function describeUrn(graph: LineageGraph, urn: number): string {
+  const name = graph.nameOf(urn);
+  return name ? `${urn} ${name}` : String(urn);
+}
+
+function describeChain(chain: LineageChain): string {
+  return chain.map(step => {
+    const via = step.via
+      ? `-(${step.via.linkType}${step.via.date ? ', ' + format(step.via.date, 'yyyy-MM-dd') : ''})-> `
+      : '';
+    return via + String(step.urn);
+  }).join(' ');
+}
+
+/**
+ * Entry point: dispatches to the requested command and returns the exit code
+ */
+export async function runCli(argv: string[], fetchFn?: typeof fetch): Promise<number> {
+  const [command, ...rest] = argv;
+
+  try {
+    if (command === 'help' || argv.includes('-h') || argv.includes('--help')) {
+      console.log(USAGE);
+      return EXIT_SUCCESS;
+    }
+
+    if (command === 'verify') {
+      return (await runVerify(resolveDataDir(parseVerifyArgs(rest)))) ? EXIT_SUCCESS : EXIT_FAILURE;
+    }
+
+    if (command === 'trusts') {
+      return await runTrusts(rest);
+    }
+
+    if (command === 'geojson') {
+      return await runGeo(rest);
+    }
+
+    if (command === 'sqlite') {
+      return await runSqlite(rest);
+    }
+
+    if (command === 'serve') {
+      return await runServe(rest);
+    }
+
+    if (command === 'lineage') {
+      return await runLineage(rest);
+    }
+
+    if (command === 'backfill') {
+      return await runBackfill(rest, fetchFn);
+    }
+
+    if (command === 'fetch') {
+      return await runFetch(rest, fetchFn);
+    }
+
+    return await runFetch(argv, fetchFn);
+  } catch (error) {
+    if (error instanceof CliError) {
+      console.error(error.message);
+      console.error(USAGE);
+    } else if (error instanceof ConfigError) {
+      console.error(error.message);
+    } else {
+      console.error('Error in data fetch:', error);
+    }
+    return EXIT_FAILURE;
+  }
+}
+
+// If this file is being run directly
+const isMainModule = require.main === module;
+if (isMainModule) {
+  runCli(process.argv.slice(2)).then(code => {
+    process.exit(code);
+  });
+}
@@ -0,0 +1,447 @@
+/**
+ * Layered configuration
+ *
+ * Resolves the fetcher settings from, in increasing order of precedence:
+ * DEFAULT_CONFIG, an optional gias.config.json (or .ts/.js) file, GIAS_*
+ * environment variables, and the options passed in code or on the command line.
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import * as path from 'path';
+import type { FetcherConfig, FileTemplate } from './fetch-data';
+import { INTEGRITY_RULE_NAMES, INTEGRITY_SEVERITIES } from './integrity';
+import { PRIVACY_ACTIONS, PRIVACY_OUTPUTS, privacyColumnsFor, privacyProfileNames } from './privacy';
+import { checkQualityRule } from './quality';
+import { COMPRESSION_FORMATS } from './storage';
+
+// Types
+export interface ConfigFile extends Partial<FetcherConfig> {
+  // Replaces the default template list
+  templates?: FileTemplate[];
+  // Restricts the run to these output files (with or without .csv)
+  only?: string[];
+  // Per-file changes merged into the matching template
+  overrides?: Record<string, Partial<FileTemplate>>;
+}
+
+export interface ResolveSettingsOptions {
+  defaults: FetcherConfig;
+  defaultTemplates: FileTemplate[];
+  // Path to a config file, or false to skip config files entirely
+  configFile?: string | false;
+  cwd?: string;
+  env?: NodeJS.ProcessEnv;
+  config?: Partial<FetcherConfig>;
+  urlTemplates?: FileTemplate[];
+}
+
+export interface ResolvedSettings {
+  config: FetcherConfig;
+  templates: FileTemplate[];
+  configPath?: string;
+}
+
+export const CONFIG_FILE_NAMES = ['gias.config.json', 'gias.config.ts', 'gias.config.js'];
+export const ENV_PREFIX = 'GIAS_';
+
+// Lower bounds for numeric settings; any other number must be zero or more
+const NUMBER_MINIMUMS: Partial<Record<keyof FetcherConfig, number>> = {
+  concurrency: 1,
+  maxFileSizeBytes: 1,
+  requestTimeoutMs: 1,
+};
+
+// Allowed values for settings that take one of a fixed set of strings
+const STRING_CHOICES: Partial<Record<keyof FetcherConfig, readonly string[]>> = {
+  compression: COMPRESSION_FORMATS,
+  privacyOutput: PRIVACY_OUTPUTS,
+};
+
+// Allowed names and values for settings that map names to one of a fixed set of strings
+const MAP_CHOICES: Partial<Record<keyof FetcherConfig, { keys: readonly string[]; values: readonly string[] }>> = {
+  integritySeverity: { keys: INTEGRITY_RULE_NAMES, values: INTEGRITY_SEVERITIES },
+};
+
+const TEMPLATE_FIELDS: Record<keyof FileTemplate, string> = {
+  urlTemplate: 'string',
+  outputFile: 'string',
+  schema: 'object',
+  encoding: 'string',
+  preserveEncoding: 'boolean',
+  required: 'boolean',
+  qualityRules: 'array',
+  privacy: 'object',
+};
+
+/**
+ * Raised when a configuration source is invalid. Lists every problem found.
+ */
+export class ConfigError extends Error {
+  constructor(public readonly source: string, public readonly issues: string[]) {
+    super(`Invalid configuration in ${source}:\n${issues.map(issue => `  - ${issue}`).join('\n')}`);
+    this.name = 'ConfigError';
+  }
+}
+
+/**
+ * Converts a config key to its environment variable, e.g. outputDir -> GIAS_OUTPUT_DIR
+ */
+export function envVarName(key: string): string {
+  return ENV_PREFIX + key.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toUpperCase();
+}
+
+/**
+ * Finds the config file to load: the explicit path, GIAS_CONFIG, or the first
+ * gias.config.* file in the working directory
+ */
+export function findConfigFile(cwd: string, env: NodeJS.ProcessEnv, explicit?: string): string | undefined {
+  const requested = explicit ?? env[`${ENV_PREFIX}CONFIG`];
+  if (requested) {
+    const resolved = path.resolve(cwd, requested);
+    if (!existsSync(resolved)) {
+      throw new ConfigError(requested, ['file not found']);
+    }
+    return resolved;
+  }
+
+  return CONFIG_FILE_NAMES.map(name => path.join(cwd, name)).find(candidate => existsSync(candidate));
+}
+
+/**
+ * Loads a JSON, TypeScript or JavaScript config file. TypeScript files need
+ * ts-node to be registered, as it is for the npm scripts.
+ */
+export function loadConfigFile(filePath: string, defaults: FetcherConfig): ConfigFile {
+  let raw: unknown;
+  try {
+    if (filePath.endsWith('.json')) {
+      raw = JSON.parse(readFileSync(filePath, 'utf8'));
+    } else {
+      const loaded = require(filePath);
+      raw = loaded && typeof loaded === 'object' && 'default' in loaded ? loaded.default : loaded;
+    }
+  } catch (error) {
+    throw new ConfigError(filePath, [`could not be loaded: ${error instanceof Error ? error.message : error}`]);
+  }
+
+  return validateConfigFile(raw, filePath, defaults);
+}
+
+/**
+ * Checks the values in a config file against the types of DEFAULT_CONFIG and
+ * the template shape
+ */
+export function validateConfigFile(raw: unknown, source: string, defaults: FetcherConfig): ConfigFile {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new ConfigError(source, ['expected an object']);
+  }
+
+  const issues: string[] = [];
+  const values = raw as Record<string, unknown>;
+
+  Object.entries(values).forEach(([key, value]) => {
+    if (key === 'templates') {
+      if (!Array.isArray(value)) {
+        issues.push('templates must be an array');
+      } else {
+        value.forEach((template, index) => issues.push(...checkTemplate(template, `templates[${index}]`, true)));
+      }
+    } else if (key === 'only') {
+      if (!Array.isArray(value) || value.some(name => typeof name !== 'string')) {
+        issues.push('only must be an array of file names');
+      }
+    } else if (key === 'overrides') {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        issues.push('overrides must be an object keyed by output file');
+      } else {
+        Object.entries(value).forEach(([file, override]) =>
+          issues.push(...checkTemplate(override, `overrides["${file}"]`, false)));
+      }
+    } else if (key in defaults) {
+      const issue = checkSetting(key as keyof FetcherConfig, value, defaults);
+      if (issue) issues.push(issue);
+    } else {
+      issues.push(`unknown setting "${key}"`);
+    }
+  });
+
+  if (issues.length > 0) {
+    throw new ConfigError(source, issues);
+  }
+  return values as ConfigFile;
+}
+
+/**
+ * Reads GIAS_* environment variables for every setting in DEFAULT_CONFIG,
+ * converting them to the type of the default value. Object settings are
+ * written as name=value pairs, e.g. GIAS_INTEGRITY_SEVERITY=links-urn=error,links-link-urn=off
+ */
+export function readEnvConfig(env: NodeJS.ProcessEnv, defaults: FetcherConfig): Partial<FetcherConfig> {
+  const config: Record<string, unknown> = {};
+  const issues: string[] = [];
+
+  (Object.keys(defaults) as (keyof FetcherConfig)[]).forEach(key => {
+    const name = envVarName(key);
+    const raw = env[name];
+    if (raw === undefined || raw === '') return;
+
+    let value: unknown = raw;
+    if (typeof defaults[key] === 'number') {
+      value = Number(raw);
+    } else if (typeof defaults[key] === 'boolean') {
+      const normalised = raw.toLowerCase();
+      value = ['true', '1', 'yes'].includes(normalised) ? true
+        : ['false', '0', 'no'].includes(normalised) ? false
+          : raw;
+    } else if (typeof defaults[key] === 'object') {
+      value = Object.fromEntries(raw.split(',').map(pair => pair.split('=').map(part => part.trim())));
+    }
+
+    const issue = checkSetting(key, value, defaults, name);
+    if (issue) {
+      issues.push(issue);
+    } else {
+      config[key] = value;
+    }
+  });
+
+  if (issues.length > 0) {
+    throw new ConfigError('environment', issues);
+  }
+  return config as Partial<FetcherConfig>;
+}
+
+/**
+ * Reads the GIAS_ONLY environment variable as a list of file names
+ */
+export function readEnvOnly(env: NodeJS.ProcessEnv): string[] | undefined {
+  const raw = env[`${ENV_PREFIX}ONLY`];
+  if (!raw) return undefined;
+  return raw.split(',').map(name => name.trim()).filter(name => name.length > 0);
+}
+
+/**
+ * Restricts templates to the named output files. Unknown names are an error.
+ */
+export function filterTemplates(templates: FileTemplate[], only: string[], source: string): FileTemplate[] {
+  const stripExtension = (name: string) => name.replace(/\.csv$/i, '');
+  const available = templates.map(template => stripExtension(template.outputFile));
+  const unknown = only.filter(name => !available.includes(stripExtension(name)));
+  if (unknown.length > 0) {
+    throw new ConfigError(source, [`unknown file(s) in only: ${unknown.join(', ')}`]);
+  }
+
+  const wanted = only.map(stripExtension);
+  return templates.filter(template => wanted.includes(stripExtension(template.outputFile)));
+}
+
+/**
+ * Merges every configuration layer into the settings for a run
+ */
+export function resolveSettings(options: ResolveSettingsOptions): ResolvedSettings {
+  const cwd = options.cwd ?? process.cwd();
+  const env = options.env ?? process.env;
+
+  let file: ConfigFile = {};
+  let configPath: string | undefined;
+  if (options.configFile !== false) {
+    configPath = findConfigFile(cwd, env, options.configFile);
+    if (configPath) {
+      file = loadConfigFile(configPath, options.defaults);
+    }
+  }
+
+  const { templates: fileTemplates, only: fileOnly, overrides, ...fileConfig } = file;
+  const config: FetcherConfig = {
+    ...options.defaults,
+    ...fileConfig,
+    ...readEnvConfig(env, options.defaults),
+    ...options.config,
+  };
+
+  // Templates passed in code are used exactly as given
+  if (options.urlTemplates) {
+    checkPrivacyProfile(config, options.urlTemplates, configPath);
+    checkIntegritySeverity(config, configPath);
+    checkQualityRules(options.urlTemplates, configPath);
+    return { config, templates: options.urlTemplates, configPath };
+  }
+
+  let templates = fileTemplates ?? options.defaultTemplates;
+
+  if (overrides) {
+    const unknown = Object.keys(overrides).filter(file => !templates.some(t => t.outputFile === file));
+    if (unknown.length > 0) {
+      throw new ConfigError(configPath ?? 'config', [`overrides for unknown file(s): ${unknown.join(', ')}`]);
+    }
+    templates = templates.map(template => ({ ...template, ...overrides[template.outputFile] }));
+  }
+
+  const envOnly = readEnvOnly(env);
+  const only = envOnly ?? fileOnly;
+  if (only) {
+    templates = filterTemplates(templates, only, envOnly ? 'environment' : configPath ?? 'config');
+  }
+
+  checkPrivacyProfile(config, templates, configPath);
+  checkIntegritySeverity(config, configPath);
+  checkQualityRules(templates, configPath);
+  return { config, templates, configPath };
+}
+
+// Without staging the files are already in place when the checks run, so an error rule could not hold them back
+function checkIntegritySeverity(config: FetcherConfig, configPath?: string): void {
+  const errorRules = Object.entries(config.integritySeverity)
+    .filter(([, severity]) => severity === 'error')
+    .map(([rule]) => rule);
+  if (config.integrityChecks && errorRules.length > 0 && !config.transactional) {
+    throw new ConfigError(configPath ?? 'config', [
+      `integritySeverity sets ${errorRules.join(', ')} to error, which needs transactional so that ` +
+        'files failing the rule are not published',
+    ]);
+  }
+}
+
+// Malformed rules are a configuration error before any download, rather than a failure of each file
+function checkQualityRules(templates: FileTemplate[], configPath?: string): void {
+  const issues: string[] = [];
+  templates.forEach(template => {
+    const check = (rules: unknown, field: string) => {
+      if (rules === undefined) return;
+      if (!Array.isArray(rules)) {
+        issues.push(`${template.outputFile}: ${field} must be an array of rules`);
+      } else {
+        rules.forEach((rule, index) =>
+          issues.push(...checkQualityRule(rule, `${template.outputFile}: ${field}[${index}]`)));
+      }
+    };
+    check(template.schema?.qualityRules, 'schema.qualityRules');
+    check(template.qualityRules, 'qualityRules');
+  });
+
+  if (issues.length > 0) {
+    throw new ConfigError(configPath ?? 'config', issues);
+  }
+}
+
+// A profile is known when it is built in or a template defines columns for it
+function checkPrivacyProfile(config: FetcherConfig, templates: FileTemplate[], configPath?: string): void {
+  const names = privacyProfileNames(templates);
+  if (config.privacyProfile && !names.includes(config.privacyProfile)) {
+    throw new ConfigError(configPath ?? 'config', [
+      `privacyProfile "${config.privacyProfile}" is not defined, expected one of ${names.join(', ')}`,
+    ]);
+  }
+
+  // The filter reads and writes UTF-8, so it would garble the original bytes of another encoding
+  const preserved = templates.filter(template => template.preserveEncoding &&
+    Object.keys(privacyColumnsFor(config.privacyProfile, template)).length > 0);
+  if (config.privacyProfile && preserved.length > 0) {
+    throw new ConfigError(configPath ?? 'config', preserved.map(template =>
+      `${template.outputFile}: preserveEncoding cannot be combined with privacyProfile "${config.privacyProfile}"`));
+  }
+}
+
+function checkSetting(
+  key: keyof FetcherConfig,
+  value: unknown,
+  defaults: FetcherConfig,
+  label: string = key
+): string | null {
+  const expected = typeof defaults[key];
+  if (typeof value !== expected || (expected === 'number' && !Number.isFinite(value))) {
+    return `${label} must be a ${expected}, got ${JSON.stringify(value)}`;
+  }
+
+  if (expected === 'number') {
+    const minimum = NUMBER_MINIMUMS[key] ?? 0;
+    if ((value as number) < minimum) {
+      return `${label} must be at least ${minimum}, got ${value}`;
+    }
+  }
+
+  const choices = STRING_CHOICES[key];
+  if (choices && !choices.includes(value as string)) {
+    return `${label} must be one of ${choices.join(', ')}, got ${JSON.stringify(value)}`;
+  }
+
+  const mapChoices = MAP_CHOICES[key];
+  if (mapChoices) {
+    if (value === null || Array.isArray(value)) {
+      return `${label} must be an object, got ${JSON.stringify(value)}`;
+    }
+    for (const [name, entry] of Object.entries(value as Record<string, unknown>)) {
+      if (!mapChoices.keys.includes(name)) {
+        return `${label} has unknown name "${name}", expected one of ${mapChoices.keys.join(', ')}`;
+      }
+      if (!mapChoices.values.includes(entry as string)) {
+        return `${label}.${name} must be one of ${mapChoices.values.join(', ')}, got ${JSON.stringify(entry)}`;
+      }
+    }
+  }
+  return null;
+}
+
+function checkTemplate(template: unknown, label: string, requireAll: boolean): string[] {
+  if (!template || typeof template !== 'object' || Array.isArray(template)) {
+    return [`${label} must be an object`];
+  }
+
+  const issues: string[] = [];
+  const values = template as Record<string, unknown>;
+
+  Object.entries(values).forEach(([key, value]) => {
+    const expected = TEMPLATE_FIELDS[key as keyof FileTemplate];
+    if (!expected) {
+      issues.push(`${label} has unknown field "${key}"`);
+    } else if (expected === 'array') {
+      if (!Array.isArray(value)) issues.push(`${label}.${key} must be an array`);
+    } else if (expected === 'object') {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) issues.push(`${label}.${key} must be an object`);
+    } else if (typeof value !== expected) {
+      issues.push(`${label}.${key} must be a ${expected}`);
+    }
+  });
+
+  if (requireAll) {
+    ['urlTemplate', 'outputFile']
+      .filter(key => values[key] === undefined)
+      .forEach(key => issues.push(`${label}.${key} is required`));
+  }
+
+  if (Array.isArray(values.qualityRules)) {
+    values.qualityRules.forEach((rule, index) =>
+      issues.push(...checkQualityRule(rule, `${label}.qualityRules[${index}]`)));
+  }
+
+  const privacy = values.privacy as Record<string, unknown> | undefined;
+  if (privacy && typeof privacy === 'object' && !Array.isArray(privacy)) {
+    Object.entries(privacy).forEach(([profile, columns]) => {
+      const actions = columns && typeof columns === 'object' ? Object.entries(columns) : null;
+      if (!actions || Array.isArray(columns)) {
+        issues.push(`${label}.privacy.${profile} must be an object keyed by column`);
+      } else {
+        actions
+          .filter(([, action]) => !PRIVACY_ACTIONS.includes(action))
+          .forEach(([column, action]) => issues.push(
+            `${label}.privacy.${profile}["${column}"] must be one of ${PRIVACY_ACTIONS.join(', ')}, ` +
+            `got ${JSON.stringify(action)}`
+          ));
+      }
+    });
+  }
+
+  const schema = values.schema as Record<string, unknown> | undefined;
+  if (schema && typeof schema === 'object') {
+    const columnsValid = (columns: unknown) =>
+      Array.isArray(columns) && columns.every(column => typeof column === 'string');
+    if (!columnsValid(schema.requiredColumns)) {
+      issues.push(`${label}.schema.requiredColumns must be an array of column names`);
+    }
+    if (schema.keyColumns !== undefined && !columnsValid(schema.keyColumns)) {
+      issues.push(`${label}.schema.keyColumns must be an array of column names`);
+    }
+  }
+
+  return issues;
+}
@@ -0,0 +1,224 @@
+/**
+ * CSV helpers
+ *
+ * Minimal RFC 4180 utilities shared by the validation and comparison steps.
+ */
+
+import { createReadStream, promises as fs } from 'fs';
+
+/**
+ * Splits a single CSV line into its fields, honouring double-quoted values
+ * and escaped quotes ("")
+ */
+export function parseCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+
+    if (inQuotes) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      fields.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  fields.push(current);
+  return fields;
+}
+
+/**
+ * Returns the column names from the first line of the content, with any
+ * byte order mark and trailing carriage return removed
+ */
+export function extractHeader(content: string): string[] {
+  const newlineIndex = content.indexOf('\n');
+  let firstLine = newlineIndex === -1 ? content : content.slice(0, newlineIndex);
+  firstLine = firstLine.replace(/^\uFEFF/, '').replace(/\r$/, '');
+
+  if (firstLine.trim() === '') return [];
+  return parseCsvLine(firstLine).map(column => column.trim());
+}
+
+/**
+ * Reads the first line of a file without loading the whole file into memory
+ */
+export async function readFirstLine(filePath: string, chunkSize = 64 * 1024): Promise<string> {
+  const handle = await fs.open(filePath, 'r');
+  try {
+    const chunks: Buffer[] = [];
+    let position = 0;
+
+    for (;;) {
+      const buffer = Buffer.alloc(chunkSize);
+      const { bytesRead } = await handle.read(buffer, 0, chunkSize, position);
+      if (bytesRead === 0) break;
+
+      const chunk = buffer.subarray(0, bytesRead);
+      const newlineIndex = chunk.indexOf(0x0a);
+      if (newlineIndex !== -1) {
+        chunks.push(chunk.subarray(0, newlineIndex));
+        break;
+      }
+
+      chunks.push(chunk);
+      position += bytesRead;
+    }
+
+    return Buffer.concat(chunks).toString('utf8');
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Counts data rows in CSV content delivered in chunks. Line breaks inside
+ * quoted values are not counted, and the header row is excluded.
+ */
+export class CsvRowCounter {
+  private lineBreaks = 0;
+  private inQuotes = false;
+  private lastByte: number | null = null;
+
+  update(chunk: Uint8Array): void {
+    for (let i = 0; i < chunk.length; i++) {
+      const byte = chunk[i];
+      if (byte === 0x22) {
+        this.inQuotes = !this.inQuotes;
+      } else if (byte === 0x0a && !this.inQuotes) {
+        this.lineBreaks++;
+      }
+    }
+    if (chunk.length > 0) {
+      this.lastByte = chunk[chunk.length - 1];
+    }
+  }
+
+  get rowCount(): number {
+    if (this.lastByte === null) return 0;
+    // A final line without a trailing line break is still a row
+    const lines = this.lastByte === 0x0a ? this.lineBreaks : this.lineBreaks + 1;
+    return Math.max(lines - 1, 0);
+  }
+}
+
+/**
+ * Incremental RFC 4180 parser. Text can be pushed in arbitrary pieces; only
+ * complete records are returned, so quoted values may span chunks and lines.
+ */
+export class CsvParser {
+  private field = '';
+  private record: string[] = [];
+  private inQuotes = false;
+  private pendingQuote = false;
+  private pendingCarriageReturn = false;
+  private sawData = false;
+
+  push(text: string): string[][] {
+    const records: string[][] = [];
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      if (this.pendingCarriageReturn) {
+        this.pendingCarriageReturn = false;
+        if (char === '\n') continue;
+      }
+
+      if (this.inQuotes) {
+        if (this.pendingQuote) {
+          this.pendingQuote = false;
+          if (char === '"') {
+            this.field += '"';
+            continue;
+          }
+          // The previous quote closed the value; handle this character normally
+          this.inQuotes = false;
+        } else if (char === '"') {
+          this.pendingQuote = true;
+          continue;
+        } else {
+          this.field += char;
+          continue;
+        }
+      }
+
+      if (char === '"' && this.field === '') {
+        this.inQuotes = true;
+        this.sawData = true;
+      } else if (char === ',') {
+        this.record.push(this.field);
+        this.field = '';
+        this.sawData = true;
+      } else if (char === '\n' || char === '\r') {
+        this.pendingCarriageReturn = char === '\r';
+        records.push(this.finishRecord());
+      } else {
+        this.field += char;
+        this.sawData = true;
+      }
+    }
+
+    return records;
+  }
+
+  end(): string[][] {
+    this.inQuotes = false;
+    this.pendingQuote = false;
+    if (!this.sawData && this.record.length === 0 && this.field === '') return [];
+    return [this.finishRecord()];
+  }
+
+  private finishRecord(): string[] {
+    this.record.push(this.field);
+    const record = this.record;
+    this.record = [];
+    this.field = '';
+    this.sawData = false;
+    return record;
+  }
+}
+
+/**
+ * Streams the records of a CSV file, or of a stream of UTF-8 bytes, header
+ * row included. A leading byte order mark is dropped and blank lines are skipped.
+ */
+export async function* readCsvRecords(source: string | AsyncIterable<Uint8Array>): AsyncGenerator<string[]> {
+  const parser = new CsvParser();
+  const decoder = new TextDecoder('utf-8');
+  const chunks = typeof source === 'string' ? createReadStream(source) : source;
+  let first = true;
+
+  for await (const chunk of chunks) {
+    let text = decoder.decode(chunk as Uint8Array, { stream: true });
+    if (first) {
+      text = text.replace(/^\uFEFF/, '');
+      first = text.length === 0;
+    }
+    for (const record of parser.push(text)) {
+      if (!isBlankRecord(record)) yield record;
+    }
+  }
+
+  for (const record of [...parser.push(decoder.decode()), ...parser.end()]) {
+    if (!isBlankRecord(record)) yield record;
+  }
+}
+
+function isBlankRecord(record: string[]): boolean {
+  return record.length === 1 && record[0] === '';
+}
@@ -0,0 +1,229 @@
+/**
+ * Record-level change reports
+ *
+ * Compares two snapshots of a GIAS extract row by row, keyed on URN (or on
+ * URN, LinkURN and LinkType for the links files), and renders the differences
+ * as JSON and as a Markdown changelog.
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { readCsvRecords } from './csv';
+
+// Types
+export interface FieldChange {
+  column: string;
+  previous: string;
+  current: string;
+}
+
+export interface RecordSummary {
+  key: string;
+  name?: string;
+}
+
+export interface ModifiedRecord extends RecordSummary {
+  changes: FieldChange[];
+}
+
+export interface RecordChanges {
+  file: string;
+  keyColumns: string[];
+  added: RecordSummary[];
+  removed: RecordSummary[];
+  modified: ModifiedRecord[];
+}
+
+export interface ChangeReport {
+  generatedAt: string;
+  files: RecordChanges[];
+  newFiles: string[];
+}
+
+export const CHANGES_JSON_FILE = 'changes.json';
+export const CHANGES_MARKDOWN_FILE = 'CHANGES.md';
+
+// Columns used to label records in the report, in order of preference
+const NAME_COLUMNS = ['EstablishmentName', 'LinkName', 'Group Name'];
+
+// Maximum number of records listed per section in the Markdown summary
+const MARKDOWN_LIST_LIMIT = 50;
+
+/**
+ * Reads the header of a CSV file and resolves the key column positions
+ */
+function resolveColumns(header: string[], keyColumns: string[], filePath: string, ignoredColumns: string[]) {
+  const keyIndexes = keyColumns.map(column => header.indexOf(column));
+  const missing = keyColumns.filter((_column, index) => keyIndexes[index] === -1);
+  if (missing.length > 0) {
+    throw new Error(`Key columns missing from ${path.basename(filePath)}: ${missing.join(', ')}`);
+  }
+  const nameIndex = NAME_COLUMNS.filter(column => !ignoredColumns.includes(column))
+    .map(column => header.indexOf(column)).find(index => index !== -1);
+  return { keyIndexes, nameIndex };
+}
+
+function recordKey(record: string[], keyIndexes: number[]): string {
+  return keyIndexes.map(index => record[index] ?? '').join('|');
+}
+
+function summarise(key: string, record: string[], nameIndex: number | undefined): RecordSummary {
+  const name = nameIndex === undefined ? undefined : record[nameIndex];
+  return name ? { key, name } : { key };
+}
+
+/**
+ * Compares the previous and current copies of a CSV file. The previous copy is
+ * held in memory by key while the current copy is streamed. Only columns
+ * present in both headers are compared; added or removed columns are reported
+ * by the column drift check instead. Ignored columns, such as those a privacy
+ * profile protects, are neither compared nor used to name records.
+ */
+export async function diffCsvFiles(
+  previousPath: string,
+  currentPath: string,
+  keyColumns: string[],
+  fileName = path.basename(currentPath),
+  ignoredColumns: string[] = []
+): Promise<RecordChanges> {
+  const previousRecords = new Map<string, string[]>();
+  let previousHeader: string[] = [];
+  let previousColumns: ReturnType<typeof resolveColumns> | undefined;
+
+  for await (const record of readCsvRecords(previousPath)) {
+    if (!previousColumns) {
+      previousHeader = record.map(column => column.trim());
+      previousColumns = resolveColumns(previousHeader, keyColumns, previousPath, ignoredColumns);
+      continue;
+    }
+    previousRecords.set(recordKey(record, previousColumns.keyIndexes), record);
+  }
+
+  const added: RecordSummary[] = [];
+  const modified: ModifiedRecord[] = [];
+  let currentHeader: string[] = [];
+  let currentColumns: ReturnType<typeof resolveColumns> | undefined;
+  let sharedColumns: { column: string; previousIndex: number; currentIndex: number }[] = [];
+
+  for await (const record of readCsvRecords(currentPath)) {
+    if (!currentColumns) {
+      currentHeader = record.map(column => column.trim());
+      currentColumns = resolveColumns(currentHeader, keyColumns, currentPath, ignoredColumns);
+      sharedColumns = currentHeader
+        .map((column, currentIndex) => ({ column, currentIndex, previousIndex: previousHeader.indexOf(column) }))
+        .filter(shared => shared.previousIndex !== -1 && !ignoredColumns.includes(shared.column));
+      continue;
+    }
+
+    const key = recordKey(record, currentColumns.keyIndexes);
+    const previous = previousRecords.get(key);
+    if (!previous) {
+      added.push(summarise(key, record, currentColumns.nameIndex));
+      continue;
+    }
+    previousRecords.delete(key);
+
+    const changes = sharedColumns
+      .filter(shared => (previous[shared.previousIndex] ?? '') !== (record[shared.currentIndex] ?? ''))
+      .map(shared => ({
+        column: shared.column,
+        previous: previous[shared.previousIndex] ?? '',
+        current: record[shared.currentIndex] ?? '',
+      }));
+    if (changes.length > 0) {
+      modified.push({ ...summarise(key, record, currentColumns.nameIndex), changes });
+    }
+  }
+
+  // Anything not matched by the current copy has been removed
+  const removed = [...previousRecords.entries()].map(([key, record]) =>
+    summarise(key, record, previousColumns?.nameIndex));
+
+  return { file: fileName, keyColumns, added, removed, modified };
+}
+
+/**
+ * Returns true when the comparison found any added, removed or modified record
+ */
+export function hasRecordChanges(changes: RecordChanges): boolean {
+  return changes.added.length > 0 || changes.removed.length > 0 || changes.modified.length > 0;
+}
+
+function describeRecord(record: RecordSummary): string {
+  return record.name ? `${record.key} ${record.name}` : record.key;
+}
+
+function appendList<T>(lines: string[], title: string, items: T[], render: (item: T) => string): void {
+  if (items.length === 0) return;
+  lines.push(`### ${title} (${items.length})`, '');
+  items.slice(0, MARKDOWN_LIST_LIMIT).forEach(item => lines.push(`- ${render(item)}`));
+  if (items.length > MARKDOWN_LIST_LIMIT) {
+    lines.push(`- ...and ${items.length - MARKDOWN_LIST_LIMIT} more`);
+  }
+  lines.push('');
+}
+
+/**
+ * Renders the change report as a readable Markdown summary
+ */
+export function renderChangeMarkdown(report: ChangeReport): string {
+  const lines: string[] = [`# GIAS data changes (${report.generatedAt.slice(0, 10)})`, ''];
+
+  if (report.files.length === 0 && report.newFiles.length === 0) {
+    lines.push('No record-level changes.', '');
+    return lines.join('\n');
+  }
+
+  if (report.files.length > 0) {
+    lines.push('| File | Added | Removed | Modified |', '| --- | ---: | ---: | ---: |');
+    report.files.forEach(file => {
+      lines.push(`| ${file.file} | ${file.added.length} | ${file.removed.length} | ${file.modified.length} |`);
+    });
+    lines.push('');
+  }
+
+  if (report.newFiles.length > 0) {
+    lines.push(`New files: ${report.newFiles.join(', ')}`, '');
+  }
+
+  report.files.forEach(file => {
+    lines.push(`## ${file.file}`, '');
+    appendList(lines, 'Added', file.added, describeRecord);
+    appendList(lines, 'Removed', file.removed, describeRecord);
+    appendList(lines, 'Modified', file.modified, record => {
+      const changes = record.changes
+        .map(change => `${change.column}: "${change.previous}" → "${change.current}"`)
+        .join('; ');
+      return `${describeRecord(record)}: ${changes}`;
+    });
+  });
+
+  return lines.join('\n');
+}
+
+/**
+ * Writes the change report next to the data as JSON and Markdown
+ */
+export async function writeChangeReport(outputDir: string, report: ChangeReport): Promise<string[]> {
+  const jsonPath = path.join(outputDir, CHANGES_JSON_FILE);
+  const markdownPath = path.join(outputDir, CHANGES_MARKDOWN_FILE);
+  await fs.writeFile(jsonPath, JSON.stringify(report, null, 2) + '\n');
+  await fs.writeFile(markdownPath, renderChangeMarkdown(report));
+  return [jsonPath, markdownPath];
+}
+
+/**
+ * Deletes the change report of an earlier run so it is not mistaken for one
+ * describing the current data. Returns the paths that were removed.
+ */
+export async function removeChangeReport(outputDir: string): Promise<string[]> {
+  const removed: string[] = [];
+  for (const fileName of [CHANGES_JSON_FILE, CHANGES_MARKDOWN_FILE]) {
+    const filePath = path.join(outputDir, fileName);
+    if (await fs.access(filePath).then(() => true).catch(() => false)) {
+      await fs.rm(filePath);
+      removed.push(filePath);
+    }
+  }
+  return removed;
+}
@@ -0,0 +1,136 @@
+/**
+ * Character encoding detection and UTF-8 normalisation
+ *
+ * GIAS publishes its extracts in Windows-1252. The normaliser works out the
+ * source encoding from a byte order mark, the Content-Type charset or the
+ * bytes themselves, and re-encodes the stream as UTF-8 chunk by chunk.
+ */
+
+// Types
+export type EncodingSource = 'bom' | 'header' | 'template' | 'heuristic';
+
+export interface DetectedEncoding {
+  encoding: string;
+  source: EncodingSource;
+}
+
+// Encoding assumed when bytes are not valid UTF-8
+export const FALLBACK_ENCODING = 'windows-1252';
+
+/**
+ * Returns the encoding named by a byte order mark at the start of the bytes
+ */
+export function detectBom(bytes: Uint8Array): string | null {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8';
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le';
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be';
+  return null;
+}
+
+/**
+ * Extracts the charset parameter from a Content-Type header, normalised to
+ * the canonical name used by TextDecoder. Unknown labels are ignored.
+ */
+export function parseCharset(contentType: string | null | undefined): string | null {
+  const match = contentType?.match(/charset\s*=\s*"?([^";\s]+)"?/i);
+  if (!match) return null;
+  return normaliseLabel(match[1]);
+}
+
+/**
+ * Maps an encoding label to its canonical name, or null when unsupported
+ */
+export function normaliseLabel(label: string): string | null {
+  try {
+    return new TextDecoder(label).encoding;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Transcodes a byte stream to UTF-8. When no encoding is known up front the
+ * stream passes through while it is plain ASCII, then the first non-ASCII
+ * bytes decide between UTF-8 and Windows-1252.
+ */
+export class Utf8Normaliser {
+  private decoder: TextDecoder | null = null;
+  private detected: DetectedEncoding | null = null;
+  private started = false;
+
+  constructor(
+    private readonly contentType: string | null = null,
+    private readonly templateEncoding: string | null = null
+  ) {}
+
+  /**
+   * The encoding in use so far. Content that has only been ASCII is reported
+   * as UTF-8.
+   */
+  get encoding(): DetectedEncoding {
+    return this.detected ?? { encoding: 'utf-8', source: 'heuristic' };
+  }
+
+  push(chunk: Uint8Array): Uint8Array {
+    if (!this.started) {
+      this.started = true;
+      this.detectFromStart(chunk);
+    }
+
+    if (this.decoder) {
+      return Buffer.from(this.decoder.decode(chunk, { stream: true }), 'utf8');
+    }
+
+    // Still undecided: pass ASCII through untouched and decide on the first other byte
+    const firstNonAscii = chunk.findIndex(byte => byte > 0x7f);
+    if (firstNonAscii === -1) return chunk;
+
+    const rest = chunk.subarray(firstNonAscii);
+    const decoder = this.useEncoding(isValidUtf8Prefix(rest) ? 'utf-8' : FALLBACK_ENCODING, 'heuristic');
+    const decoded = decoder.decode(rest, { stream: true });
+    return Buffer.concat([chunk.subarray(0, firstNonAscii), Buffer.from(decoded, 'utf8')]);
+  }
+
+  flush(): Uint8Array {
+    if (!this.decoder) return new Uint8Array(0);
+    return Buffer.from(this.decoder.decode(), 'utf8');
+  }
+
+  private detectFromStart(chunk: Uint8Array): void {
+    const bom = detectBom(chunk);
+    if (bom) {
+      this.useEncoding(bom, 'bom');
+      return;
+    }
+
+    const forced = this.templateEncoding ? normaliseLabel(this.templateEncoding) : null;
+    if (forced) {
+      this.useEncoding(forced, 'template');
+      return;
+    }
+
+    // A declared UTF-8 charset is not trusted; the bytes decide instead
+    const declared = parseCharset(this.contentType);
+    if (declared && declared !== 'utf-8') {
+      this.useEncoding(declared, 'header');
+    }
+  }
+
+  private useEncoding(encoding: string, source: EncodingSource): TextDecoder {
+    this.detected = { encoding, source };
+    this.decoder = new TextDecoder(encoding);
+    return this.decoder;
+  }
+}
+
+/**
+ * Checks that the bytes are valid UTF-8, allowing a sequence cut off at the end
+ */
+function isValidUtf8Prefix(bytes: Uint8Array): boolean {
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes, { stream: true });
+    return true;
+  } catch {
+    return false;
+  }
+}
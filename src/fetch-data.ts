@@ -5,20 +5,111 @@
  * before storing locally.
  */
 
+import { createHash } from 'crypto';
 import { promises as fs } from 'fs';
 import * as path from 'path';
-import { format } from 'date-fns';
+import { format, subDays } from 'date-fns';
+import { ARCHIVE_DIR, archiveFile, pruneArchive } from './archive';
+import { resolveSettings } from './config';
+import { CsvRowCounter, extractHeader, readFirstLine } from './csv';
+import {
+  ChangeReport,
+  diffCsvFiles,
+  hasRecordChanges,
+  RecordChanges,
+  removeChangeReport,
+  writeChangeReport,
+} from './diff';
+import { Utf8Normaliser } from './encoding';
+import { checkIntegrity, IntegrityReport, IntegritySeverity } from './integrity';
+import {
+  emptyManifest,
+  hashFile,
+  Manifest,
+  ManifestEntry,
+  readManifest,
+  updateManifest,
+  writeManifest,
+} from './manifest';
+import { mapWithConcurrency } from './pool';
+import {
+  applyPrivacyFilter,
+  filterHeader,
+  PrivacyColumns,
+  privacyColumnsFor,
+  PrivacyFilterResult,
+  privacyFileName,
+  PrivacyOutput,
+} from './privacy';
+import { checkQuality, QualityReport, QualityRule } from './quality';
+import { ConsoleReporter, Reporter } from './reporter';
+import { backoffDelay, isTransientError, isTransientStatus, sleep } from './retry';
+import { exportSqlite } from './sqlite';
+import { discardStagingDir, prepareStagingDir, publishStagedFiles } from './staging';
+import {
+  CompressionFormat,
+  findStoredForms,
+  restoreStoredFile,
+  StorageOptions,
+  usesStoredCopies,
+  writeStoredCopy,
+} from './storage';
+import {
+  CHILDRENS_CENTRE_SCHEMA,
+  ColumnDrift,
+  detectColumnDrift,
+  ESTABLISHMENT_SCHEMA,
+  FileSchema,
+  GOVERNANCE_SCHEMA,
+  GROUP_LINKS_SCHEMA,
+  hasColumnDrift,
+  LINKS_SCHEMA,
+  MAT_MEMBERSHIP_SCHEMA,
+  validateHeader,
+} from './schema';
+import { DownloadLimitError, getDeclaredLength, readResponseChunks } from './stream';
 
 // Types
 export interface FileTemplate {
   urlTemplate: string;
   outputFile: string;
+  schema?: FileSchema;
+  // Source encoding to assume instead of detecting it, e.g. 'windows-1252'
+  encoding?: string;
+  // Keep the original bytes rather than transcoding to UTF-8; not allowed when a privacy profile filters the file
+  preserveEncoding?: boolean;
+  // Whether a transactional run needs this file to publish; defaults to true
+  required?: boolean;
+  // Row-level rules checked in addition to those of the schema
+  qualityRules?: QualityRule[];
+  // Column actions per privacy profile, added to the built-in ones for this file
+  privacy?: Record<string, PrivacyColumns>;
 }
 
 export interface DownloadResult {
   downloadedFiles: string[];
   skippedFiles: string[];
+  unchangedFiles: string[];
   fileSizeWarnings: string[];
+  columnDrift: ColumnDriftReport[];
+  sources: FileSource[];
+  recordChanges: RecordChanges[];
+  // False when a transactional run kept the existing files because a required file failed
+  published: boolean;
+  missingRequired: string[];
+  // Files that downloaded but were not published
+  withheldFiles: string[];
+  // Row-level checks of each file downloaded or rejected in this run
+  qualityReports: QualityReport[];
+  // Cross-file checks, when any file was downloaded
+  integrity?: IntegrityReport;
+  // The privacy profile applied and the files it filtered, when one is configured
+  privacy?: { profile: string; output: PrivacyOutput; files: PrivacyFilterResult[] };
+}
+
+export interface ColumnDriftReport extends ColumnDrift {
+  file: string;
+  blocked: boolean;
 }
 
 export interface FetcherConfig {
@@ -26,6 +117,55 @@ export interface FetcherConfig {
   sizeChangeThresholdPercent: number;
   baseUrl: string;
   dateFormat: string;
+  blockOnColumnDrift: boolean;
+  maxFileSizeBytes: number;
+  retries: number;
+  retryDelayMs: number;
+  lookbackDays: number;
+  concurrency: number;
+  requestTimeoutMs: number;
+  writeManifest: boolean;
+  changeReport: boolean;
+  transactional: boolean;
+  // Keep a dated copy of every download under archiveDir (default: <outputDir>/archive)
+  archive: boolean;
+  archiveDir: string;
+  archiveGzip: boolean;
+  retainDailyDays: number;
+  retainWeeklyWeeks: number;
+  retainMonthly: boolean;
+  // Also store each file compressed and/or split into parts, for committing large files
+  compression: CompressionFormat;
+  splitSizeBytes: number;
+  // Keep the plain CSV next to its stored copy
+  keepUncompressed: boolean;
+  // Check that the files agree with each other after downloading
+  integrityChecks: boolean;
+  // Severity overrides for the integrity rules, keyed by rule name; error rules need transactional
+  integritySeverity: Record<string, IntegritySeverity>;
+  // Check each downloaded row against the quality rules of its file
+  qualityChecks: boolean;
+  // Reject a file when more than this percentage of its rows fail a rule
+  qualityThresholdPercent: number;
+  // Update a SQLite database of every file after publishing (default path: <outputDir>/gias.sqlite)
+  sqlite: boolean;
+  sqlitePath: string;
+  // Privacy profile to apply to the published files; empty applies none
+  privacyProfile: string;
+  privacyOutput: PrivacyOutput;
+  privacySalt: string;
+}
+
+export interface FetchDataOptions {
+  date?: Date;
+  config?: Partial<FetcherConfig>;
+  urlTemplates?: FileTemplate[];
+  fetchFn?: typeof fetch;
+  // Config file to load, or false to ignore gias.config.* files
+  configFile?: string | false;
+  env?: NodeJS.ProcessEnv;
+  // Receives the progress events; defaults to console output
+  reporter?: Reporter;
 }
 
 export interface ValidationResult {
@@ -33,35 +173,177 @@ export interface ValidationResult {
   reason?: string;
 }
 
+export interface DownloadOptions {
+  schema?: FileSchema;
+  blockOnColumnDrift?: boolean;
+  maxFileSizeBytes?: number;
+  timeoutMs?: number;
+  sourceEncoding?: string;
+  preserveEncoding?: boolean;
+  validators?: ConditionalValidators;
+  compareRecords?: boolean;
+  // Columns left out of the record comparison, e.g. those a privacy profile protects
+  ignoredColumns?: string[];
+  reporter?: Reporter;
+  // Copy to compare against when the download is written somewhere else, e.g. to a staging directory
+  previousPath?: string;
+  qualityRules?: QualityRule[];
+  qualityThresholdPercent?: number;
+  // Filters the download in place before it is checked and compared with the stored copy
+  privacy?: { profile: string; columns: PrivacyColumns; salt?: string };
+}
+
+export interface DownloadFileResult {
+  success: boolean;
+  warning: string | null;
+  reason?: string;
+  columnDrift?: ColumnDrift;
+  sha256?: string;
+  bytes?: number;
+  rowCount?: number;
+  status?: number;
+  transient?: boolean;
+  encoding?: string;
+  header?: string[];
+  unchanged?: boolean;
+  isNew?: boolean;
+  recordChanges?: RecordChanges;
+  etag?: string;
+  lastModified?: string;
+  quality?: QualityReport;
+  privacy?: PrivacyFilterResult;
+}
+
+export interface ConditionalValidators {
+  etag?: string;
+  lastModified?: string;
+}
+
+export interface FileSource {
+  file: string;
+  url: string;
+  date: string;
+  encoding?: string;
+}
+
 // Default configuration
 export const DEFAULT_CONFIG: FetcherConfig = {
   outputDir: path.join(process.cwd(), 'data'),
   sizeChangeThresholdPercent: 20,
   baseUrl: 'https://ea-edubase-backend-prod.azurewebsites.net/edubase',
   dateFormat: 'yyyyMMdd',
+  blockOnColumnDrift: false,
+  maxFileSizeBytes: 512 * 1024 * 1024,
+  retries: 2,
+  retryDelayMs: 1000,
+  lookbackDays: 0,
+  concurrency: 1,
+  requestTimeoutMs: 5 * 60 * 1000,
+  writeManifest: true,
+  changeReport: true,
+  transactional: false,
+  archive: false,
+  archiveDir: '',
+  archiveGzip: false,
+  retainDailyDays: 30,
+  retainWeeklyWeeks: 12,
+  retainMonthly: true,
+  compression: 'none',
+  splitSizeBytes: 0,
+  keepUncompressed: true,
+  integrityChecks: true,
+  integritySeverity: {},
+  qualityChecks: true,
+  qualityThresholdPercent: 100,
+  sqlite: false,
+  sqlitePath: '',
+  privacyProfile: '',
+  privacyOutput: 'alongside',
+  privacySalt: '',
 };
 
-// File template definitions
+// Amount of the response body inspected before anything is written to disk
+const VALIDATION_SAMPLE_BYTES = 64 * 1024;
+
+// File template definitions. A transactional run only needs the full establishment extract and its
+// links to publish; the other files are sometimes published late and are kept from the previous run.
 export const DEFAULT_URL_TEMPLATES: FileTemplate[] = [
-  { urlTemplate: '{baseUrl}/edubasealldata{0}.csv', outputFile: 'edubasealldata.csv' },
-  { urlTemplate: '{baseUrl}/links_edubasealldata{0}.csv', outputFile: 'links_edubasealldata.csv' },
-  { urlTemplate: '{baseUrl}/edubaseallstatefunded{0}.csv', outputFile: 'edubaseallstatefunded.csv' },
-  { urlTemplate: '{baseUrl}/links_edubaseallstatefunded{0}.csv', outputFile: 'links_edubaseallstatefunded.csv' },
-  { urlTemplate: '{baseUrl}/edubaseallacademiesandfree{0}.csv', outputFile: 'edubaseallacademiesandfree.csv' },
+  {
+    urlTemplate: '{baseUrl}/edubasealldata{0}.csv',
+    outputFile: 'edubasealldata.csv',
+    schema: ESTABLISHMENT_SCHEMA
+  },
+  {
+    urlTemplate: '{baseUrl}/links_edubasealldata{0}.csv',
+    outputFile: 'links_edubasealldata.csv',
+    schema: LINKS_SCHEMA
+  },
+  {
+    urlTemplate: '{baseUrl}/edubaseallstatefunded{0}.csv',
+    outputFile: 'edubaseallstatefunded.csv',
+    schema: ESTABLISHMENT_SCHEMA,
+    required: false
+  },
+  {
+    urlTemplate: '{baseUrl}/links_edubaseallstatefunded{0}.csv',
+    outputFile: 'links_edubaseallstatefunded.csv',
+    schema: LINKS_SCHEMA,
+    required: false
+  },
+  {
+    urlTemplate: '{baseUrl}/edubaseallacademiesandfree{0}.csv',
+    outputFile: 'edubaseallacademiesandfree.csv',
+    schema: ESTABLISHMENT_SCHEMA,
+    required: false
+  },
   {
     urlTemplate: '{baseUrl}/links_edubaseallacademiesandfree{0}.csv',
-    outputFile: 'links_edubaseallacademiesandfree.csv'
+    outputFile: 'links_edubaseallacademiesandfree.csv',
+    schema: LINKS_SCHEMA,
+    required: false
   },
   {
     urlTemplate: '{baseUrl}/grouplinks_edubaseallacademiesandfree{0}.csv',
-    outputFile: 'grouplinks_edubaseallacademiesandfree.csv'
+    outputFile: 'grouplinks_edubaseallacademiesandfree.csv',
+    schema: GROUP_LINKS_SCHEMA,
+    required: false
+  },
+  {
+    urlTemplate: '{baseUrl}/edubaseallchildrencentre{0}.csv',
+    outputFile: 'edubaseallchildrencentre.csv',
+    schema: CHILDRENS_CENTRE_SCHEMA,
+    required: false
+  },
+  {
+    urlTemplate: '{baseUrl}/academiesmatmembership{0}.csv',
+    outputFile: 'academiesmatmembership.csv',
+    schema: MAT_MEMBERSHIP_SCHEMA,
+    required: false
+  },
+  {
+    urlTemplate: '{baseUrl}/governancealldata{0}.csv',
+    outputFile: 'governancealldata.csv',
+    schema: GOVERNANCE_SCHEMA,
+    required: false
+  },
+  {
+    urlTemplate: '{baseUrl}/governancematdata{0}.csv',
+    outputFile: 'governancematdata.csv',
+    schema: GOVERNANCE_SCHEMA,
+    required: false
+  },
+  {
+    urlTemplate: '{baseUrl}/governanceacaddata{0}.csv',
+    outputFile: 'governanceacaddata.csv',
+    schema: GOVERNANCE_SCHEMA,
+    required: false
+  },
+  {
+    urlTemplate: '{baseUrl}/governanceladata{0}.csv',
+    outputFile: 'governanceladata.csv',
+    schema: GOVERNANCE_SCHEMA,
+    required: false
   },
-  { urlTemplate: '{baseUrl}/edubaseallchildrencentre{0}.csv', outputFile: 'edubaseallchildrencentre.csv' },
-  { urlTemplate: '{baseUrl}/academiesmatmembership{0}.csv', outputFile: 'academiesmatmembership.csv' },
-  { urlTemplate: '{baseUrl}/governancealldata{0}.csv', outputFile: 'governancealldata.csv' },
-  { urlTemplate: '{baseUrl}/governancematdata{0}.csv', outputFile: 'governancematdata.csv' },
-  { urlTemplate: '{baseUrl}/governanceacaddata{0}.csv', outputFile: 'governanceacaddata.csv' },
-  { urlTemplate: '{baseUrl}/governanceladata{0}.csv', outputFile: 'governanceladata.csv' },
 ];
 
 /**
@@ -123,6 +405,18 @@ function checkFileSizeChange(
   return { changed: false, warning: null };
 }
 
+/**
+ * Reads the ETag and Last-Modified validators from a response
+ */
+function readValidators(response: Response): ConditionalValidators {
+  const validators: ConditionalValidators = {};
+  const etag = response.headers?.get('etag');
+  const lastModified = response.headers?.get('last-modified');
+  if (etag) validators.etag = etag;
+  if (lastModified) validators.lastModified = lastModified;
+  return validators;
+}
+
 /**
  * Downloads and validates a single file
  */
@@ -131,91 +425,417 @@ export async function downloadFile(
   outputPath: string,
   tempPath: string,
   sizeChangeThreshold: number = DEFAULT_CONFIG.sizeChangeThresholdPercent,
-  fetchFn = fetch
-): Promise<{ success: boolean; warning: string | null }> {
-  console.log(`Attempting to download ${url}`);
+  fetchFn = fetch,
+  options: DownloadOptions = {}
+): Promise<DownloadFileResult> {
+  const reporter = options.reporter ?? new ConsoleReporter();
+  const file = path.basename(outputPath);
+  const previousPath = options.previousPath ?? outputPath;
+  reporter.report({ type: 'download-started', file, url });
+
+  // Abort the request, including the body transfer, once the timeout elapses
+  const controller = new AbortController();
+  const timeoutMs = options.timeoutMs ?? DEFAULT_CONFIG.requestTimeoutMs;
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  let bodyRead = false;
 
   let response;
   try {
-    response = await fetchFn(url);
+    // Ask the server to skip the transfer when the stored copy is still current
+    const previousExists = await fs.access(previousPath).then(() => true).catch(() => false);
+    const headers: Record<string, string> = {};
+    if (previousExists && options.validators?.etag) {
+      headers['If-None-Match'] = options.validators.etag;
+    }
+    if (previousExists && options.validators?.lastModified) {
+      headers['If-Modified-Since'] = options.validators.lastModified;
+    }
+
+    response = Object.keys(headers).length > 0
+      ? await fetchFn(url, { signal: controller.signal, headers })
+      : await fetchFn(url, { signal: controller.signal });
+
+    if (response.status === 304 && previousExists) {
+      reporter.report({ type: 'not-modified', file });
+      return { success: true, warning: null, unchanged: true, status: 304, ...readValidators(response) };
+    }
 
     if (!response.ok) {
-      console.error(`HTTP error! Status: ${response.status} - ${response.statusText}`);
-      return { success: false, warning: null };
+      const reason = `HTTP error! Status: ${response.status} - ${response.statusText}`;
+      const transient = isTransientStatus(response.status);
+      reporter.report({
+        type: 'http-error',
+        file,
+        url,
+        status: response.status,
+        statusText: response.statusText,
+        transient,
+      });
+      return { success: false, warning: null, reason, status: response.status, transient };
+    }
+
+    const maxFileSize = options.maxFileSizeBytes ?? DEFAULT_CONFIG.maxFileSizeBytes;
+    const declaredLength = getDeclaredLength(response);
+    if (declaredLength !== null && declaredLength > maxFileSize) {
+      const reason = `Response of ${declaredLength} bytes exceeds the maximum of ${maxFileSize} bytes`;
+      reporter.report({ type: 'validation-failed', file, reason });
+      await response.body?.cancel().catch(() => undefined);
+      return { success: false, warning: null, reason };
+    }
+
+    const chunks = readResponseChunks(response);
+    const hash = createHash('sha256');
+    const rowCounter = new CsvRowCounter();
+    let bytes = 0;
+
+    // Buffer the start of the body so it can be validated before anything is written
+    const sampleChunks: Uint8Array[] = [];
+    let sampleSize = 0;
+    let exhausted = false;
+    while (sampleSize < VALIDATION_SAMPLE_BYTES) {
+      const next = await chunks.next();
+      if (next.done) {
+        exhausted = true;
+        break;
+      }
+      sampleChunks.push(next.value);
+      sampleSize += next.value.length;
     }
 
-    const content = await response.text();
+    // Decode the sample through the normaliser so validation sees UTF-8 text
+    const normaliser = new Utf8Normaliser(response.headers?.get('content-type') ?? null, options.sourceEncoding);
+    const normalisedSample = sampleChunks.map(chunk => normaliser.push(chunk));
+    const sample = Buffer.concat(normalisedSample).toString('utf8');
+    const preserveEncoding = options.preserveEncoding ?? false;
 
-    const validation = validateCSVContent(content);
+    const validation = validateCSVContent(sample);
     if (!validation.isValid) {
-      console.error(validation.reason || 'Content validation failed');
-      return { success: false, warning: null };
+      const reason = validation.reason || 'Content validation failed';
+      reporter.report({ type: 'validation-failed', file, reason });
+      await chunks.return(undefined);
+      return { success: false, warning: null, reason };
+    }
+
+    if (options.schema) {
+      const headerValidation = validateHeader(sample, options.schema);
+      if (!headerValidation.isValid) {
+        const reason = headerValidation.reason || 'Header validation failed';
+        reporter.report({ type: 'validation-failed', file, reason });
+        await chunks.return(undefined);
+        return { success: false, warning: null, reason };
+      }
     }
 
-    await fs.writeFile(tempPath, content);
+    // Compare the header of the stored file with the incoming one
+    let columnDrift: ColumnDrift | undefined;
+    if (await fs.access(previousPath).then(() => true).catch(() => false)) {
+      const previousHeader = extractHeader(await readFirstLine(previousPath));
+      // The stored copy of a file filtered in place lacks the dropped columns
+      const incomingHeader = options.privacy
+        ? filterHeader(extractHeader(sample), options.privacy.columns)
+        : extractHeader(sample);
+      const drift = detectColumnDrift(previousHeader, incomingHeader);
 
-    const newFileSize = (await fs.stat(tempPath)).size;
+      if (hasColumnDrift(drift)) {
+        columnDrift = drift;
+        const blocked = options.blockOnColumnDrift ?? false;
+        reporter.report({ type: 'column-drift', file, drift, blocked });
+
+        if (blocked) {
+          const reason = `Column drift detected in ${file} - keeping existing file`;
+          await chunks.return(undefined);
+          return { success: false, warning: null, reason, columnDrift };
+        }
+      }
+    }
+
+    // Stream the validated sample and the rest of the body to the temp file
+    const handle = await fs.open(tempPath, 'w');
+    try {
+      const writeChunk = async (chunk: Uint8Array) => {
+        bytes += chunk.length;
+        if (bytes > maxFileSize) {
+          throw new DownloadLimitError(maxFileSize);
+        }
+        hash.update(chunk);
+        rowCounter.update(chunk);
+        await handle.write(chunk);
+      };
+
+      // The normaliser still sees every chunk when the original bytes are kept, so the
+      // detected encoding can be reported either way
+      for (const chunk of preserveEncoding ? sampleChunks : normalisedSample) {
+        await writeChunk(chunk);
+      }
+      if (!exhausted) {
+        for await (const chunk of chunks) {
+          const normalised = normaliser.push(chunk);
+          await writeChunk(preserveEncoding ? chunk : normalised);
+        }
+      }
+      const remainder = normaliser.flush();
+      if (!preserveEncoding && remainder.length > 0) {
+        await writeChunk(remainder);
+      }
+    } finally {
+      await handle.close();
+      // A write that fails before the rest of the body is read leaves the transfer open
+      if (!exhausted) await chunks.return(undefined);
+    }
+
+    // The timeout covers the transfer, not the checks of the downloaded file below
+    clearTimeout(timer);
+    bodyRead = true;
+
+    let sha256 = hash.digest('hex');
+    const encoding = normaliser.encoding.encoding;
+    const rowCount = rowCounter.rowCount;
+    let header = extractHeader(sample);
+    const validators = readValidators(response);
     let sizeWarning: string | null = null;
 
-    if (await fs.access(outputPath).then(() => true).catch(() => false)) {
-      const existingFileSize = (await fs.stat(outputPath)).size;
+    // Filter the validated download so every later step sees what will be stored
+    let privacy: PrivacyFilterResult | undefined;
+    if (options.privacy) {
+      const filtered = await applyPrivacyFilter(tempPath, tempPath, options.privacy.columns, options.privacy);
+      privacy = { file, profile: options.privacy.profile, output: file, ...filtered };
+      ({ sha256, bytes } = await hashFile(tempPath));
+      header = filterHeader(header, options.privacy.columns);
+    }
+
+    // Leave a byte-identical file alone so its modification time stays meaningful
+    if (previousExists && (await hashFile(previousPath)).sha256 === sha256) {
+      await fs.unlink(tempPath);
+      reporter.report({ type: 'unchanged', file });
+      return {
+        success: true,
+        warning: null,
+        unchanged: true,
+        sha256,
+        bytes,
+        rowCount,
+        encoding,
+        header,
+        ...validators,
+      };
+    }
+
+    // Check the rows before the download replaces the stored copy
+    let quality: QualityReport | undefined;
+    if (options.qualityRules && options.qualityRules.length > 0) {
+      const thresholdPercent = options.qualityThresholdPercent ?? DEFAULT_CONFIG.qualityThresholdPercent;
+      quality = await checkQuality(file, tempPath, options.qualityRules, { thresholdPercent });
+      if (quality.failedRows > 0) {
+        reporter.report({ type: 'quality-issues', file, report: quality });
+      }
+      if (quality.rejected) {
+        const reason = `${quality.failedPercent.toFixed(1)}% of rows in ${file} failed quality rules, ` +
+          `more than the threshold of ${thresholdPercent}%`;
+        reporter.report({ type: 'validation-failed', file, reason });
+        await fs.unlink(tempPath);
+        return { success: false, warning: null, reason, quality };
+      }
+    }
+
+    if (await fs.access(previousPath).then(() => true).catch(() => false)) {
+      const existingFileSize = (await fs.stat(previousPath)).size;
       const sizeChange = checkFileSizeChange(
-        newFileSize,
+        bytes,
         existingFileSize,
         sizeChangeThreshold,
-        path.basename(outputPath)
+        file
       );
 
       if (sizeChange.warning) {
-        console.log(sizeChange.warning);
+        reporter.report({ type: 'size-warning', file, message: sizeChange.warning });
         sizeWarning = sizeChange.warning;
       }
     }
 
-    await fs.rename(tempPath, outputPath);
-    console.log(`Successfully validated and saved ${path.basename(outputPath)}`);
+    // Compare records with the stored copy before it is replaced
+    let recordChanges: RecordChanges | undefined;
+    const keyColumns = options.schema?.keyColumns;
+    if (options.compareRecords && previousExists && keyColumns && keyColumns.length > 0) {
+      try {
+        recordChanges = await diffCsvFiles(previousPath, tempPath, keyColumns, file, options.ignoredColumns);
+      } catch (diffError) {
+        reporter.report({ type: 'warning', file, message: `Could not compare records for ${file}: ${diffError}` });
+      }
+    }
 
-    if (sizeWarning) {
-      console.log(sizeWarning);
+    await fs.rename(tempPath, outputPath);
+    if (privacy) {
+      reporter.report({ type: 'privacy-filtered', result: privacy });
     }
+    reporter.report({ type: 'saved', file, bytes, rowCount, encoding });
 
-    return { success: true, warning: sizeWarning };
+    return {
+      success: true,
+      warning: sizeWarning,
+      columnDrift,
+      sha256,
+      bytes,
+      rowCount,
+      encoding,
+      header,
+      isNew: !previousExists,
+      recordChanges,
+      quality,
+      privacy,
+      ...validators,
+    };
   } catch (error) {
-    console.log(`Skipping file - not available or invalid: ${error}`);
+    const cause = controller.signal.aborted && !bodyRead ? `Request timed out after ${timeoutMs}ms` : error;
+    const reason = `Skipping file - not available or invalid: ${cause}`;
+    // Once the body has arrived a failure comes from checking the file, which another attempt would repeat
+    const transient = !bodyRead && isTransientError(error);
+    reporter.report({ type: 'download-failed', file, url, reason, transient });
 
     try {
       if (await fs.access(tempPath).then(() => true).catch(() => false)) {
         await fs.unlink(tempPath);
       }
     } catch (cleanupError: unknown) {
-      if (cleanupError instanceof Error) {
-        console.error(`Error cleaning up temp file: ${cleanupError.message}`);
-      } else {
-        console.error('Unknown error during cleanup');
-      }
+      const message = cleanupError instanceof Error ? cleanupError.message : 'Unknown error during cleanup';
+      reporter.report({ type: 'cleanup-failed', file, message });
       // Return false when cleanup fails
-      return { success: false, warning: null };
+      return { success: false, warning: null, reason, transient };
     }
 
-    return { success: false, warning: null };
+    return { success: false, warning: null, reason, transient };
+  } finally {
+    clearTimeout(timer);
   }
 }
 
+/**
+ * Builds the download URL for a template on a given date
+ */
+export function resolveTemplateUrl(template: FileTemplate, date: Date, config: FetcherConfig): string {
+  // Replace baseUrl placeholder in template
+  const urlWithBase = template.urlTemplate.replace('{baseUrl}', config.baseUrl);
+  // Replace date placeholder
+  return urlWithBase.replace('{0}', format(date, config.dateFormat));
+}
+
+interface TemplateOutcome {
+  result: DownloadFileResult;
+  url: string;
+  fetchedDate: Date;
+  fetchedAt: Date;
+}
+
+/**
+ * Downloads a single template, retrying transient failures with exponential
+ * backoff and falling back to earlier dates when the file cannot be fetched.
+ * The file is written to targetPath and compared with the copy at outputPath.
+ */
+async function fetchTemplate(
+  template: FileTemplate,
+  targetPath: string,
+  outputPath: string,
+  date: Date,
+  config: FetcherConfig,
+  fetchFn: typeof fetch,
+  manifest: Manifest,
+  reporter: Reporter
+): Promise<TemplateOutcome> {
+  const tempPath = `${targetPath}.tmp`;
+  const retries = Math.max(0, config.retries);
+  const lookbackDays = Math.max(0, config.lookbackDays);
+  let last: TemplateOutcome | undefined;
+
+  for (let daysBack = 0; daysBack <= lookbackDays; daysBack++) {
+    const fetchedDate = subDays(date, daysBack);
+    const url = resolveTemplateUrl(template, fetchedDate, config);
+    // Validators only apply to the exact URL they were recorded for
+    const previous = manifest.files[template.outputFile];
+    const validators = previous?.url === url
+      ? { etag: previous.etag, lastModified: previous.lastModified }
+      : undefined;
+    if (daysBack > 0) {
+      reporter.report({ type: 'date-fallback', file: template.outputFile, date: format(fetchedDate, 'yyyy-MM-dd') });
+    }
+
+    for (let attempt = 0; attempt <= retries; attempt++) {
+      if (attempt > 0) {
+        const delay = backoffDelay(attempt, config.retryDelayMs);
+        reporter.report({ type: 'retry', file: template.outputFile, url, attempt, retries, delayMs: delay });
+        await sleep(delay);
+      }
+
+      const result = await downloadFile(
+        url,
+        targetPath,
+        tempPath,
+        config.sizeChangeThresholdPercent,
+        fetchFn,
+        {
+          schema: template.schema,
+          blockOnColumnDrift: config.blockOnColumnDrift,
+          maxFileSizeBytes: config.maxFileSizeBytes,
+          timeoutMs: config.requestTimeoutMs,
+          sourceEncoding: template.encoding,
+          preserveEncoding: template.preserveEncoding,
+          validators,
+          compareRecords: config.changeReport,
+          ignoredColumns: privacyProtectedColumns(template, config),
+          reporter,
+          previousPath: outputPath,
+          qualityRules: config.qualityChecks
+            ? [...(template.schema?.qualityRules ?? []), ...(template.qualityRules ?? [])]
+            : undefined,
+          qualityThresholdPercent: config.qualityThresholdPercent,
+          privacy: privacyInPlace(template, config),
+        }
+      );
+      last = { result, url, fetchedDate, fetchedAt: new Date() };
+
+      if (result.success || !result.transient) break;
+    }
+
+    if (last?.result.success) break;
+  }
+
+  // Both loops run at least once, so an attempt has always been made
+  return last as TemplateOutcome;
+}
+
+/**
+ * Returns the columns the configured profile protects when it writes filtered
+ * copies alongside the originals, which still hold them
+ */
+function privacyProtectedColumns(template: FileTemplate, config: FetcherConfig): string[] | undefined {
+  if (!config.privacyProfile || config.privacyOutput !== 'alongside') return undefined;
+  return Object.keys(privacyColumnsFor(config.privacyProfile, template));
+}
+
+/**
+ * Returns the privacy filter to apply while downloading, when the configured
+ * profile replaces the originals and has actions for the template's file
+ */
+function privacyInPlace(template: FileTemplate, config: FetcherConfig): DownloadOptions['privacy'] {
+  if (!config.privacyProfile || config.privacyOutput !== 'replace') return undefined;
+  const columns = privacyColumnsFor(config.privacyProfile, template);
+  if (Object.keys(columns).length === 0) return undefined;
+  return { profile: config.privacyProfile, columns, salt: config.privacySalt };
+}
+
 /**
  * Fetches all data files based on the provided configuration
  */
-export async function fetchData(
-  options: {
-    date?: Date;
-    config?: Partial<FetcherConfig>;
-    urlTemplates?: FileTemplate[];
-    fetchFn?: typeof fetch;
-  } = {}
-): Promise<DownloadResult> {
+export async function fetchData(options: FetchDataOptions = {}): Promise<DownloadResult> {
   const date = options.date || new Date();
-  const config = { ...DEFAULT_CONFIG, ...options.config };
-  const templates = options.urlTemplates || DEFAULT_URL_TEMPLATES;
+  const { config, templates } = resolveSettings({
+    defaults: DEFAULT_CONFIG,
+    defaultTemplates: DEFAULT_URL_TEMPLATES,
+    configFile: options.configFile,
+    env: options.env,
+    config: options.config,
+    urlTemplates: options.urlTemplates,
+  });
   const fetchFn = options.fetchFn || fetch;
+  const reporter = options.reporter ?? new ConsoleReporter();
 
   // Ensure output directory exists
   try {
@@ -224,71 +844,265 @@ export async function fetchData(
     await fs.mkdir(config.outputDir, { recursive: true });
   }
 
-  const dateStr = format(date, config.dateFormat);
+  // The previous manifest supplies the validators for conditional requests
+  const previousManifest = await readManifest(config.outputDir).catch(error => {
+    reporter.report({ type: 'warning', message: `Ignoring unreadable manifest: ${error}` });
+    return emptyManifest();
+  });
+
+  // Rebuild plain files that are only present as stored copies, e.g. after a fresh checkout
+  for (const template of templates) {
+    await restoreStoredFile(config.outputDir, template.outputFile);
+  }
+
   const downloadedFiles: string[] = [];
   const skippedFiles: string[] = [];
+  const unchangedFiles: string[] = [];
   const fileSizeWarnings: string[] = [];
+  const columnDrift: ColumnDriftReport[] = [];
+  const sources: FileSource[] = [];
+  const manifestEntries: ManifestEntry[] = [];
+  const recordChanges: RecordChanges[] = [];
+  const qualityReports: QualityReport[] = [];
+  const privacyFilters: PrivacyFilterResult[] = [];
+  const newFiles: string[] = [];
+  const snapshots: { outputPath: string; date: Date }[] = [];
 
-  // Process each file template
-  for (const template of templates) {
+  // A transactional run writes every download to the staging directory first
+  const stagingDir = config.transactional ? await prepareStagingDir(config.outputDir) : null;
+
+  // Download the templates, several at a time when concurrency allows
+  const outcomes = await mapWithConcurrency(templates, config.concurrency, template => {
+    const outputPath = path.join(config.outputDir, template.outputFile);
+    const targetPath = stagingDir ? path.join(stagingDir, template.outputFile) : outputPath;
+    return fetchTemplate(template, targetPath, outputPath, date, config, fetchFn, previousManifest, reporter);
+  });
+
+  // Collect the results in template order so the summary is deterministic
+  templates.forEach((template, index) => {
     const outputPath = path.join(config.outputDir, template.outputFile);
-    const tempPath = `${outputPath}.tmp`;
-    // Replace baseUrl placeholder in template
-    const urlWithBase = template.urlTemplate.replace('{baseUrl}', config.baseUrl);
-    // Replace date placeholder
-    const url = urlWithBase.replace('{0}', dateStr);
-
-    const result = await downloadFile(
-      url,
-      outputPath,
-      tempPath,
-      config.sizeChangeThresholdPercent,
-      fetchFn
-    );
-
-    if (result.success) {
+    const { result, url, fetchedDate, fetchedAt } = outcomes[index];
+
+    if (result.quality) {
+      qualityReports.push(result.quality);
+    }
+
+    if (result.columnDrift) {
+      columnDrift.push({ file: template.outputFile, blocked: !result.success, ...result.columnDrift });
+    }
+
+    if (result.success && result.unchanged) {
+      unchangedFiles.push(template.outputFile);
+
+      // Note where the unchanged file was found and its current validators, so a rerun can ask conditionally
+      const previous = previousManifest.files[template.outputFile];
+      if (previous) {
+        const refreshed = {
+          ...previous,
+          url,
+          date: format(fetchedDate, 'yyyy-MM-dd'),
+          etag: result.etag ?? previous.etag,
+          lastModified: result.lastModified ?? previous.lastModified,
+        };
+        if ((['url', 'date', 'etag', 'lastModified'] as const).some(key => refreshed[key] !== previous[key])) {
+          manifestEntries.push(refreshed);
+        }
+      }
+    } else if (result.success) {
       downloadedFiles.push(outputPath);
+      snapshots.push({ outputPath, date: fetchedDate });
+      sources.push({
+        file: template.outputFile,
+        url,
+        date: format(fetchedDate, 'yyyy-MM-dd'),
+        encoding: result.encoding,
+      });
+      manifestEntries.push({
+        file: template.outputFile,
+        url,
+        date: format(fetchedDate, 'yyyy-MM-dd'),
+        fetchedAt: fetchedAt.toISOString(),
+        sha256: result.sha256 ?? '',
+        bytes: result.bytes ?? 0,
+        rowCount: result.rowCount ?? 0,
+        header: result.header ?? [],
+        encoding: result.encoding,
+        etag: result.etag,
+        lastModified: result.lastModified,
+        privacy: result.privacy ? { profile: result.privacy.profile, output: result.privacy.output } : undefined,
+      });
+      if (result.privacy) {
+        privacyFilters.push(result.privacy);
+      }
+      if (result.recordChanges && hasRecordChanges(result.recordChanges)) {
+        recordChanges.push(result.recordChanges);
+      }
+      if (result.isNew) {
+        newFiles.push(template.outputFile);
+      }
       if (result.warning) {
         fileSizeWarnings.push(result.warning);
       }
     } else {
       skippedFiles.push(template.outputFile);
+      reporter.report({ type: 'skipped', file: template.outputFile, reason: result.reason ?? 'Download failed' });
+    }
+  });
+
+  // Check that the files agree with each other, reading the staged copies where there are any
+  let integrity: IntegrityReport | undefined;
+  if (config.integrityChecks && downloadedFiles.length > 0) {
+    const replaced = new Set(downloadedFiles.map(file => path.basename(file)));
+    integrity = await checkIntegrity({
+      resolvePath: file => path.join(stagingDir && replaced.has(file) ? stagingDir : config.outputDir, file),
+      severity: config.integritySeverity,
+    });
+    integrity.violations.forEach(violation => reporter.report({ type: 'integrity-violation', violation }));
+  }
+
+  // Publish the staged files only when every required file arrived and the set is consistent
+  const missingRequired = templates
+    .filter(template => template.required !== false && skippedFiles.includes(template.outputFile))
+    .map(template => template.outputFile);
+  const failedRules = (integrity?.violations ?? [])
+    .filter(violation => violation.severity === 'error')
+    .map(violation => violation.rule);
+  let published = true;
+  let withheldFiles: string[] = [];
+  if (stagingDir) {
+    const stagedFiles = downloadedFiles.map(file => path.basename(file));
+    try {
+      if (missingRequired.length > 0 || failedRules.length > 0) {
+        published = false;
+        withheldFiles = stagedFiles;
+        reporter.report({ type: 'publish-aborted', missingRequired, failedRules, withheldFiles });
+      } else if (stagedFiles.length > 0) {
+        await publishStagedFiles(stagingDir, config.outputDir, stagedFiles);
+        reporter.report({ type: 'published', outputDir: config.outputDir, files: stagedFiles });
+      }
+    } finally {
+      await discardStagingDir(stagingDir);
     }
   }
 
-  // Output summary
-  console.log('=== Download Summary ===');
-  console.log(`Successfully downloaded: ${downloadedFiles.length} files`);
-  console.log(`Skipped files: ${skippedFiles.length} files`);
+  // Write the filtered copies of the files replaced in this run, and of any that lack one
+  if (published && config.privacyProfile && config.privacyOutput === 'alongside') {
+    const exists = (file: string) => fs.access(path.join(config.outputDir, file)).then(() => true).catch(() => false);
+    for (const template of templates) {
+      const columns = privacyColumnsFor(config.privacyProfile, template);
+      const outputPath = path.join(config.outputDir, template.outputFile);
+      const output = privacyFileName(template.outputFile, config.privacyProfile);
+      if (Object.keys(columns).length === 0 || !(await exists(template.outputFile))) continue;
+      if (!downloadedFiles.includes(outputPath) && (await exists(output))) continue;
 
-  console.log('=== Successfully Downloaded Files ===');
-  downloadedFiles.forEach(file => console.log(`Downloaded: ${file}`));
+      const filtered = await applyPrivacyFilter(outputPath, path.join(config.outputDir, output), columns, {
+        salt: config.privacySalt,
+      });
+      const privacy: PrivacyFilterResult = {
+        file: template.outputFile,
+        profile: config.privacyProfile,
+        output,
+        ...filtered,
+      };
+      privacyFilters.push(privacy);
+      reporter.report({ type: 'privacy-filtered', result: privacy });
 
-  // Ensure file size warnings are logged
-  if (fileSizeWarnings.length > 0) {
-    console.log('=== File Size Change Warnings ===');
-    fileSizeWarnings.forEach(warning => {
-      console.log(warning);
-    });
+      // Note the filtered copy against the file it came from, even when that file was unchanged
+      let entry = manifestEntries.find(candidate => candidate.file === template.outputFile);
+      const previous = previousManifest.files[template.outputFile];
+      if (!entry && previous) {
+        entry = { ...previous };
+        manifestEntries.push(entry);
+      }
+      if (entry) {
+        entry.privacy = { profile: config.privacyProfile, output };
+      }
+    }
   }
 
-  console.log('=== Skipped Files ===');
-  skippedFiles.forEach(file => console.log(`Skipped: ${file}`));
+  // Record provenance for the files replaced in this run, and refresh it for those found unchanged
+  if (published && config.writeManifest && manifestEntries.length > 0) {
+    const manifest = updateManifest(previousManifest, manifestEntries);
+    const manifestPath = await writeManifest(config.outputDir, manifest);
+    reporter.report({ type: 'manifest-written', path: manifestPath });
+  }
 
-  return { downloadedFiles, skippedFiles, fileSizeWarnings };
-}
+  // Describe what changed in the files replaced by this run; with none replaced, the last report no longer applies
+  if (published && config.changeReport && downloadedFiles.length > 0) {
+    const report: ChangeReport = { generatedAt: new Date().toISOString(), files: recordChanges, newFiles };
+    const reportPaths = await writeChangeReport(config.outputDir, report);
+    reporter.report({ type: 'change-report-written', paths: reportPaths });
+  } else if (published && config.changeReport) {
+    await removeChangeReport(config.outputDir);
+  }
+
+  // Keep a dated copy of each replaced file, then prune what the policy no longer needs
+  if (published && config.archive) {
+    const archiveDir = config.archiveDir || path.join(config.outputDir, ARCHIVE_DIR);
+    for (const snapshot of snapshots) {
+      const archivedPath = await archiveFile(archiveDir, snapshot.date, snapshot.outputPath, config.archiveGzip);
+      reporter.report({ type: 'archived', file: path.basename(snapshot.outputPath), path: archivedPath });
+    }
+
+    const removed = await pruneArchive(archiveDir, {
+      dailyDays: config.retainDailyDays,
+      weeklyWeeks: config.retainWeeklyWeeks,
+      monthly: config.retainMonthly,
+    }, date);
+    if (removed.length > 0) {
+      reporter.report({ type: 'archive-pruned', archiveDir, removed });
+    }
+  }
 
-// If this file is being run directly
-// In ESM, we can't use require.main === module, so we check if import.meta.url ends with the current file
-const isMainModule = require.main === module;
-if (isMainModule) {
-  fetchData()
-    .then(_results => {
-      console.log('Data fetch completed');
-      process.exit(0);
-    })
-    .catch(error => {
-      console.error('Error in data fetch:', error);
-      process.exit(1);
+  // Rebuild the tables of the files that changed since the database was last written
+  if (published && config.sqlite) {
+    const exported = await exportSqlite({
+      dataDir: config.outputDir,
+      templates,
+      databasePath: config.sqlitePath || undefined,
     });
+    reporter.report({ type: 'sqlite-exported', ...exported });
+  }
+
+  // Write the compressed or split copies, then drop the plain files if only those are kept
+  const storage: StorageOptions = { compression: config.compression, splitSizeBytes: config.splitSizeBytes };
+  if (usesStoredCopies(storage)) {
+    for (const template of templates) {
+      const outputPath = path.join(config.outputDir, template.outputFile);
+      if (!(await fs.access(outputPath).then(() => true).catch(() => false))) continue;
+
+      const forms = await findStoredForms(config.outputDir, template.outputFile);
+      const hasStoredCopy = forms.single !== undefined || forms.parts.length > 0;
+      let stored = hasStoredCopy;
+      if (published && (downloadedFiles.includes(outputPath) || !hasStoredCopy)) {
+        const paths = await writeStoredCopy(outputPath, storage);
+        stored = paths.length > 0;
+        reporter.report({ type: 'stored', file: template.outputFile, paths });
+      }
+      if (stored && !config.keepUncompressed) {
+        await fs.rm(outputPath, { force: true });
+      }
+    }
+  }
+
+  const result: DownloadResult = {
+    downloadedFiles: published ? downloadedFiles : [],
+    skippedFiles,
+    unchangedFiles,
+    fileSizeWarnings,
+    columnDrift,
+    sources: published ? sources : [],
+    recordChanges: published ? recordChanges : [],
+    published,
+    missingRequired,
+    withheldFiles,
+    qualityReports,
+    integrity,
+    privacy: config.privacyProfile
+      ? { profile: config.privacyProfile, output: config.privacyOutput, files: published ? privacyFilters : [] }
+      : undefined,
+  };
+  reporter.report({ type: 'summary', result });
+
+  return result;
 }
@@ -0,0 +1,391 @@
+/**
+ * GeoJSON export
+ *
+ * Converts the British National Grid eastings and northings of the
+ * establishments and children's centres to WGS84 latitude and longitude, and
+ * writes them as GeoJSON points or newline-delimited GeoJSON. The conversion
+ * runs locally: the inverse Transverse Mercator projection gives OSGB36
+ * coordinates on the Airy 1830 ellipsoid, and a seven-parameter Helmert
+ * transformation moves them to WGS84. This is accurate to about 5 metres,
+ * which is plenty for a map but not for surveying. Rows without usable
+ * coordinates are listed in the result rather than dropped silently.
+ */
+
+import { createWriteStream, promises as fs } from 'fs';
+import { once } from 'events';
+import * as path from 'path';
+import { Writable } from 'stream';
+import { finished } from 'stream/promises';
+import { ChildrensCentre, CodeName, Establishment, readChildrensCentres, readEstablishments } from './records';
+import { hasStoredFile, openStoredFile } from './storage';
+
+// Types
+export interface LatLon {
+  latitude: number;
+  longitude: number;
+}
+
+export type GeoDataset = 'establishments' | 'childrens-centres';
+
+export type GeoFormat = 'geojson' | 'ndjson';
+
+// Each list matches a code or a name, ignoring case; a record must match every list given
+export interface GeoFilter {
+  type?: string[];
+  phase?: string[];
+  status?: string[];
+  la?: string[];
+}
+
+export interface GeoProperties {
+  urn: number;
+  name: string;
+  dataset: GeoDataset;
+  type: string | null;
+  phase: string | null;
+  status: string | null;
+  laCode: string | null;
+  laName: string | null;
+  postcode: string | null;
+}
+
+export interface GeoFeature {
+  type: 'Feature';
+  geometry: { type: 'Point'; coordinates: [number, number] };
+  properties: GeoProperties;
+}
+
+export interface GeoProblem {
+  dataset: GeoDataset;
+  urn: number;
+  name: string;
+  reason: 'missing-coordinates' | 'out-of-range';
+  easting: number | null;
+  northing: number | null;
+}
+
+export interface GeoSource {
+  dataset: GeoDataset;
+  records: AsyncIterable<Establishment | ChildrensCentre>;
+}
+
+export interface GeoWriteOptions {
+  format?: GeoFormat;
+  filter?: GeoFilter;
+}
+
+export interface GeoExportOptions extends GeoWriteOptions {
+  dataDir: string;
+  // File to write; the output is written to stdout when this is not given
+  outputPath?: string;
+  datasets?: GeoDataset[];
+}
+
+export interface GeoExportResult {
+  features: number;
+  // Records left out by the filter
+  filtered: number;
+  problems: GeoProblem[];
+  // Datasets whose file is not in the data directory
+  missingFiles: string[];
+}
+
+export const GEO_DATASETS: GeoDataset[] = ['establishments', 'childrens-centres'];
+
+export const GEO_FILES: Record<GeoDataset, string> = {
+  establishments: 'edubasealldata.csv',
+  'childrens-centres': 'edubaseallchildrencentre.csv',
+};
+
+// The extent of the National Grid
+export const GRID_MAX_EASTING = 700000;
+export const GRID_MAX_NORTHING = 1300000;
+
+// Decimal places kept in the output, about 10cm
+const COORDINATE_PRECISION = 6;
+
+const AIRY_1830 = { a: 6377563.396, b: 6356256.909 };
+const WGS84 = { a: 6378137, b: 6356752.3142 };
+
+// National Grid projection constants
+const F0 = 0.9996012717;
+const LAT0 = toRadians(49);
+const LON0 = toRadians(-2);
+const E0 = 400000;
+const N0 = -100000;
+
+// OSGB36 to WGS84: translations in metres, scale in ppm, rotations in arc seconds
+const HELMERT = { tx: 446.448, ty: -125.157, tz: 542.06, s: -20.4894, rx: 0.1502, ry: 0.247, rz: 0.8421 };
+
+/**
+ * Returns true when a grid reference lies within the National Grid. Zero
+ * values are treated as placeholders rather than real coordinates.
+ */
+export function isGridReferenceInRange(easting: number, northing: number): boolean {
+  return Number.isFinite(easting) && Number.isFinite(northing) &&
+    easting > 0 && easting <= GRID_MAX_EASTING && northing > 0 && northing <= GRID_MAX_NORTHING;
+}
+
+/**
+ * Converts a National Grid easting and northing to OSGB36 latitude and
+ * longitude, using the inverse projection from the Ordnance Survey's
+ * "A guide to coordinate systems in Great Britain"
+ */
+export function gridToOsgb36(easting: number, northing: number): LatLon {
+  const { a, b } = AIRY_1830;
+  const e2 = 1 - (b * b) / (a * a);
+  const n = (a - b) / (a + b);
+
+  let lat = LAT0;
+  let meridional = 0;
+  do {
+    lat = (northing - N0 - meridional) / (a * F0) + lat;
+    meridional = meridionalArc(lat, b, n);
+  } while (Math.abs(northing - N0 - meridional) >= 0.00001);
+
+  const sinLat = Math.sin(lat);
+  const nu = (a * F0) / Math.sqrt(1 - e2 * sinLat * sinLat);
+  const rho = (a * F0 * (1 - e2)) / Math.pow(1 - e2 * sinLat * sinLat, 1.5);
+  const eta2 = nu / rho - 1;
+  const tan = Math.tan(lat);
+  const tan2 = tan * tan;
+  const tan4 = tan2 * tan2;
+  const sec = 1 / Math.cos(lat);
+
+  const vii = tan / (2 * rho * nu);
+  const viii = (tan / (24 * rho * Math.pow(nu, 3))) * (5 + 3 * tan2 + eta2 - 9 * tan2 * eta2);
+  const ix = (tan / (720 * rho * Math.pow(nu, 5))) * (61 + 90 * tan2 + 45 * tan4);
+  const x = sec / nu;
+  const xi = (sec / (6 * Math.pow(nu, 3))) * (nu / rho + 2 * tan2);
+  const xii = (sec / (120 * Math.pow(nu, 5))) * (5 + 28 * tan2 + 24 * tan4);
+  const xiia = (sec / (5040 * Math.pow(nu, 7))) * (61 + 662 * tan2 + 1320 * tan4 + 720 * tan4 * tan2);
+
+  const dE = easting - E0;
+  return {
+    latitude: toDegrees(lat - vii * dE ** 2 + viii * dE ** 4 - ix * dE ** 6),
+    longitude: toDegrees(LON0 + x * dE - xi * dE ** 3 + xii * dE ** 5 - xiia * dE ** 7),
+  };
+}
+
+/**
+ * Moves OSGB36 latitude and longitude to the WGS84 datum
+ */
+export function osgb36ToWgs84(point: LatLon): LatLon {
+  const [x1, y1, z1] = toCartesian(point, AIRY_1830);
+  const { tx, ty, tz } = HELMERT;
+  const s = HELMERT.s / 1e6;
+  const rx = toRadians(HELMERT.rx / 3600);
+  const ry = toRadians(HELMERT.ry / 3600);
+  const rz = toRadians(HELMERT.rz / 3600);
+
+  return fromCartesian([
+    tx + x1 * (1 + s) - y1 * rz + z1 * ry,
+    ty + x1 * rz + y1 * (1 + s) - z1 * rx,
+    tz - x1 * ry + y1 * rx + z1 * (1 + s),
+  ], WGS84);
+}
+
+/**
+ * Converts a National Grid easting and northing to WGS84 latitude and longitude
+ */
+export function gridToWgs84(easting: number, northing: number): LatLon {
+  return osgb36ToWgs84(gridToOsgb36(easting, northing));
+}
+
+/**
+ * Returns the GeoJSON properties of a record
+ */
+export function toGeoProperties(record: Establishment | ChildrensCentre, dataset: GeoDataset): GeoProperties {
+  return {
+    urn: record.urn,
+    name: record.name,
+    dataset,
+    type: record.typeOfEstablishment?.name ?? null,
+    phase: 'phaseOfEducation' in record ? record.phaseOfEducation?.name ?? null : null,
+    status: record.establishmentStatus?.name ?? null,
+    laCode: record.la?.code ?? null,
+    laName: record.la?.name ?? null,
+    postcode: record.address.postcode,
+  };
+}
+
+/**
+ * Converts a record to a GeoJSON point, or describes why it cannot be placed
+ */
+export function toGeoFeature(
+  record: Establishment | ChildrensCentre,
+  dataset: GeoDataset
+): { feature: GeoFeature } | { problem: GeoProblem } {
+  const { easting, northing } = record;
+  const problem = (reason: GeoProblem['reason']) => ({
+    problem: { dataset, urn: record.urn, name: record.name, reason, easting, northing },
+  });
+  if (easting === null || northing === null) return problem('missing-coordinates');
+  if (!isGridReferenceInRange(easting, northing)) return problem('out-of-range');
+
+  const { latitude, longitude } = gridToWgs84(easting, northing);
+  return {
+    feature: {
+      type: 'Feature',
+      // GeoJSON positions are longitude first
+      geometry: { type: 'Point', coordinates: [round(longitude), round(latitude)] },
+      properties: toGeoProperties(record, dataset),
+    },
+  };
+}
+
+/**
+ * Returns true when a record matches every list in the filter
+ */
+export function matchesGeoFilter(record: Establishment | ChildrensCentre, filter: GeoFilter): boolean {
+  const phase = 'phaseOfEducation' in record ? record.phaseOfEducation : null;
+  return matchesCodeName(record.typeOfEstablishment, filter.type) &&
+    matchesCodeName(phase, filter.phase) &&
+    matchesCodeName(record.establishmentStatus, filter.status) &&
+    matchesCodeName(record.la, filter.la);
+}
+
+/**
+ * Writes the records of the sources that pass the filter to a stream, as a
+ * GeoJSON FeatureCollection or one Feature per line. Filtered records are
+ * checked for coordinates; those without usable ones are returned as problems.
+ */
+export async function writeGeoJson(
+  sources: GeoSource[],
+  output: Writable,
+  options: GeoWriteOptions = {}
+): Promise<Omit<GeoExportResult, 'missingFiles'>> {
+  const ndjson = options.format === 'ndjson';
+  const filter = options.filter ?? {};
+  const problems: GeoProblem[] = [];
+  let features = 0;
+  let filtered = 0;
+
+  if (!ndjson) await write(output, '{"type":"FeatureCollection","features":[\n');
+  for (const source of sources) {
+    for await (const record of source.records) {
+      if (!matchesGeoFilter(record, filter)) {
+        filtered++;
+        continue;
+      }
+      const converted = toGeoFeature(record, source.dataset);
+      if ('problem' in converted) {
+        problems.push(converted.problem);
+        continue;
+      }
+      const json = JSON.stringify(converted.feature);
+      await write(output, ndjson ? `${json}\n` : `${features > 0 ? ',\n' : ''}${json}`);
+      features++;
+    }
+  }
+  if (!ndjson) await write(output, '\n]}\n');
+
+  return { features, filtered, problems };
+}
+
+/**
+ * Writes the establishments and children's centres in a data directory as
+ * GeoJSON, reading compressed or split copies when the plain files are absent
+ */
+export async function exportGeoJson(options: GeoExportOptions): Promise<GeoExportResult> {
+  const sources: GeoSource[] = [];
+  const missingFiles: string[] = [];
+  for (const dataset of options.datasets ?? GEO_DATASETS) {
+    const file = GEO_FILES[dataset];
+    if (!(await hasStoredFile(options.dataDir, file))) {
+      missingFiles.push(file);
+      continue;
+    }
+    const source = openStoredFile(options.dataDir, file);
+    sources.push({
+      dataset,
+      records: dataset === 'establishments' ? readEstablishments(source) : readChildrensCentres(source),
+    });
+  }
+
+  if (!options.outputPath) {
+    return { ...(await writeGeoJson(sources, process.stdout, options)), missingFiles };
+  }
+
+  const tempPath = `${options.outputPath}.tmp`;
+  await fs.mkdir(path.dirname(options.outputPath), { recursive: true });
+  const output = createWriteStream(tempPath);
+  try {
+    const result = await writeGeoJson(sources, output, options);
+    output.end();
+    await finished(output);
+    await fs.rename(tempPath, options.outputPath);
+    return { ...result, missingFiles };
+  } catch (error) {
+    output.destroy();
+    await fs.rm(tempPath, { force: true });
+    throw error;
+  }
+}
+
+function matchesCodeName(value: CodeName | null, accepted: string[] | undefined): boolean {
+  if (!accepted || accepted.length === 0) return true;
+  const candidates = [value?.code, value?.name]
+    .filter((candidate): candidate is string => !!candidate)
+    .map(candidate => candidate.toLowerCase());
+  return accepted.some(entry => candidates.includes(entry.trim().toLowerCase()));
+}
+
+// Meridional arc from the true origin to a latitude, in metres
+function meridionalArc(lat: number, b: number, n: number): number {
+  const n2 = n * n;
+  const n3 = n2 * n;
+  const dLat = lat - LAT0;
+  const sLat = lat + LAT0;
+  return b * F0 * (
+    (1 + n + (5 / 4) * n2 + (5 / 4) * n3) * dLat -
+    (3 * n + 3 * n2 + (21 / 8) * n3) * Math.sin(dLat) * Math.cos(sLat) +
+    ((15 / 8) * n2 + (15 / 8) * n3) * Math.sin(2 * dLat) * Math.cos(2 * sLat) -
+    (35 / 24) * n3 * Math.sin(3 * dLat) * Math.cos(3 * sLat)
+  );
+}
+
+// Points are taken to lie on the ellipsoid, as the extracts carry no heights
+function toCartesian(point: LatLon, ellipsoid: { a: number; b: number }): [number, number, number] {
+  const e2 = 1 - (ellipsoid.b * ellipsoid.b) / (ellipsoid.a * ellipsoid.a);
+  const lat = toRadians(point.latitude);
+  const lon = toRadians(point.longitude);
+  const nu = ellipsoid.a / Math.sqrt(1 - e2 * Math.sin(lat) ** 2);
+  return [
+    nu * Math.cos(lat) * Math.cos(lon),
+    nu * Math.cos(lat) * Math.sin(lon),
+    (1 - e2) * nu * Math.sin(lat),
+  ];
+}
+
+function fromCartesian([x, y, z]: [number, number, number], ellipsoid: { a: number; b: number }): LatLon {
+  const e2 = 1 - (ellipsoid.b * ellipsoid.b) / (ellipsoid.a * ellipsoid.a);
+  const p = Math.sqrt(x * x + y * y);
+  let lat = Math.atan2(z, p * (1 - e2));
+  let previous: number;
+  do {
+    previous = lat;
+    const nu = ellipsoid.a / Math.sqrt(1 - e2 * Math.sin(lat) ** 2);
+    lat = Math.atan2(z + e2 * nu * Math.sin(lat), p);
+  } while (Math.abs(lat - previous) > 1e-12);
+
+  return { latitude: toDegrees(lat), longitude: toDegrees(Math.atan2(y, x)) };
+}
+
+function round(value: number): number {
+  return Number(value.toFixed(COORDINATE_PRECISION));
+}
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+function toDegrees(radians: number): number {
+  return (radians * 180) / Math.PI;
+}
+
+async function write(output: Writable, text: string): Promise<void> {
+  if (!output.write(text)) {
+    await once(output, 'drain');
+  }
+}
@@ -0,0 +1,27 @@
+/**
+ * GIAS Data
+ *
+ * Public entry point of the package: the fetcher, its configuration and
+ * reporting, the storage helpers and the typed record parsers.
+ */
+
+export * from './archive';
+export * from './backfill';
+export * from './config';
+export * from './csv';
+export * from './diff';
+export * from './encoding';
+export * from './fetch-data';
+export * from './geo';
+export * from './integrity';
+export * from './lineage';
+export * from './manifest';
+export * from './privacy';
+export * from './quality';
+export * from './records';
+export * from './reporter';
+export * from './schema';
+export * from './server';
+export * from './sqlite';
+export * from './storage';
+export * from './trusts';
@@ -0,0 +1,260 @@
+/**
+ * Cross-file referential integrity
+ *
+ * The extracts are downloaded independently, so nothing guarantees that they
+ * agree with each other. Each rule checks that the values of some columns in
+ * one file are present in the same or other columns of a reference file, e.g.
+ * that every LinkURN in the links file is an establishment in the all-data
+ * file. Violations are counted and a few sample rows kept; the rule's
+ * severity decides whether they fail the run.
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { CsvRow, readRows } from './records';
+
+// Types
+export type IntegritySeverity = 'error' | 'warning' | 'off';
+
+export interface IntegrityRule {
+  name: string;
+  description: string;
+  file: string;
+  columns: string[];
+  referenceFile: string;
+  referenceColumns: string[];
+  severity: IntegritySeverity;
+}
+
+export interface IntegrityViolation {
+  rule: string;
+  description: string;
+  severity: IntegritySeverity;
+  file: string;
+  referenceFile: string;
+  count: number;
+  // The first few offending rows, with their 1-based record number
+  samples: { row: number; values: CsvRow }[];
+}
+
+export interface IntegrityReport {
+  checkedRules: string[];
+  // Rules not run because a file or column was not available
+  skippedRules: { rule: string; reason: string }[];
+  violations: IntegrityViolation[];
+  // True when any rule with error severity was violated
+  failed: boolean;
+}
+
+export interface IntegrityCheckOptions {
+  // Where to read each file from; files not listed are not checked
+  resolvePath: (file: string) => string;
+  rules?: IntegrityRule[];
+  // Severity overrides keyed by rule name
+  severity?: Record<string, IntegritySeverity>;
+  sampleSize?: number;
+}
+
+export const INTEGRITY_SEVERITIES: IntegritySeverity[] = ['error', 'warning', 'off'];
+
+const DEFAULT_SAMPLE_SIZE = 5;
+
+const ESTABLISHMENTS = 'edubasealldata.csv';
+const LINKS = 'links_edubasealldata.csv';
+const GROUP_LINKS = 'grouplinks_edubaseallacademiesandfree.csv';
+
+// Rules for the files in DEFAULT_URL_TEMPLATES
+export const DEFAULT_INTEGRITY_RULES: IntegrityRule[] = [
+  {
+    name: 'links-urn',
+    description: 'Every URN in the links file is a known establishment',
+    file: LINKS,
+    columns: ['URN'],
+    referenceFile: ESTABLISHMENTS,
+    referenceColumns: ['URN'],
+    severity: 'warning',
+  },
+  {
+    name: 'links-link-urn',
+    description: 'Every LinkURN in the links file is a known establishment',
+    file: LINKS,
+    columns: ['LinkURN'],
+    referenceFile: ESTABLISHMENTS,
+    referenceColumns: ['URN'],
+    severity: 'warning',
+  },
+  {
+    name: 'statefunded-links-subset',
+    description: 'Every state-funded link is also in the all-data links file',
+    file: 'links_edubaseallstatefunded.csv',
+    columns: ['URN', 'LinkURN', 'LinkType'],
+    referenceFile: LINKS,
+    referenceColumns: ['URN', 'LinkURN', 'LinkType'],
+    severity: 'warning',
+  },
+  {
+    name: 'grouplinks-urn',
+    description: 'Every URN in the group links file is a known establishment',
+    file: GROUP_LINKS,
+    columns: ['URN'],
+    referenceFile: ESTABLISHMENTS,
+    referenceColumns: ['URN'],
+    severity: 'warning',
+  },
+  {
+    name: 'matmembership-urn',
+    description: 'Every URN in the MAT membership file is a known establishment',
+    file: 'academiesmatmembership.csv',
+    columns: ['URN'],
+    referenceFile: ESTABLISHMENTS,
+    referenceColumns: ['URN'],
+    severity: 'warning',
+  },
+  {
+    name: 'matmembership-group',
+    description: 'Every Group UID in the MAT membership file is a known group',
+    file: 'academiesmatmembership.csv',
+    columns: ['Group UID'],
+    referenceFile: GROUP_LINKS,
+    referenceColumns: ['Group UID'],
+    severity: 'warning',
+  },
+  {
+    name: 'governance-urn',
+    description: 'Every URN in the governance file is a known establishment',
+    file: 'governancealldata.csv',
+    columns: ['URN'],
+    referenceFile: ESTABLISHMENTS,
+    referenceColumns: ['URN'],
+    severity: 'warning',
+  },
+  {
+    name: 'governance-academy-urn',
+    description: 'Every URN in the academy governance file is a known establishment',
+    file: 'governanceacaddata.csv',
+    columns: ['URN'],
+    referenceFile: ESTABLISHMENTS,
+    referenceColumns: ['URN'],
+    severity: 'warning',
+  },
+  {
+    name: 'governance-mat-group',
+    description: 'Every Group UID in the MAT governance file is a known group',
+    file: 'governancematdata.csv',
+    columns: ['Group UID'],
+    referenceFile: GROUP_LINKS,
+    referenceColumns: ['Group UID'],
+    severity: 'warning',
+  },
+];
+
+export const INTEGRITY_RULE_NAMES = DEFAULT_INTEGRITY_RULES.map(rule => rule.name);
+
+/**
+ * Runs the integrity rules across a set of files. Rows with an empty value
+ * in any checked column are not checked, as the reference is optional there.
+ */
+export async function checkIntegrity(options: IntegrityCheckOptions): Promise<IntegrityReport> {
+  const rules = (options.rules ?? DEFAULT_INTEGRITY_RULES)
+    .map(rule => ({ ...rule, severity: options.severity?.[rule.name] ?? rule.severity }))
+    .filter(rule => rule.severity !== 'off');
+  const sampleSize = options.sampleSize ?? DEFAULT_SAMPLE_SIZE;
+  const report: IntegrityReport = { checkedRules: [], skippedRules: [], violations: [], failed: false };
+
+  // Several rules share a reference, so each set of reference keys is read once
+  const references = new Map<string, Promise<Set<string> | string>>();
+  const loadReference = (file: string, columns: string[]) => {
+    const cacheKey = [file, ...columns].join('\u0000');
+    if (!references.has(cacheKey)) {
+      references.set(cacheKey, readKeys(options.resolvePath(file), columns));
+    }
+    return references.get(cacheKey) as Promise<Set<string> | string>;
+  };
+
+  for (const rule of rules) {
+    const filePath = options.resolvePath(rule.file);
+    if (!(await fileExists(filePath))) {
+      report.skippedRules.push({ rule: rule.name, reason: `${rule.file} is not available` });
+      continue;
+    }
+    const known = await loadReference(rule.referenceFile, rule.referenceColumns);
+    if (typeof known === 'string') {
+      report.skippedRules.push({ rule: rule.name, reason: known });
+      continue;
+    }
+
+    const violation: IntegrityViolation = {
+      rule: rule.name,
+      description: rule.description,
+      severity: rule.severity,
+      file: rule.file,
+      referenceFile: rule.referenceFile,
+      count: 0,
+      samples: [],
+    };
+    let rowNumber = 0;
+    let missingColumns: string[] | null = null;
+
+    for await (const row of readRows(filePath)) {
+      rowNumber++;
+      if (missingColumns === null) {
+        missingColumns = rule.columns.filter(column => !(column in row));
+        if (missingColumns.length > 0) break;
+      }
+      const values = rule.columns.map(column => row[column].trim());
+      if (values.some(value => value === '')) continue;
+      if (!known.has(values.join('\u0000'))) {
+        violation.count++;
+        if (violation.samples.length < sampleSize) {
+          violation.samples.push({ row: rowNumber, values: row });
+        }
+      }
+    }
+
+    if (missingColumns && missingColumns.length > 0) {
+      report.skippedRules.push({ rule: rule.name, reason: `${rule.file} has no ${missingColumns.join(', ')} column` });
+      continue;
+    }
+    report.checkedRules.push(rule.name);
+    if (violation.count > 0) {
+      report.violations.push(violation);
+      report.failed = report.failed || violation.severity === 'error';
+    }
+  }
+
+  return report;
+}
+
+/**
+ * Describes a violation in one line, e.g. for a log
+ */
+export function describeViolation(violation: IntegrityViolation): string {
+  const rows = violation.samples.map(sample => sample.row).join(', ');
+  return `${violation.file}: ${violation.count} row(s) break ${violation.rule} ` +
+    `(${violation.description.charAt(0).toLowerCase()}${violation.description.slice(1)})` +
+    (rows ? `, e.g. row ${rows}` : '');
+}
+
+/**
+ * Reads the set of keys a reference file provides, or the reason it cannot
+ */
+async function readKeys(filePath: string, columns: string[]): Promise<Set<string> | string> {
+  const fileName = path.basename(filePath);
+  if (!(await fileExists(filePath))) {
+    return `${fileName} is not available`;
+  }
+
+  const keys = new Set<string>();
+  for await (const row of readRows(filePath)) {
+    const missing = columns.filter(column => !(column in row));
+    if (missing.length > 0) {
+      return `${fileName} has no ${missing.join(', ')} column`;
+    }
+    keys.add(columns.map(column => row[column].trim()).join('\u0000'));
+  }
+  return keys;
+}
+
+async function fileExists(filePath: string): Promise<boolean> {
+  return fs.access(filePath).then(() => true).catch(() => false);
+}
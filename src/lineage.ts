@@ -0,0 +1,269 @@
+/**
+ * Establishment lineage
+ *
+ * Builds a succession graph from the links files, where a "Successor" link
+ * from URN A to LinkURN B and a "Predecessor" link from B to A both mean that
+ * B replaced A. Link types that name no direction, such as "Sixth Form
+ * Centre Link" or "Result of Amalgamation", are not part of the graph. The
+ * graph resolves a URN to the establishments that currently replace it, lists
+ * its history as ordered chains, and finds cycles and contradictory links.
+ */
+
+import { differenceInCalendarDays, format, parseISO } from 'date-fns';
+import { EstablishmentLink, readEstablishmentLinks } from './records';
+import { openStoredFile } from './storage';
+
+// Types
+export interface LineageEdge {
+  from: number;
+  to: number;
+  linkType: string;
+  date: Date | null;
+}
+
+export interface LineageStep {
+  urn: number;
+  name: string | null;
+  // The link from the previous step; null for the first step of a chain
+  via: { linkType: string; date: Date | null } | null;
+}
+
+export type LineageChain = LineageStep[];
+
+export interface LineageConflict {
+  kind: 'contradictory-direction' | 'date-mismatch';
+  from: number;
+  to: number;
+  message: string;
+}
+
+export const LINEAGE_LINKS_FILE = 'links_edubasealldata.csv';
+
+// Chains returned by history() before it stops, as merges and splits multiply them
+export const DEFAULT_MAX_CHAINS = 100;
+
+// A predecessor usually closes the day before its successor opens, and each end records its own date
+const DATE_TOLERANCE_DAYS = 1;
+
+/**
+ * Returns the direction a link type implies: 'successor' when LinkURN
+ * replaced URN, 'predecessor' when URN replaced LinkURN, otherwise null
+ */
+export function linkDirection(linkType: string): 'successor' | 'predecessor' | null {
+  const normalised = linkType.trim().toLowerCase();
+  if (normalised.startsWith('successor')) return 'successor';
+  if (normalised.startsWith('predecessor')) return 'predecessor';
+  return null;
+}
+
+/**
+ * The succession graph of the establishments in one or more links files
+ */
+export class LineageGraph {
+  private readonly successors = new Map<number, Map<number, LineageEdge>>();
+  private readonly predecessors = new Map<number, Map<number, LineageEdge>>();
+  private readonly names = new Map<number, string>();
+  // Every date each edge was declared with, by either of its ends
+  private readonly declaredDates = new Map<string, Set<string>>();
+
+  /**
+   * Adds a link row. Links without a direction only contribute the name.
+   */
+  addLink(link: EstablishmentLink): void {
+    if (link.linkName) {
+      this.names.set(link.linkUrn, link.linkName);
+    }
+
+    const direction = linkDirection(link.linkType);
+    if (!direction || link.urn === link.linkUrn) return;
+
+    const [from, to] = direction === 'successor' ? [link.urn, link.linkUrn] : [link.linkUrn, link.urn];
+    const edge: LineageEdge = { from, to, linkType: link.linkType, date: link.linkEstablishedDate };
+    if (!this.successors.get(from)?.has(to)) {
+      edgesOf(this.successors, from).set(to, edge);
+      edgesOf(this.predecessors, to).set(from, edge);
+    }
+
+    const key = `${from}>${to}`;
+    const dates = this.declaredDates.get(key) ?? new Set<string>();
+    dates.add(link.linkEstablishedDate ? format(link.linkEstablishedDate, 'yyyy-MM-dd') : '');
+    this.declaredDates.set(key, dates);
+  }
+
+  has(urn: number): boolean {
+    return this.successors.has(urn) || this.predecessors.has(urn) || this.names.has(urn);
+  }
+
+  nameOf(urn: number): string | null {
+    return this.names.get(urn) ?? null;
+  }
+
+  successorsOf(urn: number): LineageEdge[] {
+    return [...(this.successors.get(urn)?.values() ?? [])];
+  }
+
+  predecessorsOf(urn: number): LineageEdge[] {
+    return [...(this.predecessors.get(urn)?.values() ?? [])];
+  }
+
+  /**
+   * Follows the successors of a URN to the establishments that have none,
+   * i.e. those that currently replace it. A URN without successors resolves
+   * to itself. Links that lead back into a cycle are not followed.
+   */
+  resolveCurrent(urn: number): number[] {
+    const current = new Set<number>();
+    const visited = new Set<number>();
+    const visit = (node: number) => {
+      visited.add(node);
+      const next = this.successorsOf(node).filter(edge => !visited.has(edge.to));
+      if (this.successorsOf(node).length === 0) {
+        current.add(node);
+      }
+      next.forEach(edge => visit(edge.to));
+    };
+    visit(urn);
+    return [...current].sort((a, b) => a - b);
+  }
+
+  /**
+   * Lists the chains through a URN, each running from an establishment with
+   * no predecessor to one with no successor, in order of succession
+   */
+  history(urn: number, maxChains = DEFAULT_MAX_CHAINS): LineageChain[] {
+    const backward = this.walk(urn, node => this.predecessorsOf(node).map(edge => edge.from), maxChains)
+      .map(path => path.reverse());
+    const forward = this.walk(urn, node => this.successorsOf(node).map(edge => edge.to), maxChains);
+
+    const chains: LineageChain[] = [];
+    for (const before of backward) {
+      for (const after of forward) {
+        if (chains.length >= maxChains) return chains;
+        const urns = [...before, ...after.slice(1)];
+        // A cycle can reach the same establishment from both sides
+        if (new Set(urns).size !== urns.length) continue;
+        chains.push(urns.map((node, index) => this.step(node, index > 0 ? urns[index - 1] : null)));
+      }
+    }
+    return chains;
+  }
+
+  /**
+   * Finds the cycles in the graph, each listed once starting from its lowest URN
+   */
+  findCycles(): number[][] {
+    const cycles = new Map<string, number[]>();
+    const state = new Map<number, 'active' | 'done'>();
+    const stack: number[] = [];
+
+    const visit = (node: number) => {
+      state.set(node, 'active');
+      stack.push(node);
+      for (const edge of this.successorsOf(node)) {
+        if (state.get(edge.to) === 'active') {
+          const cycle = stack.slice(stack.indexOf(edge.to));
+          const start = cycle.indexOf(Math.min(...cycle));
+          const rotated = [...cycle.slice(start), ...cycle.slice(0, start)];
+          cycles.set(rotated.join(','), rotated);
+        } else if (!state.has(edge.to)) {
+          visit(edge.to);
+        }
+      }
+      stack.pop();
+      state.set(node, 'done');
+    };
+
+    [...this.successors.keys()].sort((a, b) => a - b).forEach(node => {
+      if (!state.has(node)) visit(node);
+    });
+    return [...cycles.values()];
+  }
+
+  /**
+   * Finds pairs that are each other's successor, and links whose two ends
+   * record dates more than a day apart
+   */
+  findConflicts(): LineageConflict[] {
+    const conflicts: LineageConflict[] = [];
+
+    this.successors.forEach((edges, from) => {
+      edges.forEach((_edge, to) => {
+        if (from < to && this.successors.get(to)?.has(from)) {
+          conflicts.push({
+            kind: 'contradictory-direction',
+            from,
+            to,
+            message: `${from} and ${to} are each recorded as the other's successor`,
+          });
+        }
+
+        const dates = [...(this.declaredDates.get(`${from}>${to}`) ?? [])].filter(date => date !== '').sort();
+        const spread = dates.length > 1
+          ? differenceInCalendarDays(parseISO(dates[dates.length - 1]), parseISO(dates[0]))
+          : 0;
+        if (spread > DATE_TOLERANCE_DAYS) {
+          conflicts.push({
+            kind: 'date-mismatch',
+            from,
+            to,
+            message: `The link from ${from} to ${to} is recorded with dates ${dates.join(' and ')}`,
+          });
+        }
+      });
+    });
+
+    return conflicts;
+  }
+
+  private step(urn: number, previous: number | null): LineageStep {
+    const edge = previous === null ? undefined : this.successors.get(previous)?.get(urn);
+    return {
+      urn,
+      name: this.nameOf(urn),
+      via: edge ? { linkType: edge.linkType, date: edge.date } : null,
+    };
+  }
+
+  // Every path from a node along `next` until a node with nowhere new to go
+  private walk(urn: number, next: (node: number) => number[], maxPaths: number): number[][] {
+    const paths: number[][] = [];
+    const extend = (path: number[]) => {
+      if (paths.length >= maxPaths) return;
+      const onward = next(path[path.length - 1]).filter(node => !path.includes(node));
+      if (onward.length === 0) {
+        paths.push(path);
+        return;
+      }
+      onward.forEach(node => extend([...path, node]));
+    };
+    extend([urn]);
+    return paths;
+  }
+}
+
+/**
+ * Builds the lineage graph from parsed link records
+ */
+export async function buildLineage(
+  links: AsyncIterable<EstablishmentLink> | Iterable<EstablishmentLink>
+): Promise<LineageGraph> {
+  const graph = new LineageGraph();
+  for await (const link of links) {
+    graph.addLink(link);
+  }
+  return graph;
+}
+
+/**
+ * Builds the lineage graph from the links file in a data directory, reading
+ * its compressed or split copy when the plain file is not there
+ */
+export async function loadLineage(dataDir: string, fileName = LINEAGE_LINKS_FILE): Promise<LineageGraph> {
+  return buildLineage(readEstablishmentLinks(openStoredFile(dataDir, fileName)));
+}
+
+function edgesOf(index: Map<number, Map<number, LineageEdge>>, urn: number): Map<number, LineageEdge> {
+  const edges = index.get(urn) ?? new Map<number, LineageEdge>();
+  index.set(urn, edges);
+  return edges;
+}
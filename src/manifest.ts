@@ -0,0 +1,167 @@
+/**
+ * Run manifest
+ *
+ * Records where each file in the output directory came from, together with
+ * its checksum, size, row count and header, so the files on disk can later be
+ * verified against what was fetched.
+ */
+
+import { createHash } from 'crypto';
+import { createReadStream, promises as fs } from 'fs';
+import * as path from 'path';
+import { openStoredFile } from './storage';
+
+// Types
+export interface ManifestEntry {
+  file: string;
+  url: string;
+  date: string;
+  fetchedAt: string;
+  sha256: string;
+  bytes: number;
+  rowCount: number;
+  header: string[];
+  encoding?: string;
+  etag?: string;
+  lastModified?: string;
+  // The privacy profile applied and the file it was written to: this file when filtered in place
+  privacy?: { profile: string; output: string };
+}
+
+export interface Manifest {
+  version: 1;
+  updatedAt: string;
+  files: Record<string, ManifestEntry>;
+}
+
+export type VerificationStatus = 'ok' | 'missing' | 'modified';
+
+export interface FileVerification {
+  file: string;
+  status: VerificationStatus;
+  expectedSha256: string;
+  actualSha256?: string;
+  expectedBytes: number;
+  actualBytes?: number;
+}
+
+export interface ManifestVerification {
+  ok: boolean;
+  files: FileVerification[];
+}
+
+export const MANIFEST_FILE = 'manifest.json';
+
+/**
+ * Creates a manifest with no entries
+ */
+export function emptyManifest(): Manifest {
+  return { version: 1, updatedAt: new Date(0).toISOString(), files: {} };
+}
+
+/**
+ * Reads the manifest from the output directory, returning an empty manifest
+ * when none has been written yet
+ */
+export async function readManifest(outputDir: string): Promise<Manifest> {
+  const manifestPath = path.join(outputDir, MANIFEST_FILE);
+
+  let raw: string;
+  try {
+    raw = await fs.readFile(manifestPath, 'utf8');
+  } catch {
+    return emptyManifest();
+  }
+
+  const parsed = JSON.parse(raw) as Manifest;
+  if (parsed.version !== 1 || typeof parsed.files !== 'object' || parsed.files === null) {
+    throw new Error(`Unsupported manifest format in ${manifestPath}`);
+  }
+  return parsed;
+}
+
+/**
+ * Writes the manifest through a temp file so a crash never leaves it half written
+ */
+export async function writeManifest(outputDir: string, manifest: Manifest): Promise<string> {
+  const manifestPath = path.join(outputDir, MANIFEST_FILE);
+  const tempPath = `${manifestPath}.tmp`;
+
+  // Sort entries so the file diffs cleanly between runs
+  const files = Object.fromEntries(
+    Object.keys(manifest.files).sort().map(file => [file, manifest.files[file]])
+  );
+  await fs.writeFile(tempPath, JSON.stringify({ ...manifest, files }, null, 2) + '\n');
+  await fs.rename(tempPath, manifestPath);
+  return manifestPath;
+}
+
+/**
+ * Returns a copy of the manifest with the given entries added or replaced.
+ * Entries for files that were not replaced in this run are left untouched.
+ */
+export function updateManifest(manifest: Manifest, entries: ManifestEntry[], now = new Date()): Manifest {
+  const files = { ...manifest.files };
+  entries.forEach(entry => {
+    files[entry.file] = entry;
+  });
+  return { version: 1, updatedAt: now.toISOString(), files };
+}
+
+/**
+ * Computes the SHA-256 and size of a file by streaming it
+ */
+export async function hashFile(filePath: string): Promise<{ sha256: string; bytes: number }> {
+  return hashChunks(createReadStream(filePath));
+}
+
+/**
+ * Computes the SHA-256 and size of a file as openStoredFile reads it, so a
+ * file kept only as a compressed or split copy hashes like the original
+ */
+export async function hashStoredFile(dir: string, fileName: string): Promise<{ sha256: string; bytes: number }> {
+  return hashChunks(openStoredFile(dir, fileName));
+}
+
+async function hashChunks(source: AsyncIterable<unknown>): Promise<{ sha256: string; bytes: number }> {
+  const hash = createHash('sha256');
+  let bytes = 0;
+
+  for await (const chunk of source) {
+    hash.update(chunk as Buffer);
+    bytes += (chunk as Buffer).length;
+  }
+
+  return { sha256: hash.digest('hex'), bytes };
+}
+
+/**
+ * Checks every file recorded in the manifest against the copy on disk. Files
+ * kept only as compressed or split copies are checked after reassembly.
+ */
+export async function verifyManifest(outputDir: string): Promise<ManifestVerification> {
+  const manifest = await readManifest(outputDir);
+  const files: FileVerification[] = [];
+
+  for (const entry of Object.values(manifest.files)) {
+    const base = { file: entry.file, expectedSha256: entry.sha256, expectedBytes: entry.bytes };
+
+    let actual: { sha256: string; bytes: number };
+    try {
+      actual = await hashStoredFile(outputDir, entry.file);
+    } catch {
+      files.push({ ...base, status: 'missing' });
+      continue;
+    }
+
+    const matches = actual.sha256 === entry.sha256 && actual.bytes === entry.bytes;
+    files.push({
+      ...base,
+      status: matches ? 'ok' : 'modified',
+      actualSha256: actual.sha256,
+      actualBytes: actual.bytes,
+    });
+  }
+
+  return { ok: files.every(file => file.status === 'ok'), files };
+}
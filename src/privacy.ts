@@ -0,0 +1,206 @@
+/**
+ * Privacy filter
+ *
+ * Some extracts name individuals: heads of establishments and children's
+ * centres, and the governors, trustees and members in the governance files.
+ * A privacy profile lists, per output file, the columns to drop, to hash
+ * (a salted SHA-256 pseudonym, so rows can still be joined on the column) or
+ * to mask (only the first character kept). Profiles are named so different
+ * consumers can be given different views of the same download. Filtered files
+ * are written as UTF-8 with every value quoted, as GIAS does.
+ */
+
+import { createHash } from 'crypto';
+import { createWriteStream, promises as fs } from 'fs';
+import { once } from 'events';
+import * as path from 'path';
+import { finished } from 'stream/promises';
+import { readCsvRecords } from './csv';
+import type { FileTemplate } from './fetch-data';
+
+// Types
+export type PrivacyAction = 'drop' | 'hash' | 'mask';
+
+// Where filtered files go: next to the originals as <name>.<profile>.csv, or in their place
+export type PrivacyOutput = 'alongside' | 'replace';
+
+// Actions keyed by column name
+export type PrivacyColumns = Record<string, PrivacyAction>;
+
+// Column actions keyed by output file
+export type PrivacyProfile = Record<string, PrivacyColumns>;
+
+export interface PrivacyFilterOptions {
+  // Prepended to every hashed value; without one, hashes of guessable values can be reversed
+  salt?: string;
+}
+
+export interface PrivacyFilterResult {
+  file: string;
+  profile: string;
+  // File written, relative to the data directory
+  output: string;
+  dropped: string[];
+  hashed: string[];
+  masked: string[];
+  rowCount: number;
+}
+
+export const PRIVACY_ACTIONS: PrivacyAction[] = ['drop', 'hash', 'mask'];
+
+export const PRIVACY_OUTPUTS: PrivacyOutput[] = ['alongside', 'replace'];
+
+// Characters of the hex digest kept for a hashed value
+const HASH_LENGTH = 16;
+
+const HEAD_COLUMNS: PrivacyColumns = {
+  'HeadTitle (name)': 'drop',
+  HeadFirstName: 'drop',
+  HeadLastName: 'drop',
+};
+
+// GID identifies a person across roles, so it is hashed rather than dropped
+const GOVERNOR_COLUMNS: PrivacyColumns = {
+  GID: 'hash',
+  Title: 'drop',
+  'Forename 1': 'drop',
+  'Forename 2': 'drop',
+  Surname: 'drop',
+  'Date of appointment': 'drop',
+  'Date term of office ends/ended': 'drop',
+};
+
+// Built-in profiles; templates can add files and columns to these or define their own
+export const DEFAULT_PRIVACY_PROFILES: Record<string, PrivacyProfile> = {
+  public: {
+    'edubasealldata.csv': HEAD_COLUMNS,
+    'edubaseallstatefunded.csv': HEAD_COLUMNS,
+    'edubaseallacademiesandfree.csv': HEAD_COLUMNS,
+    'edubaseallchildrencentre.csv': HEAD_COLUMNS,
+    'governancealldata.csv': GOVERNOR_COLUMNS,
+    'governancematdata.csv': GOVERNOR_COLUMNS,
+    'governanceacaddata.csv': GOVERNOR_COLUMNS,
+    'governanceladata.csv': GOVERNOR_COLUMNS,
+  },
+};
+
+/**
+ * Lists the profile names the built-in profiles and the templates define
+ */
+export function privacyProfileNames(templates: FileTemplate[]): string[] {
+  const names = new Set(Object.keys(DEFAULT_PRIVACY_PROFILES));
+  templates.forEach(template => Object.keys(template.privacy ?? {}).forEach(name => names.add(name)));
+  return [...names].sort();
+}
+
+/**
+ * Returns the column actions of a profile for one template: the built-in
+ * actions for its file, overridden by those the template sets for the profile
+ */
+export function privacyColumnsFor(profile: string, template: FileTemplate): PrivacyColumns {
+  return {
+    ...DEFAULT_PRIVACY_PROFILES[profile]?.[template.outputFile],
+    ...template.privacy?.[profile],
+  };
+}
+
+/**
+ * Names the filtered copy written alongside a file, e.g.
+ * governancealldata.csv -> governancealldata.public.csv
+ */
+export function privacyFileName(fileName: string, profile: string): string {
+  const ext = path.extname(fileName);
+  return `${fileName.slice(0, fileName.length - ext.length)}.${profile}${ext}`;
+}
+
+/**
+ * Applies the column actions to a header, returning the columns that remain
+ */
+export function filterHeader(header: string[], columns: PrivacyColumns): string[] {
+  return header.filter(column => columns[column.trim()] !== 'drop');
+}
+
+/**
+ * Returns the pseudonym a hashed column holds for a value
+ */
+export function hashValue(value: string, salt = ''): string {
+  return createHash('sha256').update(salt + value).digest('hex').slice(0, HASH_LENGTH);
+}
+
+/**
+ * Keeps the first character of a value and hides the rest
+ */
+export function maskValue(value: string): string {
+  return value.length > 0 ? `${value[0]}***` : value;
+}
+
+/**
+ * Writes a filtered copy of a CSV file. The source and target may be the
+ * same path. Columns the file does not have are ignored, as are empty values.
+ */
+export async function applyPrivacyFilter(
+  sourcePath: string,
+  targetPath: string,
+  columns: PrivacyColumns,
+  options: PrivacyFilterOptions = {}
+): Promise<Omit<PrivacyFilterResult, 'file' | 'profile' | 'output'>> {
+  const tempPath = `${targetPath}.privacy.tmp`;
+  const output = createWriteStream(tempPath);
+  let header: string[] | null = null;
+  let actions: (PrivacyAction | undefined)[] = [];
+  let rowCount = 0;
+
+  try {
+    for await (const record of readCsvRecords(sourcePath)) {
+      if (!header) {
+        header = record.map(column => column.trim());
+        actions = header.map(column => columns[column]);
+        await writeLine(output, header.filter((_column, index) => actions[index] !== 'drop'));
+        continue;
+      }
+
+      rowCount++;
+      const values: string[] = [];
+      actions.forEach((action, index) => {
+        const value = record[index] ?? '';
+        if (action === 'drop') return;
+        if (value.trim() === '' || action === undefined) {
+          values.push(value);
+        } else {
+          values.push(action === 'hash' ? hashValue(value.trim(), options.salt) : maskValue(value.trim()));
+        }
+      });
+      await writeLine(output, values);
+    }
+    output.end();
+    await finished(output);
+    await fs.rename(tempPath, targetPath);
+  } catch (error) {
+    output.destroy();
+    await fs.rm(tempPath, { force: true });
+    throw error;
+  }
+
+  const applied = (action: PrivacyAction) => (header ?? []).filter((_column, index) => actions[index] === action);
+  return { dropped: applied('drop'), hashed: applied('hash'), masked: applied('mask'), rowCount };
+}
+
+/**
+ * Summarises a filter result in one line, e.g. for a log
+ */
+export function describePrivacyFilter(result: PrivacyFilterResult): string {
+  const actions = [
+    result.dropped.length > 0 ? `dropped ${result.dropped.join(', ')}` : null,
+    result.hashed.length > 0 ? `hashed ${result.hashed.join(', ')}` : null,
+    result.masked.length > 0 ? `masked ${result.masked.join(', ')}` : null,
+  ].filter(action => action !== null);
+  const target = result.output === result.file ? result.file : `${result.file} as ${result.output}`;
+  return `Applied privacy profile ${result.profile} to ${target}: ${actions.join('; ') || 'no matching columns'}`;
+}
+
+async function writeLine(output: NodeJS.WritableStream, values: string[]): Promise<void> {
+  const line = values.map(value => `"${value.replace(/"/g, '""')}"`).join(',') + '\r\n';
+  if (!output.write(line)) {
+    await once(output, 'drain');
+  }
+}
@@ -0,0 +1,353 @@
+/**
+ * Row-level data quality
+ *
+ * Checks every row of a downloaded file against declarative rules: unique
+ * keys, value patterns such as postcodes, dates in a given format, code
+ * columns that agree with their name columns, and rows with the wrong number
+ * of fields. Custom rules can be written as a function of the row. The
+ * report lists each failure with its row number, URN and offending value, and
+ * a file is rejected when the share of failing rows exceeds a threshold.
+ */
+
+import { format, isValid, parse } from 'date-fns';
+import { readCsvRecords } from './csv';
+import type { CsvRow, RecordSource } from './records';
+
+// Types
+interface BaseRule {
+  name: string;
+}
+
+export type QualityRule =
+  | BaseRule & { type: 'unique'; column: string }
+  | BaseRule & { type: 'pattern'; column: string; pattern: string; flags?: string }
+  | BaseRule & { type: 'date'; column: string; format: string }
+  // Codes must always have the same name; `codes` fixes the expected name of known codes
+  | BaseRule & { type: 'code-name'; codeColumn: string; nameColumn: string; codes?: Record<string, string> }
+  | BaseRule & { type: 'field-count' }
+  // Returns a message describing the problem, or null when the row passes
+  | BaseRule & { type: 'custom'; column?: string; check: (row: CsvRow) => string | null };
+
+export interface QualityIssue {
+  rule: string;
+  // 1-based data row number, not counting the header
+  row: number;
+  urn: string | null;
+  column: string | null;
+  value: string | null;
+  message: string;
+}
+
+export interface QualityReport {
+  file: string;
+  rowCount: number;
+  failedRows: number;
+  failedPercent: number;
+  // Number of failures per rule, including those beyond the issue limit
+  ruleCounts: Record<string, number>;
+  issues: QualityIssue[];
+  rejected: boolean;
+}
+
+export interface QualityCheckOptions {
+  // Reject the file when more than this percentage of rows fail; 100 never rejects
+  thresholdPercent?: number;
+  // Issues kept per rule in the report
+  maxIssuesPerRule?: number;
+}
+
+export const DEFAULT_MAX_ISSUES_PER_RULE = 100;
+
+// Fields of each rule type besides name and type; a trailing ? marks an optional field
+const RULE_FIELDS: Record<QualityRule['type'], Record<string, string>> = {
+  unique: { column: 'string' },
+  pattern: { column: 'string', pattern: 'string', flags: 'string?' },
+  date: { column: 'string', format: 'string' },
+  'code-name': { codeColumn: 'string', nameColumn: 'string', codes: 'object?' },
+  'field-count': {},
+  custom: { column: 'string?', check: 'function' },
+};
+
+export const QUALITY_RULE_TYPES = Object.keys(RULE_FIELDS) as QualityRule['type'][];
+
+const GIAS_DATE_FORMAT = 'dd-MM-yyyy';
+const POSTCODE_PATTERN = '^[A-Z]{1,2}[0-9][A-Z0-9]? [0-9][A-Z]{2}$';
+
+// Built-in rules for the GIAS datasets
+export const ESTABLISHMENT_QUALITY_RULES: QualityRule[] = [
+  { name: 'field-count', type: 'field-count' },
+  { name: 'unique-urn', type: 'unique', column: 'URN' },
+  { name: 'postcode', type: 'pattern', column: 'Postcode', pattern: POSTCODE_PATTERN, flags: 'i' },
+  { name: 'open-date', type: 'date', column: 'OpenDate', format: GIAS_DATE_FORMAT },
+  { name: 'close-date', type: 'date', column: 'CloseDate', format: GIAS_DATE_FORMAT },
+  {
+    name: 'establishment-status',
+    type: 'code-name',
+    codeColumn: 'EstablishmentStatus (code)',
+    nameColumn: 'EstablishmentStatus (name)',
+    codes: { '1': 'Open', '2': 'Closed', '3': 'Open, but proposed to close', '4': 'Proposed to open' },
+  },
+];
+
+export const LINKS_QUALITY_RULES: QualityRule[] = [
+  { name: 'field-count', type: 'field-count' },
+  { name: 'link-established-date', type: 'date', column: 'LinkEstablishedDate', format: GIAS_DATE_FORMAT },
+];
+
+export const GROUP_LINKS_QUALITY_RULES: QualityRule[] = [
+  { name: 'field-count', type: 'field-count' },
+  { name: 'joined-date', type: 'date', column: 'Joined date', format: GIAS_DATE_FORMAT },
+  { name: 'group-type', type: 'code-name', codeColumn: 'Group Type (code)', nameColumn: 'Group Type' },
+];
+
+export const CHILDRENS_CENTRE_QUALITY_RULES: QualityRule[] = [
+  { name: 'field-count', type: 'field-count' },
+  { name: 'unique-urn', type: 'unique', column: 'URN' },
+  { name: 'postcode', type: 'pattern', column: 'Postcode', pattern: POSTCODE_PATTERN, flags: 'i' },
+  { name: 'open-date', type: 'date', column: 'OpenDate', format: GIAS_DATE_FORMAT },
+  {
+    name: 'establishment-status',
+    type: 'code-name',
+    codeColumn: 'EstablishmentStatus (code)',
+    nameColumn: 'EstablishmentStatus (name)',
+  },
+];
+
+export const GOVERNANCE_QUALITY_RULES: QualityRule[] = [
+  { name: 'field-count', type: 'field-count' },
+  { name: 'appointment-date', type: 'date', column: 'Date of appointment', format: GIAS_DATE_FORMAT },
+];
+
+/**
+ * Raised when quality rules are malformed. This is a configuration problem,
+ * so a download that fails with it is not retried.
+ */
+export class QualityRuleError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(`Invalid quality rules: ${issues.join('; ')}`);
+    this.name = 'QualityRuleError';
+  }
+}
+
+/**
+ * Checks that a rule has a name, a known type and the fields its type needs,
+ * returning a description of each problem
+ */
+export function checkQualityRule(rule: unknown, label: string): string[] {
+  if (!rule || typeof rule !== 'object' || Array.isArray(rule)) {
+    return [`${label} must be an object`];
+  }
+
+  const values = rule as Record<string, unknown>;
+  const issues: string[] = [];
+  if (typeof values.name !== 'string') {
+    issues.push(`${label}.name must be a string`);
+  }
+  if (!QUALITY_RULE_TYPES.includes(values.type as QualityRule['type'])) {
+    issues.push(
+      `${label}.type must be one of ${QUALITY_RULE_TYPES.join(', ')}, got ${JSON.stringify(values.type)}`
+    );
+    return issues;
+  }
+
+  const fields = RULE_FIELDS[values.type as QualityRule['type']];
+  Object.keys(values)
+    .filter(key => key !== 'name' && key !== 'type' && !Object.keys(fields).includes(key))
+    .forEach(key => issues.push(`${label} has unknown field "${key}" for a ${values.type} rule`));
+  const invalid = new Set<string>();
+  Object.entries(fields).forEach(([key, expected]) => {
+    const optional = expected.endsWith('?');
+    const type = optional ? expected.slice(0, -1) : expected;
+    if (values[key] === undefined && !optional) {
+      issues.push(`${label}.${key} is required for a ${values.type} rule`);
+      invalid.add(key);
+    } else if (values[key] !== undefined &&
+      (typeof values[key] !== type || values[key] === null || Array.isArray(values[key]))) {
+      issues.push(`${label}.${key} must be ${type === 'object' ? 'an' : 'a'} ${type}`);
+      invalid.add(key);
+    }
+  });
+
+  if (values.type === 'pattern' && !invalid.has('pattern') && !invalid.has('flags')) {
+    try {
+      new RegExp(values.pattern as string, values.flags as string | undefined);
+    } catch (error) {
+      issues.push(`${label}.pattern is not a valid regular expression: ${(error as Error).message}`);
+    }
+  }
+  if (values.type === 'code-name' && values.codes !== undefined && !invalid.has('codes') &&
+    Object.values(values.codes as object).some(name => typeof name !== 'string')) {
+    issues.push(`${label}.codes must map each code to its name`);
+  }
+  return issues;
+}
+
+/**
+ * Checks every row of a CSV file or byte stream against the rules. Rules
+ * about a column the file does not have are not applied, and empty values
+ * pass every rule except field-count.
+ */
+export async function checkQuality(
+  file: string,
+  source: RecordSource,
+  rules: QualityRule[],
+  options: QualityCheckOptions = {}
+): Promise<QualityReport> {
+  const ruleIssues = rules.flatMap((rule, index) => checkQualityRule(rule, `qualityRules[${index}]`));
+  if (ruleIssues.length > 0) {
+    throw new QualityRuleError(ruleIssues);
+  }
+
+  const thresholdPercent = options.thresholdPercent ?? 100;
+  const maxIssues = options.maxIssuesPerRule ?? DEFAULT_MAX_ISSUES_PER_RULE;
+  const ruleCounts: Record<string, number> = {};
+  const issues: QualityIssue[] = [];
+  let header: string[] | null = null;
+  let checks: RowCheck[] = [];
+  let rowCount = 0;
+  let failedRows = 0;
+
+  for await (const record of readCsvRecords(source)) {
+    if (!header) {
+      header = record.map(column => column.trim());
+      checks = rules
+        .map(rule => compileRule(rule, header as string[]))
+        .filter((check): check is RowCheck => check !== null);
+      continue;
+    }
+
+    rowCount++;
+    const row: CsvRow = {};
+    header.forEach((column, index) => {
+      row[column] = record[index] ?? '';
+    });
+
+    let failed = false;
+    for (const check of checks) {
+      const problem = check.test(row, record.length);
+      if (!problem) continue;
+
+      failed = true;
+      ruleCounts[check.name] = (ruleCounts[check.name] ?? 0) + 1;
+      if (ruleCounts[check.name] <= maxIssues) {
+        issues.push({
+          rule: check.name,
+          row: rowCount,
+          urn: row['URN']?.trim() || null,
+          column: check.column,
+          value: check.column ? row[check.column] ?? null : null,
+          message: problem,
+        });
+      }
+    }
+    if (failed) failedRows++;
+  }
+
+  const failedPercent = rowCount > 0 ? (failedRows / rowCount) * 100 : 0;
+  return {
+    file,
+    rowCount,
+    failedRows,
+    failedPercent,
+    ruleCounts,
+    issues,
+    rejected: failedPercent > thresholdPercent,
+  };
+}
+
+/**
+ * Summarises a report in one line, e.g. for a log
+ */
+export function describeQualityReport(report: QualityReport): string {
+  const counts = Object.entries(report.ruleCounts).map(([rule, count]) => `${rule}: ${count}`).join(', ');
+  return `${report.file}: ${report.failedRows} of ${report.rowCount} rows failed quality rules ` +
+    `(${report.failedPercent.toFixed(1)}%)` + (counts ? ` - ${counts}` : '');
+}
+
+interface RowCheck {
+  name: string;
+  column: string | null;
+  test: (row: CsvRow, fieldCount: number) => string | null;
+}
+
+function compileRule(rule: QualityRule, header: string[]): RowCheck | null {
+  const hasColumns = (...columns: string[]) => columns.every(column => header.includes(column));
+
+  switch (rule.type) {
+  case 'field-count':
+    return {
+      name: rule.name,
+      column: null,
+      test: (_row, fieldCount) => fieldCount === header.length
+        ? null
+        : `Expected ${header.length} fields, found ${fieldCount}`,
+    };
+  case 'unique': {
+    if (!hasColumns(rule.column)) return null;
+    const seen = new Set<string>();
+    return {
+      name: rule.name,
+      column: rule.column,
+      test: row => {
+        const value = row[rule.column].trim();
+        if (value === '') return null;
+        if (seen.has(value)) return `Duplicate ${rule.column} ${value}`;
+        seen.add(value);
+        return null;
+      },
+    };
+  }
+  case 'pattern': {
+    if (!hasColumns(rule.column)) return null;
+    const pattern = new RegExp(rule.pattern, rule.flags);
+    return {
+      name: rule.name,
+      column: rule.column,
+      test: row => {
+        const value = row[rule.column].trim();
+        return value === '' || pattern.test(value) ? null : `${rule.column} does not match ${rule.pattern}`;
+      },
+    };
+  }
+  case 'date':
+    if (!hasColumns(rule.column)) return null;
+    return {
+      name: rule.name,
+      column: rule.column,
+      test: row => {
+        const value = row[rule.column].trim();
+        return value === '' || isDate(value, rule.format) ? null : `${rule.column} is not a ${rule.format} date`;
+      },
+    };
+  case 'code-name': {
+    if (!hasColumns(rule.codeColumn, rule.nameColumn)) return null;
+    const names = new Map(Object.entries(rule.codes ?? {}));
+    return {
+      name: rule.name,
+      column: rule.nameColumn,
+      test: row => {
+        const code = row[rule.codeColumn].trim();
+        const name = row[rule.nameColumn].trim();
+        if (code === '') return null;
+        const expected = names.get(code);
+        if (expected === undefined) {
+          names.set(code, name);
+          return null;
+        }
+        return expected === name ? null : `${rule.codeColumn} ${code} should be "${expected}", found "${name}"`;
+      },
+    };
+  }
+  case 'custom':
+    if (rule.column && !hasColumns(rule.column)) return null;
+    return { name: rule.name, column: rule.column ?? null, test: row => rule.check(row) };
+  default:
+    // checkQualityRule has rejected any other type
+    throw new QualityRuleError([`unknown rule type ${JSON.stringify((rule as { type: unknown }).type)}`]);
+  }
+}
+
+function isDate(value: string, dateFormat: string): boolean {
+  const date = parse(value, dateFormat, new Date());
+  return isValid(date) && format(date, dateFormat) === value;
+}
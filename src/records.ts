@@ -0,0 +1,392 @@
+/**
+ * Typed records for the GIAS extracts
+ *
+ * Streams the files written by fetchData as typed objects. Code/name column
+ * pairs such as "LA (code)" and "LA (name)" become a single CodeName field,
+ * dd-MM-yyyy dates become Date values and empty strings become null. Every
+ * record keeps its original columns in `raw` for anything not mapped here.
+ */
+
+import { isValid, parse } from 'date-fns';
+import { readCsvRecords } from './csv';
+
+// Types
+export type CsvRow = Record<string, string>;
+
+export type RecordSource = string | AsyncIterable<Uint8Array>;
+
+export interface CodeName {
+  code: string | null;
+  name: string | null;
+}
+
+interface RawRecord {
+  raw: CsvRow;
+}
+
+export interface Address {
+  street: string | null;
+  locality: string | null;
+  address3: string | null;
+  town: string | null;
+  county: CodeName | null;
+  postcode: string | null;
+}
+
+export interface Establishment extends RawRecord {
+  urn: number;
+  la: CodeName | null;
+  establishmentNumber: number | null;
+  name: string;
+  typeOfEstablishment: CodeName | null;
+  establishmentTypeGroup: CodeName | null;
+  establishmentStatus: CodeName | null;
+  reasonEstablishmentOpened: CodeName | null;
+  openDate: Date | null;
+  reasonEstablishmentClosed: CodeName | null;
+  closeDate: Date | null;
+  phaseOfEducation: CodeName | null;
+  statutoryLowAge: number | null;
+  statutoryHighAge: number | null;
+  boarders: CodeName | null;
+  officialSixthForm: CodeName | null;
+  gender: CodeName | null;
+  religiousCharacter: CodeName | null;
+  diocese: CodeName | null;
+  admissionsPolicy: CodeName | null;
+  schoolCapacity: number | null;
+  numberOfPupils: number | null;
+  trust: CodeName | null;
+  ukprn: number | null;
+  address: Address;
+  website: string | null;
+  telephone: string | null;
+  head: { title: string | null; firstName: string | null; lastName: string | null };
+  gor: CodeName | null;
+  parliamentaryConstituency: CodeName | null;
+  urbanRural: CodeName | null;
+  easting: number | null;
+  northing: number | null;
+  lastChangedDate: Date | null;
+}
+
+export interface EstablishmentLink extends RawRecord {
+  urn: number;
+  linkUrn: number;
+  linkName: string | null;
+  linkType: string;
+  linkEstablishedDate: Date | null;
+}
+
+export interface GroupLink extends RawRecord {
+  urn: number;
+  groupUid: number;
+  groupId: string | null;
+  groupName: string | null;
+  companiesHouseNumber: string | null;
+  groupType: CodeName | null;
+  groupStatus: CodeName | null;
+  closedDate: Date | null;
+  joinedDate: Date | null;
+  establishmentName: string | null;
+  typeOfEstablishment: CodeName | null;
+  phaseOfEducation: CodeName | null;
+  la: CodeName | null;
+}
+
+export type MatMembership = GroupLink;
+
+export interface ChildrensCentre extends RawRecord {
+  urn: number;
+  la: CodeName | null;
+  name: string;
+  typeOfEstablishment: CodeName | null;
+  establishmentStatus: CodeName | null;
+  openDate: Date | null;
+  lastChangedDate: Date | null;
+  address: Address;
+  website: string | null;
+  telephone: string | null;
+  head: { firstName: string | null; lastName: string | null };
+  gor: CodeName | null;
+  // Only present in extracts that carry the grid reference columns
+  easting: number | null;
+  northing: number | null;
+}
+
+export interface GovernanceRecord extends RawRecord {
+  gid: string;
+  role: string;
+  urn: number | null;
+  la: CodeName | null;
+  establishmentName: string | null;
+  groupUid: number | null;
+  groupName: string | null;
+  companiesHouseNumber: string | null;
+  title: string | null;
+  forename1: string | null;
+  forename2: string | null;
+  surname: string | null;
+  appointingBody: string | null;
+  dateOfAppointment: Date | null;
+  dateTermOfOfficeEnds: Date | null;
+}
+
+export type RecordParser<T> = (row: CsvRow) => T;
+
+/**
+ * Raised when a row lacks a value the record type cannot do without
+ */
+export class RecordParseError extends Error {
+  constructor(public readonly column: string, public readonly row: CsvRow) {
+    super(`Missing or invalid value for ${column}`);
+    this.name = 'RecordParseError';
+  }
+}
+
+/**
+ * Returns the trimmed value, or null when it is empty or the column is absent
+ */
+export function textField(row: CsvRow, column: string): string | null {
+  const value = row[column]?.trim();
+  return value ? value : null;
+}
+
+/**
+ * Parses an integer column, returning null for empty or non-numeric values
+ */
+export function integerField(row: CsvRow, column: string): number | null {
+  const value = textField(row, column);
+  if (value === null || !/^-?\d+$/.test(value)) return null;
+  return Number(value);
+}
+
+/**
+ * Parses a GIAS dd-MM-yyyy date as local midnight, returning null when empty or invalid
+ */
+export function dateField(row: CsvRow, column: string): Date | null {
+  const value = textField(row, column);
+  if (value === null) return null;
+  const date = parse(value, 'dd-MM-yyyy', new Date());
+  return isValid(date) ? date : null;
+}
+
+/**
+ * Combines a "X (code)" / "X (name)" column pair. Some files name the second
+ * column plainly, e.g. "Group Type", which can be passed as nameColumn.
+ */
+export function codeNameField(row: CsvRow, column: string, nameColumn = `${column} (name)`): CodeName | null {
+  const code = textField(row, `${column} (code)`);
+  const name = textField(row, nameColumn);
+  return code === null && name === null ? null : { code, name };
+}
+
+function requiredText(row: CsvRow, column: string): string {
+  const value = textField(row, column);
+  if (value === null) throw new RecordParseError(column, row);
+  return value;
+}
+
+function requiredInteger(row: CsvRow, column: string): number {
+  const value = integerField(row, column);
+  if (value === null) throw new RecordParseError(column, row);
+  return value;
+}
+
+function address(row: CsvRow): Address {
+  return {
+    street: textField(row, 'Street'),
+    locality: textField(row, 'Locality'),
+    address3: textField(row, 'Address3'),
+    town: textField(row, 'Town'),
+    county: codeNameField(row, 'County'),
+    postcode: textField(row, 'Postcode'),
+  };
+}
+
+/**
+ * Maps a row of the edubasealldata, edubaseallstatefunded or edubaseallacademiesandfree extracts
+ */
+export function parseEstablishment(row: CsvRow): Establishment {
+  return {
+    urn: requiredInteger(row, 'URN'),
+    la: codeNameField(row, 'LA'),
+    establishmentNumber: integerField(row, 'EstablishmentNumber'),
+    name: requiredText(row, 'EstablishmentName'),
+    typeOfEstablishment: codeNameField(row, 'TypeOfEstablishment'),
+    establishmentTypeGroup: codeNameField(row, 'EstablishmentTypeGroup'),
+    establishmentStatus: codeNameField(row, 'EstablishmentStatus'),
+    reasonEstablishmentOpened: codeNameField(row, 'ReasonEstablishmentOpened'),
+    openDate: dateField(row, 'OpenDate'),
+    reasonEstablishmentClosed: codeNameField(row, 'ReasonEstablishmentClosed'),
+    closeDate: dateField(row, 'CloseDate'),
+    phaseOfEducation: codeNameField(row, 'PhaseOfEducation'),
+    statutoryLowAge: integerField(row, 'StatutoryLowAge'),
+    statutoryHighAge: integerField(row, 'StatutoryHighAge'),
+    boarders: codeNameField(row, 'Boarders'),
+    officialSixthForm: codeNameField(row, 'OfficialSixthForm'),
+    gender: codeNameField(row, 'Gender'),
+    religiousCharacter: codeNameField(row, 'ReligiousCharacter'),
+    diocese: codeNameField(row, 'Diocese'),
+    admissionsPolicy: codeNameField(row, 'AdmissionsPolicy'),
+    schoolCapacity: integerField(row, 'SchoolCapacity'),
+    numberOfPupils: integerField(row, 'NumberOfPupils'),
+    trust: codeNameField(row, 'Trusts'),
+    ukprn: integerField(row, 'UKPRN'),
+    address: address(row),
+    website: textField(row, 'SchoolWebsite'),
+    telephone: textField(row, 'TelephoneNum'),
+    head: {
+      title: textField(row, 'HeadTitle (name)'),
+      firstName: textField(row, 'HeadFirstName'),
+      lastName: textField(row, 'HeadLastName'),
+    },
+    gor: codeNameField(row, 'GOR'),
+    parliamentaryConstituency: codeNameField(row, 'ParliamentaryConstituency'),
+    urbanRural: codeNameField(row, 'UrbanRural'),
+    easting: integerField(row, 'Easting'),
+    northing: integerField(row, 'Northing'),
+    lastChangedDate: dateField(row, 'LastChangedDate'),
+    raw: row,
+  };
+}
+
+/**
+ * Maps a row of the links_* extracts
+ */
+export function parseEstablishmentLink(row: CsvRow): EstablishmentLink {
+  return {
+    urn: requiredInteger(row, 'URN'),
+    linkUrn: requiredInteger(row, 'LinkURN'),
+    linkName: textField(row, 'LinkName'),
+    linkType: requiredText(row, 'LinkType'),
+    linkEstablishedDate: dateField(row, 'LinkEstablishedDate'),
+    raw: row,
+  };
+}
+
+/**
+ * Maps a row of the grouplinks extract; the MAT membership extract shares its layout
+ */
+export function parseGroupLink(row: CsvRow): GroupLink {
+  return {
+    urn: requiredInteger(row, 'URN'),
+    groupUid: requiredInteger(row, 'Group UID'),
+    groupId: textField(row, 'Group ID'),
+    groupName: textField(row, 'Group Name'),
+    companiesHouseNumber: textField(row, 'Companies House Number'),
+    groupType: codeNameField(row, 'Group Type', 'Group Type'),
+    groupStatus: codeNameField(row, 'Group Status', 'Group Status'),
+    closedDate: dateField(row, 'Closed Date'),
+    joinedDate: dateField(row, 'Joined date'),
+    establishmentName: textField(row, 'EstablishmentName'),
+    typeOfEstablishment: codeNameField(row, 'TypeOfEstablishment'),
+    phaseOfEducation: codeNameField(row, 'PhaseOfEducation'),
+    la: codeNameField(row, 'LA'),
+    raw: row,
+  };
+}
+
+export const parseMatMembership: RecordParser<MatMembership> = parseGroupLink;
+
+/**
+ * Maps a row of the children's centre extract
+ */
+export function parseChildrensCentre(row: CsvRow): ChildrensCentre {
+  return {
+    urn: requiredInteger(row, 'URN'),
+    la: codeNameField(row, 'LA'),
+    name: requiredText(row, 'EstablishmentName'),
+    typeOfEstablishment: codeNameField(row, 'TypeOfEstablishment'),
+    establishmentStatus: codeNameField(row, 'EstablishmentStatus'),
+    openDate: dateField(row, 'OpenDate'),
+    lastChangedDate: dateField(row, 'LastChangedDate'),
+    address: address(row),
+    website: textField(row, 'SchoolWebsite'),
+    telephone: textField(row, 'TelephoneNum'),
+    head: { firstName: textField(row, 'HeadFirstName'), lastName: textField(row, 'HeadLastName') },
+    gor: codeNameField(row, 'GOR'),
+    easting: integerField(row, 'Easting'),
+    northing: integerField(row, 'Northing'),
+    raw: row,
+  };
+}
+
+/**
+ * Maps a row of any of the governance extracts. Establishment and group
+ * columns are only present in some of them.
+ */
+export function parseGovernanceRecord(row: CsvRow): GovernanceRecord {
+  return {
+    gid: requiredText(row, 'GID'),
+    role: requiredText(row, 'Role'),
+    urn: integerField(row, 'URN'),
+    la: codeNameField(row, 'LA'),
+    establishmentName: textField(row, 'Establishment Name') ?? textField(row, 'EstablishmentName'),
+    groupUid: integerField(row, 'Group UID'),
+    groupName: textField(row, 'Group Name'),
+    companiesHouseNumber: textField(row, 'Companies House Number'),
+    title: textField(row, 'Title'),
+    forename1: textField(row, 'Forename 1'),
+    forename2: textField(row, 'Forename 2'),
+    surname: textField(row, 'Surname'),
+    appointingBody: textField(row, 'Appointing body'),
+    dateOfAppointment: dateField(row, 'Date of appointment'),
+    dateTermOfOfficeEnds: dateField(row, 'Date term of office ends/ended'),
+    raw: row,
+  };
+}
+
+/**
+ * Streams the rows of a CSV file or byte stream as objects keyed by header
+ */
+export async function* readRows(source: RecordSource): AsyncGenerator<CsvRow> {
+  let header: string[] | null = null;
+
+  for await (const record of readCsvRecords(source)) {
+    if (!header) {
+      header = record.map(column => column.trim());
+      continue;
+    }
+    const row: CsvRow = {};
+    header.forEach((column, index) => {
+      row[column] = record[index] ?? '';
+    });
+    yield row;
+  }
+}
+
+/**
+ * Streams the rows of a CSV file through a record parser
+ */
+export async function* readRecords<T>(source: RecordSource, parser: RecordParser<T>): AsyncGenerator<T> {
+  for await (const row of readRows(source)) {
+    yield parser(row);
+  }
+}
+
+export const readEstablishments = (source: RecordSource) => readRecords(source, parseEstablishment);
+export const readEstablishmentLinks = (source: RecordSource) => readRecords(source, parseEstablishmentLink);
+export const readGroupLinks = (source: RecordSource) => readRecords(source, parseGroupLink);
+export const readMatMemberships = (source: RecordSource) => readRecords(source, parseMatMembership);
+export const readChildrensCentres = (source: RecordSource) => readRecords(source, parseChildrensCentre);
+export const readGovernanceRecords = (source: RecordSource) => readRecords(source, parseGovernanceRecord);
+
+/**
+ * The record parser for each file in DEFAULT_URL_TEMPLATES, keyed by output file
+ */
+export const RECORD_PARSERS = {
+  'edubasealldata.csv': parseEstablishment,
+  'edubaseallstatefunded.csv': parseEstablishment,
+  'edubaseallacademiesandfree.csv': parseEstablishment,
+  'links_edubasealldata.csv': parseEstablishmentLink,
+  'links_edubaseallstatefunded.csv': parseEstablishmentLink,
+  'links_edubaseallacademiesandfree.csv': parseEstablishmentLink,
+  'grouplinks_edubaseallacademiesandfree.csv': parseGroupLink,
+  'edubaseallchildrencentre.csv': parseChildrensCentre,
+  'academiesmatmembership.csv': parseMatMembership,
+  'governancealldata.csv': parseGovernanceRecord,
+  'governancematdata.csv': parseGovernanceRecord,
+  'governanceacaddata.csv': parseGovernanceRecord,
+  'governanceladata.csv': parseGovernanceRecord,
+} as const;
@@ -0,0 +1,412 @@
+/**
+ * Run reporting
+ *
+ * The fetcher describes what it is doing as a stream of typed events. A
+ * reporter decides what to do with them: print them for a person, write them
+ * as JSON lines for other tools, or annotate a GitHub Actions run.
+ */
+
+import { appendFileSync } from 'fs';
+import * as path from 'path';
+import type { BackfillReport } from './backfill';
+import type { DownloadResult } from './fetch-data';
+import { describeViolation, IntegrityViolation } from './integrity';
+import { describePrivacyFilter, PrivacyFilterResult } from './privacy';
+import { describeQualityReport, QualityReport } from './quality';
+import { ColumnDrift, describeColumnDrift } from './schema';
+
+// Types
+export type FetchEvent =
+  | { type: 'download-started'; file: string; url: string }
+  | { type: 'retry'; file: string; url: string; attempt: number; retries: number; delayMs: number }
+  | { type: 'date-fallback'; file: string; date: string }
+  | { type: 'not-modified'; file: string }
+  | { type: 'http-error'; file: string; url: string; status: number; statusText: string; transient: boolean }
+  | { type: 'validation-failed'; file: string; reason: string }
+  | { type: 'column-drift'; file: string; drift: ColumnDrift; blocked: boolean }
+  | { type: 'size-warning'; file: string; message: string }
+  | { type: 'unchanged'; file: string }
+  | { type: 'saved'; file: string; bytes: number; rowCount: number; encoding: string }
+  | { type: 'download-failed'; file: string; url: string; reason: string; transient: boolean }
+  | { type: 'cleanup-failed'; file: string; message: string }
+  | { type: 'skipped'; file: string; reason: string }
+  | { type: 'warning'; message: string; file?: string }
+  | { type: 'manifest-written'; path: string }
+  | { type: 'change-report-written'; paths: string[] }
+  | { type: 'published'; outputDir: string; files: string[] }
+  | { type: 'quality-issues'; file: string; report: QualityReport }
+  | { type: 'integrity-violation'; violation: IntegrityViolation }
+  | { type: 'publish-aborted'; missingRequired: string[]; failedRules: string[]; withheldFiles: string[] }
+  | { type: 'archived'; file: string; path: string }
+  | { type: 'archive-pruned'; archiveDir: string; removed: string[] }
+  | { type: 'stored'; file: string; paths: string[] }
+  | { type: 'sqlite-exported'; path: string; rebuilt: string[]; unchanged: string[] }
+  | { type: 'privacy-filtered'; result: PrivacyFilterResult }
+  | { type: 'backfill-date-skipped'; date: string }
+  | { type: 'backfill-summary'; path: string; report: BackfillReport }
+  | { type: 'summary'; result: DownloadResult };
+
+export type FetchEventType = FetchEvent['type'];
+
+export interface Reporter {
+  report(event: FetchEvent): void;
+}
+
+export interface ConsoleReporterOptions {
+  // Send every message to stderr, e.g. when stdout carries JSON
+  stderr?: boolean;
+}
+
+export interface GitHubActionsReporterOptions extends ConsoleReporterOptions {
+  // Receives each workflow command line; defaults to stdout
+  write?: (line: string) => void;
+  // File the job summary is appended to; defaults to $GITHUB_STEP_SUMMARY
+  summaryPath?: string;
+  // Directory the files named in events are in, so annotations can give their repository path
+  outputDir?: string;
+}
+
+export type ReporterName = 'console' | 'json' | 'github';
+
+export const REPORTER_NAMES: ReporterName[] = ['console', 'json', 'github'];
+
+/**
+ * Discards every event. Useful when the fetcher is used as a library.
+ */
+export const silentReporter: Reporter = {
+  report: () => undefined,
+};
+
+/**
+ * Prints events as the human-readable messages the fetcher has always logged
+ */
+export class ConsoleReporter implements Reporter {
+  constructor(private readonly options: ConsoleReporterOptions = {}) {}
+
+  report(event: FetchEvent): void {
+    switch (event.type) {
+    case 'download-started':
+      this.log(`Attempting to download ${event.url}`);
+      break;
+    case 'retry':
+      this.log(`Retrying ${event.url} in ${event.delayMs}ms (attempt ${event.attempt} of ${event.retries})`);
+      break;
+    case 'date-fallback':
+      this.log(`Falling back to ${event.date} for ${event.file}`);
+      break;
+    case 'not-modified':
+      this.log(`Not modified since last download: ${event.file}`);
+      break;
+    case 'http-error':
+      this.error(`HTTP error! Status: ${event.status} - ${event.statusText}`);
+      break;
+    case 'validation-failed':
+      this.error(event.reason);
+      break;
+    case 'column-drift':
+      this.log(describeColumnDrift(event.file, event.drift));
+      if (event.blocked) {
+        this.error(`Column drift detected in ${event.file} - keeping existing file`);
+      }
+      break;
+    case 'size-warning':
+      this.log(event.message);
+      break;
+    case 'unchanged':
+      this.log(`Content unchanged: ${event.file}`);
+      break;
+    case 'saved':
+      this.log(`Successfully validated and saved ${event.file}`);
+      break;
+    case 'download-failed':
+      this.log(event.reason);
+      break;
+    case 'cleanup-failed':
+      this.error(`Error cleaning up temp file: ${event.message}`);
+      break;
+    case 'skipped':
+      // Listed in the summary instead
+      break;
+    case 'warning':
+      this.error(event.message);
+      break;
+    case 'manifest-written':
+      this.log(`Updated manifest ${event.path}`);
+      break;
+    case 'change-report-written':
+      this.log(`Wrote change report ${event.paths.join(', ')}`);
+      break;
+    case 'published':
+      this.log(`Published ${event.files.length} staged files to ${event.outputDir}`);
+      break;
+    case 'archived':
+      this.log(`Archived ${event.file} to ${event.path}`);
+      break;
+    case 'archive-pruned':
+      this.log(`Pruned ${event.removed.length} snapshots from ${event.archiveDir}: ${event.removed.join(', ')}`);
+      break;
+    case 'stored':
+      if (event.paths.length > 0) {
+        this.log(`Stored ${event.file} as ${event.paths.map(storedPath => path.basename(storedPath)).join(', ')}`);
+      }
+      break;
+    case 'sqlite-exported':
+      this.log(`Updated ${event.path}: ${event.rebuilt.length} tables rebuilt, ${event.unchanged.length} unchanged`);
+      break;
+    case 'privacy-filtered':
+      this.log(describePrivacyFilter(event.result));
+      break;
+    case 'backfill-date-skipped':
+      this.log(`All files already present for ${event.date}`);
+      break;
+    case 'backfill-summary':
+      this.printBackfillSummary(event.report, event.path);
+      break;
+    case 'quality-issues':
+      this.log(describeQualityReport(event.report));
+      break;
+    case 'integrity-violation':
+      if (event.violation.severity === 'error') {
+        this.error(describeViolation(event.violation));
+      } else {
+        this.log(describeViolation(event.violation));
+      }
+      break;
+    case 'publish-aborted':
+      this.error(`${describeAbort(event.missingRequired, event.failedRules)} - keeping the existing files`);
+      break;
+    case 'summary':
+      this.printSummary(event.result);
+      break;
+    }
+  }
+
+  private printSummary(result: DownloadResult): void {
+    this.log('=== Download Summary ===');
+    this.log(`Successfully downloaded: ${result.downloadedFiles.length} files`);
+    this.log(`Unchanged files: ${result.unchangedFiles.length} files`);
+    this.log(`Skipped files: ${result.skippedFiles.length} files`);
+
+    this.log('=== Successfully Downloaded Files ===');
+    result.downloadedFiles.forEach(file => this.log(`Downloaded: ${file}`));
+
+    if (result.fileSizeWarnings.length > 0) {
+      this.log('=== File Size Change Warnings ===');
+      result.fileSizeWarnings.forEach(warning => this.log(warning));
+    }
+
+    if (result.columnDrift.length > 0) {
+      this.log('=== Column Drift ===');
+      result.columnDrift.forEach(drift => {
+        this.log(describeColumnDrift(drift.file, drift) + (drift.blocked ? ' [blocked]' : ''));
+      });
+    }
+
+    if (result.recordChanges.length > 0) {
+      this.log('=== Record Changes ===');
+      result.recordChanges.forEach(changes => {
+        this.log(`${changes.file}: ${changes.added.length} added, ${changes.removed.length} removed, ` +
+          `${changes.modified.length} modified`);
+      });
+    }
+
+    this.log('=== Skipped Files ===');
+    result.skippedFiles.forEach(file => this.log(`Skipped: ${file}`));
+
+    const qualityIssues = result.qualityReports.filter(report => report.failedRows > 0);
+    if (qualityIssues.length > 0) {
+      this.log('=== Data Quality ===');
+      qualityIssues.forEach(report => this.log(describeQualityReport(report) + (report.rejected ? ' [rejected]' : '')));
+    }
+
+    if (result.integrity && result.integrity.violations.length > 0) {
+      this.log('=== Integrity Violations ===');
+      result.integrity.violations.forEach(violation => {
+        this.log(describeViolation(violation) + (violation.severity === 'error' ? ' [error]' : ''));
+      });
+    }
+
+    if (result.withheldFiles.length > 0) {
+      this.log('=== Withheld Files ===');
+      result.withheldFiles.forEach(file => this.log(`Withheld: ${file}`));
+    }
+  }
+
+  private printBackfillSummary(report: BackfillReport, reportPath: string): void {
+    const count = (status: string) => report.entries.filter(entry => entry.status === status).length;
+    this.log('=== Backfill Summary ===');
+    this.log(`Dates: ${report.from} to ${report.to}`);
+    this.log(`Downloaded: ${count('downloaded')}, already present: ${count('existing')}, missing: ${count('missing')}`);
+    report.entries
+      .filter(entry => entry.status === 'missing')
+      .forEach(entry => this.log(`Missing: ${entry.date} ${entry.file}`));
+    this.log(`Wrote backfill report ${reportPath}`);
+  }
+
+  private log(message: string): void {
+    if (this.options.stderr) {
+      console.error(message);
+    } else {
+      console.log(message);
+    }
+  }
+
+  private error(message: string): void {
+    console.error(message);
+  }
+}
+
+/**
+ * Writes each event as one JSON object per line, stamped with the time it was reported
+ */
+export class JsonLinesReporter implements Reporter {
+  constructor(private readonly write: (line: string) => void = line => process.stdout.write(line)) {}
+
+  report(event: FetchEvent): void {
+    this.write(JSON.stringify({ time: new Date().toISOString(), ...event }) + '\n');
+  }
+}
+
+/**
+ * Prints the console messages, raises warning annotations for anything that
+ * needs attention and appends a Markdown summary to the job summary
+ */
+export class GitHubActionsReporter implements Reporter {
+  private readonly console: ConsoleReporter;
+  private readonly write: (line: string) => void;
+  private readonly summaryPath: string | undefined;
+  private readonly outputDir: string | undefined;
+
+  constructor(options: GitHubActionsReporterOptions = {}) {
+    this.console = new ConsoleReporter(options);
+    this.write = options.write ?? (line => process.stdout.write(line));
+    this.summaryPath = options.summaryPath ?? process.env.GITHUB_STEP_SUMMARY;
+    this.outputDir = options.outputDir;
+  }
+
+  report(event: FetchEvent): void {
+    this.console.report(event);
+
+    switch (event.type) {
+    case 'size-warning':
+      this.annotate(event.file, 'File size changed', event.message);
+      break;
+    case 'column-drift':
+      this.annotate(event.file, 'Column drift', describeColumnDrift(event.file, event.drift) +
+          (event.blocked ? ' - existing file kept' : ''));
+      break;
+    case 'skipped':
+      this.annotate(event.file, 'File skipped', event.reason);
+      break;
+    case 'warning':
+      this.annotate(event.file, 'Warning', event.message);
+      break;
+    case 'quality-issues':
+      this.annotate(event.file, 'Data quality', describeQualityReport(event.report));
+      break;
+    case 'integrity-violation':
+      this.annotate(event.violation.file, 'Integrity violation', describeViolation(event.violation),
+        event.violation.severity === 'error' ? 'error' : 'warning');
+      break;
+    case 'publish-aborted':
+      this.annotate(undefined, 'Nothing published', describeAbort(event.missingRequired, event.failedRules), 'error');
+      break;
+    case 'summary':
+      if (this.summaryPath) {
+        appendFileSync(this.summaryPath, renderSummaryMarkdown(event.result));
+      }
+      break;
+    }
+  }
+
+  private annotate(
+    file: string | undefined,
+    title: string,
+    message: string,
+    level: 'warning' | 'error' = 'warning'
+  ): void {
+    // GitHub links an annotation to a file by its path from the repository root, where the workflow runs
+    const filePath = file && this.outputDir ? path.relative(process.cwd(), path.join(this.outputDir, file)) : file;
+    const properties = [filePath ? `file=${escapeProperty(filePath)}` : null, `title=${escapeProperty(title)}`]
+      .filter(property => property !== null)
+      .join(',');
+    this.write(`::${level} ${properties}::${escapeData(message)}\n`);
+  }
+}
+
+/**
+ * Renders a download result as a Markdown table for the job summary
+ */
+export function renderSummaryMarkdown(result: DownloadResult): string {
+  const lines = [
+    '## GIAS data fetch',
+    '',
+    `Downloaded: ${result.downloadedFiles.length}, unchanged: ${result.unchangedFiles.length}, ` +
+      `skipped: ${result.skippedFiles.length}`,
+    '',
+    '| File | Status |',
+    '| --- | --- |',
+  ];
+
+  result.downloadedFiles.forEach(file => lines.push(`| ${path.basename(file)} | downloaded |`));
+  result.unchangedFiles.forEach(file => lines.push(`| ${file} | unchanged |`));
+  result.skippedFiles.forEach(file => lines.push(`| ${file} | skipped |`));
+  result.withheldFiles.forEach(file => lines.push(`| ${file} | withheld |`));
+
+  const warnings = [
+    ...result.fileSizeWarnings,
+    ...result.columnDrift.map(drift => describeColumnDrift(drift.file, drift) + (drift.blocked ? ' [blocked]' : '')),
+    ...result.qualityReports
+      .filter(report => report.failedRows > 0)
+      .map(report => describeQualityReport(report) + (report.rejected ? ' [rejected]' : '')),
+    ...(result.integrity?.violations ?? []).map(violation =>
+      describeViolation(violation) + (violation.severity === 'error' ? ' [error]' : '')),
+  ];
+  if (warnings.length > 0) {
+    lines.push('', '### Warnings', '');
+    warnings.forEach(warning => lines.push(`- ${warning}`));
+  }
+
+  lines.push('');
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Creates a reporter by name. Output that would normally go to stdout can be
+ * moved to stderr so stdout stays free for other output.
+ */
+export function createReporter(
+  name: ReporterName,
+  options: { stderr?: boolean; outputDir?: string } = {}
+): Reporter {
+  const stream = options.stderr ? process.stderr : process.stdout;
+  switch (name) {
+  case 'json':
+    return new JsonLinesReporter(line => stream.write(line));
+  case 'github':
+    return new GitHubActionsReporter({
+      stderr: options.stderr,
+      outputDir: options.outputDir,
+      write: line => stream.write(line),
+    });
+  default:
+    return new ConsoleReporter({ stderr: options.stderr });
+  }
+}
+
+function describeAbort(missingRequired: string[], failedRules: string[]): string {
+  const reasons = [
+    missingRequired.length > 0 ? `Required files not available: ${missingRequired.join(', ')}` : null,
+    failedRules.length > 0 ? `Integrity checks failed: ${failedRules.join(', ')}` : null,
+  ];
+  return reasons.filter(reason => reason !== null).join('; ');
+}
+
+// Workflow command escaping, as done by @actions/core
+function escapeData(value: string): string {
+  return value.replace(/%/g, '%25').replace(/\r/g, '%0D').replace(/\n/g, '%0A');
+}
+
+function escapeProperty(value: string): string {
+  return escapeData(value).replace(/:/g, '%3A').replace(/,/g, '%2C');
+}
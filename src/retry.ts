@@ -0,0 +1,38 @@
+/**
+ * Retry helpers
+ *
+ * Classifies download failures as transient or permanent and computes the
+ * exponential backoff used between attempts.
+ */
+
+import { QualityRuleError } from './quality';
+import { DownloadLimitError } from './stream';
+
+/**
+ * HTTP statuses worth retrying: server errors, request timeouts and rate limiting
+ */
+export function isTransientStatus(status: number): boolean {
+  return status >= 500 || status === 408 || status === 429;
+}
+
+/**
+ * Network failures and timeouts are transient; size limit breaches, malformed
+ * quality rules and local file system errors are not
+ */
+export function isTransientError(error: unknown): boolean {
+  if (error instanceof DownloadLimitError) return false;
+  if (error instanceof QualityRuleError) return false;
+  if (error instanceof Error && 'syscall' in error) return false;
+  return true;
+}
+
+/**
+ * Delay before the given retry attempt (1-based), doubling each time
+ */
+export function backoffDelay(attempt: number, baseDelayMs: number): number {
+  return baseDelayMs * 2 ** (attempt - 1);
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
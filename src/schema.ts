@@ -0,0 +1,138 @@
+/**
+ * Schema contracts
+ *
+ * Describes the columns each GIAS extract is expected to carry, so that a
+ * download with the wrong or a truncated header is rejected before it
+ * replaces the stored copy.
+ */
+
+import { extractHeader } from './csv';
+import {
+  CHILDRENS_CENTRE_QUALITY_RULES,
+  ESTABLISHMENT_QUALITY_RULES,
+  GOVERNANCE_QUALITY_RULES,
+  GROUP_LINKS_QUALITY_RULES,
+  LINKS_QUALITY_RULES,
+  QualityRule,
+} from './quality';
+
+// Types
+export interface FileSchema {
+  requiredColumns: string[];
+  // Columns that together identify a record, used for record-level comparisons
+  keyColumns?: string[];
+  // Row-level rules checked once the whole file has downloaded
+  qualityRules?: QualityRule[];
+}
+
+export interface HeaderValidationResult {
+  isValid: boolean;
+  reason?: string;
+  header: string[];
+  missingColumns: string[];
+}
+
+export interface ColumnDrift {
+  added: string[];
+  removed: string[];
+  reordered: string[];
+}
+
+// Schema definitions for the GIAS datasets
+export const ESTABLISHMENT_SCHEMA: FileSchema = {
+  requiredColumns: ['URN', 'LA (code)', 'LA (name)', 'EstablishmentName'],
+  keyColumns: ['URN'],
+  qualityRules: ESTABLISHMENT_QUALITY_RULES,
+};
+
+export const LINKS_SCHEMA: FileSchema = {
+  requiredColumns: ['URN', 'LinkURN', 'LinkType'],
+  keyColumns: ['URN', 'LinkURN', 'LinkType'],
+  qualityRules: LINKS_QUALITY_RULES,
+};
+
+export const GROUP_LINKS_SCHEMA: FileSchema = {
+  requiredColumns: ['URN', 'Group UID'],
+  keyColumns: ['URN', 'Group UID'],
+  qualityRules: GROUP_LINKS_QUALITY_RULES,
+};
+
+export const CHILDRENS_CENTRE_SCHEMA: FileSchema = {
+  requiredColumns: ['URN', 'LA (code)', 'EstablishmentName'],
+  keyColumns: ['URN'],
+  qualityRules: CHILDRENS_CENTRE_QUALITY_RULES,
+};
+
+export const MAT_MEMBERSHIP_SCHEMA: FileSchema = {
+  requiredColumns: ['URN', 'Group UID'],
+  keyColumns: ['URN', 'Group UID'],
+  qualityRules: GROUP_LINKS_QUALITY_RULES,
+};
+
+export const GOVERNANCE_SCHEMA: FileSchema = {
+  requiredColumns: ['GID', 'Role'],
+  qualityRules: GOVERNANCE_QUALITY_RULES,
+};
+
+/**
+ * Checks that the header row of the content contains every column required
+ * by the schema
+ */
+export function validateHeader(content: string, schema: FileSchema): HeaderValidationResult {
+  const header = extractHeader(content);
+
+  if (header.length === 0) {
+    return {
+      isValid: false,
+      reason: 'Content has no header row',
+      header,
+      missingColumns: [...schema.requiredColumns],
+    };
+  }
+
+  const missingColumns = schema.requiredColumns.filter(column => !header.includes(column));
+  if (missingColumns.length > 0) {
+    return {
+      isValid: false,
+      reason: `Header is missing required columns: ${missingColumns.join(', ')}`,
+      header,
+      missingColumns,
+    };
+  }
+
+  return { isValid: true, header, missingColumns };
+}
+
+/**
+ * Compares the header of the stored file with the header of a new download.
+ * A renamed column shows up as one removed and one added column.
+ */
+export function detectColumnDrift(previousHeader: string[], currentHeader: string[]): ColumnDrift {
+  const added = currentHeader.filter(column => !previousHeader.includes(column));
+  const removed = previousHeader.filter(column => !currentHeader.includes(column));
+
+  // Compare the relative order of the columns present in both headers
+  const previousCommon = previousHeader.filter(column => currentHeader.includes(column));
+  const currentCommon = currentHeader.filter(column => previousHeader.includes(column));
+  const reordered = currentCommon.filter((column, index) => previousCommon[index] !== column);
+
+  return { added, removed, reordered };
+}
+
+/**
+ * Returns true when the drift contains any added, removed or reordered column
+ */
+export function hasColumnDrift(drift: ColumnDrift): boolean {
+  return drift.added.length > 0 || drift.removed.length > 0 || drift.reordered.length > 0;
+}
+
+/**
+ * Formats a drift as a single human readable line
+ */
+export function describeColumnDrift(fileName: string, drift: ColumnDrift): string {
+  const parts: string[] = [];
+  if (drift.added.length > 0) parts.push(`added: ${drift.added.join(', ')}`);
+  if (drift.removed.length > 0) parts.push(`removed: ${drift.removed.join(', ')}`);
+  if (drift.reordered.length > 0) parts.push(`reordered: ${drift.reordered.join(', ')}`);
+  return `WARNING: File ${fileName} has column changes (${parts.join('; ')})`;
+}
@@ -0,0 +1,393 @@
+/**
+ * Local read-only HTTP API
+ *
+ * Serves the extracts that fetchData maintains in its output directory as
+ * JSON, so other services can look up establishments without downloading and
+ * parsing the CSVs themselves. The files are loaded into memory once and
+ * loaded again whenever a run replaces them.
+ *
+ *   GET /                              Snapshot status and record counts
+ *   GET /establishments                ?la= &status= &postcode= &name= &type= &phase=
+ *   GET /establishments/:urn
+ *   GET /establishments/:urn/links
+ *   GET /trusts/:uid/members
+ *   GET /childrens-centres             ?la= &status= &postcode= &name=
+ *   GET /childrens-centres/:urn
+ *
+ * Lists take ?page= and ?pageSize=, and every endpoint takes ?fields=a,b to
+ * return only those fields of each record.
+ */
+
+import { FSWatcher, watch } from 'fs';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { format } from 'date-fns';
+import {
+  Address,
+  ChildrensCentre,
+  CodeName,
+  Establishment,
+  EstablishmentLink,
+  GroupLink,
+  readChildrensCentres,
+  readEstablishmentLinks,
+  readEstablishments,
+  readGroupLinks,
+  readMatMemberships,
+  RecordSource,
+} from './records';
+import { hasStoredFile, openStoredFile } from './storage';
+
+// Types
+export interface Snapshot {
+  loadedAt: Date;
+  // Files found in the data directory
+  files: string[];
+  establishments: Map<number, Establishment>;
+  links: Map<number, EstablishmentLink[]>;
+  groupMembers: Map<number, GroupLink[]>;
+  childrensCentres: Map<number, ChildrensCentre>;
+}
+
+export interface ApiServerOptions {
+  dataDir: string;
+  port?: number;
+  host?: string;
+  // Load the files again when they change on disk
+  watch?: boolean;
+  // Quiet time after the last change before loading, so a run can finish replacing its files
+  reloadDelayMs?: number;
+  log?: (message: string) => void;
+}
+
+export interface Page<T> {
+  page: number;
+  pageSize: number;
+  total: number;
+  items: T[];
+}
+
+export const SNAPSHOT_FILES = {
+  establishments: 'edubasealldata.csv',
+  links: 'links_edubasealldata.csv',
+  groupLinks: 'grouplinks_edubaseallacademiesandfree.csv',
+  matMembership: 'academiesmatmembership.csv',
+  childrensCentres: 'edubaseallchildrencentre.csv',
+};
+
+export const DEFAULT_PORT = 3000;
+export const DEFAULT_HOST = '127.0.0.1';
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 1000;
+
+const DEFAULT_RELOAD_DELAY_MS = 1000;
+
+/**
+ * Raised for a request the API cannot answer, carrying the HTTP status to send
+ */
+export class ApiError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+/**
+ * Loads the files the API serves from a data directory. Missing files load
+ * as empty, so the API also works over a partial set.
+ */
+export async function loadSnapshot(dataDir: string): Promise<Snapshot> {
+  const files: string[] = [];
+  const read = async <T>(fileName: string, reader: (source: RecordSource) => AsyncIterable<T>): Promise<T[]> => {
+    if (!(await hasStoredFile(dataDir, fileName))) return [];
+    files.push(fileName);
+    const records: T[] = [];
+    for await (const record of reader(openStoredFile(dataDir, fileName))) {
+      records.push(record);
+    }
+    return records;
+  };
+
+  const establishments = await read(SNAPSHOT_FILES.establishments, readEstablishments);
+  const links = await read(SNAPSHOT_FILES.links, readEstablishmentLinks);
+  const members = [
+    ...await read(SNAPSHOT_FILES.groupLinks, readGroupLinks),
+    ...await read(SNAPSHOT_FILES.matMembership, readMatMemberships),
+  ];
+  const childrensCentres = await read(SNAPSHOT_FILES.childrensCentres, readChildrensCentres);
+
+  // Both membership files can list the same academy in the same trust
+  const groupMembers = new Map<number, GroupLink[]>();
+  members.forEach(member => {
+    const list = groupMembers.get(member.groupUid) ?? [];
+    if (!list.some(existing => existing.urn === member.urn)) {
+      list.push(member);
+    }
+    groupMembers.set(member.groupUid, list);
+  });
+
+  return {
+    loadedAt: new Date(),
+    files,
+    establishments: new Map(establishments.map(establishment => [establishment.urn, establishment])),
+    links: groupBy(links, link => link.urn),
+    groupMembers,
+    childrensCentres: new Map(childrensCentres.map(centre => [centre.urn, centre])),
+  };
+}
+
+/**
+ * Answers a GET request against a snapshot. Returns the body to send as
+ * JSON, or throws an ApiError.
+ */
+export function handleRequest(snapshot: Snapshot, url: URL): unknown {
+  const segments = url.pathname.split('/').filter(segment => segment.length > 0);
+  const query = url.searchParams;
+  const fields = parseFields(query.get('fields'));
+
+  if (segments.length === 0) {
+    return {
+      loadedAt: snapshot.loadedAt.toISOString(),
+      files: snapshot.files,
+      counts: {
+        establishments: snapshot.establishments.size,
+        links: [...snapshot.links.values()].reduce((total, list) => total + list.length, 0),
+        groups: snapshot.groupMembers.size,
+        childrensCentres: snapshot.childrensCentres.size,
+      },
+    };
+  }
+
+  const [resource, id, child, ...rest] = segments;
+  if (rest.length > 0) throw notFound(url);
+
+  if (resource === 'establishments') {
+    if (id === undefined) {
+      const matches = [...snapshot.establishments.values()].filter(establishment =>
+        matchesCodeName(establishment.la, query.get('la')) &&
+        matchesCodeName(establishment.establishmentStatus, query.get('status')) &&
+        matchesCodeName(establishment.typeOfEstablishment, query.get('type')) &&
+        matchesCodeName(establishment.phaseOfEducation, query.get('phase')) &&
+        matchesPostcode(establishment.address, query.get('postcode')) &&
+        matchesName(establishment.name, query.get('name')));
+      return paginate(matches, query, fields);
+    }
+
+    const establishment = snapshot.establishments.get(parseId(id, 'URN'));
+    if (!establishment) throw new ApiError(404, `No establishment with URN ${id}`);
+    if (child === undefined) return selectFields(establishment, fields);
+    if (child === 'links') {
+      return paginate(snapshot.links.get(establishment.urn) ?? [], query, fields);
+    }
+    throw notFound(url);
+  }
+
+  if (resource === 'trusts' && id !== undefined && child === 'members') {
+    const members = snapshot.groupMembers.get(parseId(id, 'group UID'));
+    if (!members) throw new ApiError(404, `No trust or group with UID ${id}`);
+    return paginate(members, query, fields);
+  }
+
+  if (resource === 'childrens-centres' && child === undefined) {
+    if (id === undefined) {
+      const matches = [...snapshot.childrensCentres.values()].filter(centre =>
+        matchesCodeName(centre.la, query.get('la')) &&
+        matchesCodeName(centre.establishmentStatus, query.get('status')) &&
+        matchesPostcode(centre.address, query.get('postcode')) &&
+        matchesName(centre.name, query.get('name')));
+      return paginate(matches, query, fields);
+    }
+
+    const centre = snapshot.childrensCentres.get(parseId(id, 'URN'));
+    if (!centre) throw new ApiError(404, `No children's centre with URN ${id}`);
+    return selectFields(centre, fields);
+  }
+
+  throw notFound(url);
+}
+
+/**
+ * Serialises a response body, writing dates as yyyy-MM-dd
+ */
+export function toJson(body: unknown): string {
+  return JSON.stringify(body, function (this: Record<string, unknown>, key: string, value: unknown) {
+    const original = this[key];
+    return original instanceof Date ? format(original, 'yyyy-MM-dd') : value;
+  }, 2);
+}
+
+/**
+ * The HTTP server. Requests are answered from the snapshot loaded most
+ * recently; a failed reload keeps the previous one.
+ */
+export class ApiServer {
+  private snapshot: Snapshot | null = null;
+  private server: Server | null = null;
+  private watcher: FSWatcher | null = null;
+  private reloadTimer: NodeJS.Timeout | null = null;
+  private reloading: Promise<void> | null = null;
+  private readonly log: (message: string) => void;
+
+  constructor(private readonly options: ApiServerOptions) {
+    this.log = options.log ?? (message => console.log(message));
+  }
+
+  /**
+   * Loads the snapshot, starts listening and returns the address served on
+   */
+  async start(): Promise<AddressInfo> {
+    await this.reload();
+
+    const server = createServer((request, response) => this.respond(request, response));
+    this.server = server;
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.options.port ?? DEFAULT_PORT, this.options.host ?? DEFAULT_HOST, () => resolve());
+    });
+
+    if (this.options.watch ?? true) {
+      this.watcher = watch(this.options.dataDir, (_event, fileName) => {
+        if (fileName && isSnapshotFile(fileName.toString())) this.scheduleReload();
+      });
+    }
+
+    return server.address() as AddressInfo;
+  }
+
+  /**
+   * Loads the files again, replacing the snapshot once they have all loaded
+   */
+  async reload(): Promise<void> {
+    if (this.reloading) return this.reloading;
+
+    this.reloading = loadSnapshot(this.options.dataDir)
+      .then(snapshot => {
+        this.snapshot = snapshot;
+        this.log(`Loaded ${snapshot.establishments.size} establishments from ${this.options.dataDir}`);
+      })
+      .catch(error => {
+        if (!this.snapshot) throw error;
+        this.log(`Keeping the previous snapshot, reload failed: ${error}`);
+      })
+      .finally(() => {
+        this.reloading = null;
+      });
+    return this.reloading;
+  }
+
+  async stop(): Promise<void> {
+    if (this.reloadTimer) clearTimeout(this.reloadTimer);
+    this.watcher?.close();
+    const server = this.server;
+    if (server) {
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    }
+    await this.reloading?.catch(() => undefined);
+  }
+
+  private scheduleReload(): void {
+    if (this.reloadTimer) clearTimeout(this.reloadTimer);
+    this.reloadTimer = setTimeout(() => {
+      this.reloadTimer = null;
+      this.reload().catch(() => undefined);
+    }, this.options.reloadDelayMs ?? DEFAULT_RELOAD_DELAY_MS);
+  }
+
+  private respond(request: IncomingMessage, response: ServerResponse): void {
+    let status = 200;
+    let body: unknown;
+    try {
+      if (request.method !== 'GET' && request.method !== 'HEAD') {
+        response.setHeader('Allow', 'GET, HEAD');
+        throw new ApiError(405, `Method ${request.method} is not allowed, the API is read-only`);
+      }
+      body = handleRequest(this.snapshot as Snapshot, new URL(request.url ?? '/', 'http://localhost'));
+    } catch (error) {
+      status = error instanceof ApiError ? error.status : 500;
+      body = { error: error instanceof Error ? error.message : String(error) };
+    }
+
+    const json = toJson(body) + '\n';
+    response.writeHead(status, {
+      'Content-Type': 'application/json; charset=utf-8',
+      'Content-Length': Buffer.byteLength(json),
+    });
+    response.end(request.method === 'HEAD' ? undefined : json);
+  }
+}
+
+function paginate<T extends object>(items: T[], query: URLSearchParams, fields: string[] | null): Page<unknown> {
+  const page = parsePositive(query.get('page'), 1, 'page');
+  const pageSize = Math.min(parsePositive(query.get('pageSize'), DEFAULT_PAGE_SIZE, 'pageSize'), MAX_PAGE_SIZE);
+  const start = (page - 1) * pageSize;
+  return {
+    page,
+    pageSize,
+    total: items.length,
+    items: items.slice(start, start + pageSize).map(item => selectFields(item, fields)),
+  };
+}
+
+// The original columns are only returned when asked for, as they repeat the record
+function selectFields<T extends object>(record: T, fields: string[] | null): Partial<T> {
+  const entries = Object.entries(record).filter(([key]) => fields ? fields.includes(key) : key !== 'raw');
+  return Object.fromEntries(entries) as Partial<T>;
+}
+
+function parseFields(value: string | null): string[] | null {
+  if (value === null) return null;
+  const fields = value.split(',').map(field => field.trim()).filter(field => field.length > 0);
+  return fields.length > 0 ? fields : null;
+}
+
+function parsePositive(value: string | null, fallback: number, name: string): number {
+  if (value === null) return fallback;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new ApiError(400, `${name} must be a positive whole number, got "${value}"`);
+  }
+  return parsed;
+}
+
+function parseId(value: string, label: string): number {
+  const id = Number(value);
+  if (!Number.isInteger(id) || id < 1) {
+    throw new ApiError(400, `Invalid ${label} "${value}"`);
+  }
+  return id;
+}
+
+function matchesCodeName(field: CodeName | null, wanted: string | null): boolean {
+  if (wanted === null) return true;
+  const normalised = wanted.trim().toLowerCase();
+  return field !== null && (field.code?.toLowerCase() === normalised || field.name?.toLowerCase() === normalised);
+}
+
+function matchesPostcode(address: Address, wanted: string | null): boolean {
+  if (wanted === null) return true;
+  const compact = (value: string) => value.replace(/\s+/g, '').toUpperCase();
+  return address.postcode !== null && compact(address.postcode).startsWith(compact(wanted));
+}
+
+function matchesName(name: string, wanted: string | null): boolean {
+  return wanted === null || name.toLowerCase().includes(wanted.trim().toLowerCase());
+}
+
+function notFound(url: URL): ApiError {
+  return new ApiError(404, `No endpoint at ${url.pathname}`);
+}
+
+function isSnapshotFile(fileName: string): boolean {
+  if (fileName.endsWith('.tmp')) return false;
+  return Object.values(SNAPSHOT_FILES).some(file => fileName.startsWith(file.replace(/\.csv$/, '')));
+}
+
+function groupBy<T>(items: T[], key: (item: T) => number): Map<number, T[]> {
+  const groups = new Map<number, T[]>();
+  items.forEach(item => {
+    const list = groups.get(key(item)) ?? [];
+    list.push(item);
+    groups.set(key(item), list);
+  });
+  return groups;
+}
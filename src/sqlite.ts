@@ -0,0 +1,294 @@
+/**
+ * SQLite export
+ *
+ * Builds a single SQLite database from the fetched extracts for ad-hoc
+ * queries. Each file becomes a table named after it, with snake_case
+ * columns typed from their contents: whole numbers as INTEGER, dd-MM-yyyy
+ * dates as yyyy-MM-dd DATE values and everything else as TEXT. The schema's
+ * key columns become the primary key, common lookup columns are indexed, and
+ * views join the establishments to their links, trusts and governance. A
+ * table is only rebuilt when the file it came from has changed.
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import initSqlJs, { Database } from 'sql.js';
+import { readCsvRecords } from './csv';
+import type { FileTemplate } from './fetch-data';
+import { hashStoredFile } from './manifest';
+import { hasStoredFile, openStoredFile } from './storage';
+
+// Types
+export type SqliteColumnType = 'INTEGER' | 'DATE' | 'TEXT';
+
+export interface SqliteColumn {
+  header: string;
+  name: string;
+  type: SqliteColumnType;
+}
+
+export interface SqliteExportOptions {
+  dataDir: string;
+  templates: FileTemplate[];
+  // Database file to write; defaults to gias.sqlite in the data directory
+  databasePath?: string;
+}
+
+export interface SqliteExportResult {
+  path: string;
+  // Files whose tables were (re)built in this export
+  rebuilt: string[];
+  // Files whose tables were already up to date
+  unchanged: string[];
+}
+
+export const SQLITE_FILE = 'gias.sqlite';
+
+// Records which file content each table was built from
+export const SQLITE_FILES_TABLE = 'gias_files';
+
+// Columns indexed in every table that has them, unless they are the primary key
+const INDEXED_COLUMNS = ['URN', 'LinkURN', 'LA (code)', 'Postcode', 'Group UID'];
+
+const ESTABLISHMENT_TABLE = 'edubasealldata';
+const ESTABLISHMENT_VIEW_COLUMNS = [
+  'establishment_name',
+  'la_code',
+  'la_name',
+  'type_of_establishment_name',
+  'establishment_status_name',
+];
+
+const VIEWS: { name: string; table: string; linkColumn?: string }[] = [
+  { name: 'establishment_links', table: 'links_edubasealldata', linkColumn: 'link_urn' },
+  { name: 'establishment_trusts', table: 'grouplinks_edubaseallacademiesandfree' },
+  { name: 'establishment_governance', table: 'governancealldata' },
+];
+
+const INTEGER_PATTERN = /^-?(0|[1-9]\d{0,14})$/;
+const DATE_PATTERN = /^(\d{2})-(\d{2})-(\d{4})$/;
+
+/**
+ * Converts a CSV header to a SQL column name, e.g. "LA (code)" -> la_code
+ * and "EstablishmentStatus (name)" -> establishment_status_name
+ */
+export function toColumnName(header: string): string {
+  return header
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1_$2')
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .replace(/[^A-Za-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .toLowerCase();
+}
+
+/**
+ * Converts an output file name to its table name, e.g. edubasealldata.csv -> edubasealldata
+ */
+export function toTableName(fileName: string): string {
+  return toColumnName(fileName.replace(/\.csv$/i, ''));
+}
+
+/**
+ * Writes or updates the SQLite database for the templates whose files are in
+ * the data directory
+ */
+export async function exportSqlite(options: SqliteExportOptions): Promise<SqliteExportResult> {
+  const databasePath = options.databasePath || path.join(options.dataDir, SQLITE_FILE);
+  const SQL = await initSqlJs();
+  const existing = await fs.readFile(databasePath).catch(() => null);
+  const db = existing ? new SQL.Database(existing) : new SQL.Database();
+
+  try {
+    db.run(`CREATE TABLE IF NOT EXISTS ${SQLITE_FILES_TABLE} (
+      file TEXT PRIMARY KEY, table_name TEXT NOT NULL, sha256 TEXT NOT NULL, row_count INTEGER NOT NULL,
+      imported_at TEXT NOT NULL)`);
+    const imported = new Map(queryRows(db, `SELECT file, sha256 FROM ${SQLITE_FILES_TABLE}`)
+      .map(row => [row.file as string, row.sha256 as string]));
+
+    const rebuilt: string[] = [];
+    const unchanged: string[] = [];
+    for (const template of options.templates) {
+      const file = template.outputFile;
+      if (!(await hasStoredFile(options.dataDir, file))) continue;
+
+      const { sha256 } = await hashStoredFile(options.dataDir, file);
+      if (imported.get(file) === sha256) {
+        unchanged.push(file);
+        continue;
+      }
+
+      const rowCount = await importFile(db, options.dataDir, template);
+      db.run(`INSERT OR REPLACE INTO ${SQLITE_FILES_TABLE} VALUES (?, ?, ?, ?, ?)`,
+        [file, toTableName(file), sha256, rowCount, new Date().toISOString()]);
+      rebuilt.push(file);
+    }
+
+    if (rebuilt.length > 0 || !existing) {
+      createViews(db);
+      const tempPath = `${databasePath}.tmp`;
+      await fs.mkdir(path.dirname(databasePath), { recursive: true });
+      await fs.writeFile(tempPath, db.export());
+      await fs.rename(tempPath, databasePath);
+    }
+
+    return { path: databasePath, rebuilt, unchanged };
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Reads a CSV byte stream once to choose the type of each column: INTEGER
+ * when every value is a whole number without leading zeros, DATE when every
+ * value is a dd-MM-yyyy date, otherwise TEXT. Empty values fit any type.
+ */
+export async function profileColumns(source: AsyncIterable<Uint8Array>): Promise<SqliteColumn[]> {
+  let header: string[] | null = null;
+  let integers: boolean[] = [];
+  let dates: boolean[] = [];
+
+  for await (const record of readCsvRecords(source)) {
+    if (!header) {
+      header = record.map(column => column.trim());
+      integers = header.map(() => true);
+      dates = header.map(() => true);
+      continue;
+    }
+    header.forEach((_column, index) => {
+      const value = (record[index] ?? '').trim();
+      if (value === '') return;
+      integers[index] = integers[index] && INTEGER_PATTERN.test(value);
+      dates[index] = dates[index] && DATE_PATTERN.test(value);
+    });
+  }
+
+  const used = new Map<string, number>();
+  return (header ?? []).map((column, index) => {
+    const base = toColumnName(column) || `column_${index + 1}`;
+    const count = (used.get(base) ?? 0) + 1;
+    used.set(base, count);
+    const type: SqliteColumnType = integers[index] ? 'INTEGER' : dates[index] ? 'DATE' : 'TEXT';
+    return { header: column, name: count > 1 ? `${base}_${count}` : base, type };
+  });
+}
+
+/**
+ * Replaces the table of one file, returning the number of rows imported
+ */
+async function importFile(db: Database, dataDir: string, template: FileTemplate): Promise<number> {
+  const table = toTableName(template.outputFile);
+  const columns = await profileColumns(openStoredFile(dataDir, template.outputFile));
+  const byHeader = new Map(columns.map(column => [column.header, column]));
+
+  const keyColumns = (template.schema?.keyColumns ?? []).map(key => byHeader.get(key));
+  const primaryKey = keyColumns.length > 0 && keyColumns.every(column => column !== undefined)
+    ? keyColumns.map(column => quote((column as SqliteColumn).name))
+    : [];
+  const definitions = columns.map(column => `${quote(column.name)} ${column.type}`);
+  if (primaryKey.length > 0) {
+    definitions.push(`PRIMARY KEY (${primaryKey.join(', ')})`);
+  }
+
+  let rowCount = 0;
+  db.run('BEGIN');
+  try {
+    db.run(`DROP TABLE IF EXISTS ${quote(table)}`);
+    db.run(`CREATE TABLE ${quote(table)} (${definitions.join(', ')})`);
+
+    // Duplicate keys keep the last row, as a later row in an extract supersedes an earlier one
+    const insert = db.prepare(`INSERT OR REPLACE INTO ${quote(table)} VALUES (${columns.map(() => '?').join(', ')})`);
+    try {
+      let first = true;
+      for await (const record of readCsvRecords(openStoredFile(dataDir, template.outputFile))) {
+        if (first) {
+          first = false;
+          continue;
+        }
+        insert.run(columns.map((column, index) => toSqlValue(record[index] ?? '', column.type)));
+        rowCount++;
+      }
+    } finally {
+      insert.free();
+    }
+
+    INDEXED_COLUMNS
+      .map(header => byHeader.get(header))
+      .filter((column): column is SqliteColumn => column !== undefined)
+      .filter(column => !(primaryKey.length === 1 && primaryKey[0] === quote(column.name)))
+      .forEach(column => {
+        db.run(`CREATE INDEX ${quote(`idx_${table}_${column.name}`)} ON ${quote(table)} (${quote(column.name)})`);
+      });
+
+    db.run('COMMIT');
+  } catch (error) {
+    db.run('ROLLBACK');
+    throw error;
+  }
+  return rowCount;
+}
+
+/**
+ * Recreates the views whose tables are present
+ */
+function createViews(db: Database): void {
+  const establishmentColumns = tableColumns(db, ESTABLISHMENT_TABLE);
+
+  VIEWS.forEach(view => {
+    db.run(`DROP VIEW IF EXISTS ${quote(view.name)}`);
+    const detailColumns = tableColumns(db, view.table);
+    if (!establishmentColumns.includes('urn') || !detailColumns.includes('urn')) return;
+
+    const fromEstablishment = ESTABLISHMENT_VIEW_COLUMNS.filter(column => establishmentColumns.includes(column));
+    const selected = [
+      'e.urn AS urn',
+      ...fromEstablishment.map(column => `e.${quote(column)}`),
+      ...detailColumns
+        .filter(column => column !== 'urn' && !fromEstablishment.includes(column))
+        .map(column => `d.${quote(column)}`),
+    ];
+    let joins = `JOIN ${quote(view.table)} d ON d.urn = e.urn`;
+    if (view.linkColumn && detailColumns.includes(view.linkColumn)) {
+      selected.push(
+        ...['establishment_name', 'establishment_status_name']
+          .filter(column => establishmentColumns.includes(column))
+          .map(column => `l.${quote(column)} AS ${quote(`linked_${column}`)}`)
+      );
+      joins += ` LEFT JOIN ${quote(ESTABLISHMENT_TABLE)} l ON l.urn = d.${quote(view.linkColumn)}`;
+    }
+
+    db.run(`CREATE VIEW ${quote(view.name)} AS SELECT ${selected.join(', ')} ` +
+      `FROM ${quote(ESTABLISHMENT_TABLE)} e ${joins}`);
+  });
+}
+
+function tableColumns(db: Database, table: string): string[] {
+  return queryRows(db, `PRAGMA table_info(${quote(table)})`).map(row => row.name as string);
+}
+
+function queryRows(db: Database, sql: string): Record<string, unknown>[] {
+  const statement = db.prepare(sql);
+  const rows: Record<string, unknown>[] = [];
+  try {
+    while (statement.step()) {
+      rows.push(statement.getAsObject());
+    }
+  } finally {
+    statement.free();
+  }
+  return rows;
+}
+
+function toSqlValue(value: string, type: SqliteColumnType): string | number | null {
+  const trimmed = value.trim();
+  if (trimmed === '') return null;
+  if (type === 'INTEGER') return Number(trimmed);
+  if (type === 'DATE') {
+    const [, day, month, year] = DATE_PATTERN.exec(trimmed) as RegExpExecArray;
+    return `${year}-${month}-${day}`;
+  }
+  return value;
+}
+
+function quote(identifier: string): string {
+  return `"${identifier.replace(/"/g, '""')}"`;
+}
@@ -0,0 +1,67 @@
+/**
+ * Transactional publishing
+ *
+ * In transactional mode every download is written to a staging directory
+ * first. The staged files are moved into the output directory together once
+ * all required files have validated, so the output never mixes snapshots from
+ * different runs.
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+
+// Staging directory, created inside the output directory so renames stay on one filesystem
+export const STAGING_DIR = '.staging';
+
+// Holds the files being replaced until every staged file is in place
+const BACKUP_DIR = '.previous';
+
+/**
+ * Creates an empty staging directory, clearing anything left by an interrupted run
+ */
+export async function prepareStagingDir(outputDir: string): Promise<string> {
+  const stagingDir = path.join(outputDir, STAGING_DIR);
+  await fs.rm(stagingDir, { recursive: true, force: true });
+  await fs.mkdir(stagingDir, { recursive: true });
+  return stagingDir;
+}
+
+/**
+ * Removes the staging directory and everything in it
+ */
+export async function discardStagingDir(stagingDir: string): Promise<void> {
+  await fs.rm(stagingDir, { recursive: true, force: true });
+}
+
+/**
+ * Moves the staged files into the output directory. If any move fails, the
+ * files already moved are taken out again and the previous copies restored.
+ */
+export async function publishStagedFiles(stagingDir: string, outputDir: string, files: string[]): Promise<string[]> {
+  const backupDir = path.join(stagingDir, BACKUP_DIR);
+  await fs.mkdir(backupDir, { recursive: true });
+
+  const backedUp: string[] = [];
+  const published: string[] = [];
+  try {
+    for (const file of files) {
+      const target = path.join(outputDir, file);
+      if (await fs.access(target).then(() => true).catch(() => false)) {
+        await fs.rename(target, path.join(backupDir, file));
+        backedUp.push(file);
+      }
+      await fs.rename(path.join(stagingDir, file), target);
+      published.push(file);
+    }
+  } catch (error) {
+    for (const file of published) {
+      await fs.unlink(path.join(outputDir, file)).catch(() => undefined);
+    }
+    for (const file of backedUp) {
+      await fs.rename(path.join(backupDir, file), path.join(outputDir, file));
+    }
+    throw error;
+  }
+
+  return files.map(file => path.join(outputDir, file));
+}
@@ -0,0 +1,271 @@
+/**
+ * Compressed and chunked storage
+ *
+ * Writes gzip or brotli copies of the downloaded extracts and, above a size
+ * limit, splits them into numbered parts that each repeat the header, e.g.
+ * edubasealldata.part001.csv.gz. This keeps the largest files under the size
+ * limits of a git repository. The reader reassembles and decompresses the
+ * stored copy so callers always see the original CSV bytes.
+ */
+
+import { createReadStream, createWriteStream, promises as fs } from 'fs';
+import { once } from 'events';
+import * as path from 'path';
+import { PassThrough, pipeline, Readable, Transform, Writable } from 'stream';
+import { finished } from 'stream/promises';
+import { createBrotliCompress, createBrotliDecompress, createGunzip, createGzip } from 'zlib';
+
+// Types
+export type CompressionFormat = 'none' | 'gzip' | 'brotli';
+
+export interface StorageOptions {
+  compression: CompressionFormat;
+  // Split files larger than this many bytes into parts; 0 disables splitting
+  splitSizeBytes: number;
+}
+
+export interface StoredForms {
+  // A single compressed copy, e.g. edubasealldata.csv.gz
+  single?: string;
+  // Numbered parts in order, e.g. edubasealldata.part001.csv.gz
+  parts: string[];
+}
+
+export const COMPRESSION_FORMATS: CompressionFormat[] = ['none', 'gzip', 'brotli'];
+
+export const COMPRESSION_EXTENSIONS: Record<CompressionFormat, string> = {
+  none: '',
+  gzip: '.gz',
+  brotli: '.br',
+};
+
+/**
+ * Returns true when the options ask for anything other than the plain file
+ */
+export function usesStoredCopies(options: StorageOptions): boolean {
+  return options.compression !== 'none' || options.splitSizeBytes > 0;
+}
+
+/**
+ * Yields the records of a CSV byte stream unparsed, each with its line ending.
+ * Line breaks inside quoted fields do not end a record.
+ */
+export async function* splitRawRecords(source: AsyncIterable<Uint8Array>): AsyncGenerator<Buffer> {
+  let pending: Buffer[] = [];
+  let inQuotes = false;
+
+  for await (const chunk of source) {
+    const bytes = Buffer.from(chunk);
+    let start = 0;
+    for (let index = 0; index < bytes.length; index++) {
+      if (bytes[index] === 0x22) {
+        inQuotes = !inQuotes;
+      } else if (bytes[index] === 0x0a && !inQuotes) {
+        pending.push(bytes.subarray(start, index + 1));
+        yield Buffer.concat(pending);
+        pending = [];
+        start = index + 1;
+      }
+    }
+    if (start < bytes.length) {
+      pending.push(bytes.subarray(start));
+    }
+  }
+
+  if (pending.length > 0) {
+    yield Buffer.concat(pending);
+  }
+}
+
+/**
+ * Finds the stored copies of a file in a directory
+ */
+export async function findStoredForms(dir: string, fileName: string): Promise<StoredForms> {
+  const entries = await fs.readdir(dir).catch(() => [] as string[]);
+  const { base, ext } = splitName(fileName);
+  const partPattern = new RegExp(`^${escapeRegExp(base)}\\.part(\\d+)${escapeRegExp(ext)}(\\.gz|\\.br)?$`);
+
+  const single = entries.find(entry => entry === fileName + '.gz' || entry === fileName + '.br');
+  const parts = entries
+    .map(entry => ({ entry, match: entry.match(partPattern) }))
+    .filter(candidate => candidate.match !== null)
+    .sort((a, b) => Number(a.match?.[1]) - Number(b.match?.[1]))
+    .map(candidate => path.join(dir, candidate.entry));
+
+  return { single: single ? path.join(dir, single) : undefined, parts };
+}
+
+/**
+ * Writes the stored copy of a CSV file next to it, replacing any earlier
+ * stored copy. Returns the paths written.
+ */
+export async function writeStoredCopy(sourcePath: string, options: StorageOptions): Promise<string[]> {
+  const dir = path.dirname(sourcePath);
+  const fileName = path.basename(sourcePath);
+  const { base, ext } = splitName(fileName);
+  const suffix = COMPRESSION_EXTENSIONS[options.compression];
+  const previous = await findStoredForms(dir, fileName);
+
+  const { size } = await fs.stat(sourcePath);
+  const written: string[] = [];
+
+  if (options.splitSizeBytes > 0 && size > options.splitSizeBytes) {
+    let header: Buffer | null = null;
+    let part: { stream: Writable; done: Promise<void>; bytes: number } | null = null;
+
+    for await (const record of splitRawRecords(createReadStream(sourcePath))) {
+      if (!header) {
+        header = record;
+        continue;
+      }
+
+      if (!part || (part.bytes + record.length > options.splitSizeBytes && part.bytes > header.length)) {
+        if (part) {
+          part.stream.end();
+          await part.done;
+        }
+        const partPath = path.join(dir, `${base}.part${String(written.length + 1).padStart(3, '0')}${ext}${suffix}`);
+        written.push(partPath);
+        part = { ...openCompressedWriter(`${partPath}.tmp`, options.compression), bytes: 0 };
+        await writeChunk(part.stream, header);
+        part.bytes += header.length;
+      }
+
+      await writeChunk(part.stream, record);
+      part.bytes += record.length;
+    }
+
+    if (part) {
+      part.stream.end();
+      await part.done;
+    }
+  } else if (options.compression !== 'none') {
+    const targetPath = sourcePath + suffix;
+    written.push(targetPath);
+    const writer = openCompressedWriter(`${targetPath}.tmp`, options.compression);
+    for await (const chunk of createReadStream(sourcePath)) {
+      await writeChunk(writer.stream, chunk as Buffer);
+    }
+    writer.stream.end();
+    await writer.done;
+  }
+
+  // Swap the new copies in, then drop whatever the previous layout left behind
+  for (const target of written) {
+    await fs.rename(`${target}.tmp`, target);
+  }
+  const stale = [previous.single, ...previous.parts].filter(
+    (stalePath): stalePath is string => stalePath !== undefined && !written.includes(stalePath)
+  );
+  for (const stalePath of stale) {
+    await fs.rm(stalePath, { force: true });
+  }
+
+  return written;
+}
+
+/**
+ * Opens a file for reading as plain CSV bytes. The plain file is used when it
+ * exists; otherwise the stored copy is decompressed and its parts joined with
+ * the repeated headers removed.
+ */
+export function openStoredFile(dir: string, fileName: string): Readable {
+  return Readable.from(readStoredChunks(dir, fileName));
+}
+
+/**
+ * Returns true when a file can be opened with openStoredFile, either as the
+ * plain file or from a stored copy
+ */
+export async function hasStoredFile(dir: string, fileName: string): Promise<boolean> {
+  if (await fs.access(path.join(dir, fileName)).then(() => true).catch(() => false)) return true;
+  const forms = await findStoredForms(dir, fileName);
+  return forms.single !== undefined || forms.parts.length > 0;
+}
+
+/**
+ * Rebuilds the plain file from its stored copy when the plain file is missing.
+ * Returns true when a file was restored.
+ */
+export async function restoreStoredFile(dir: string, fileName: string): Promise<boolean> {
+  const plainPath = path.join(dir, fileName);
+  if (await fs.access(plainPath).then(() => true).catch(() => false)) return false;
+
+  const forms = await findStoredForms(dir, fileName);
+  if (!forms.single && forms.parts.length === 0) return false;
+
+  const tempPath = `${plainPath}.tmp`;
+  const output = createWriteStream(tempPath);
+  for await (const chunk of openStoredFile(dir, fileName)) {
+    await writeChunk(output, chunk as Buffer);
+  }
+  output.end();
+  await finished(output);
+  await fs.rename(tempPath, plainPath);
+  return true;
+}
+
+async function* readStoredChunks(dir: string, fileName: string): AsyncGenerator<Buffer> {
+  const plainPath = path.join(dir, fileName);
+  if (await fs.access(plainPath).then(() => true).catch(() => false)) {
+    yield* createReadStream(plainPath);
+    return;
+  }
+
+  const forms = await findStoredForms(dir, fileName);
+  if (forms.single) {
+    yield* openDecompressed(forms.single);
+    return;
+  }
+  if (forms.parts.length === 0) {
+    throw new Error(`No stored copy of ${fileName} in ${dir}`);
+  }
+
+  for (const [index, partPath] of forms.parts.entries()) {
+    let first = true;
+    for await (const record of splitRawRecords(openDecompressed(partPath))) {
+      // Every part repeats the header; only the first one is kept
+      if (first && index > 0) {
+        first = false;
+        continue;
+      }
+      first = false;
+      yield record;
+    }
+  }
+}
+
+// pipeline passes a read error, e.g. a part deleted since it was listed, on to the returned stream
+function openDecompressed(filePath: string): Readable {
+  const input = createReadStream(filePath);
+  if (filePath.endsWith('.gz')) return pipeline(input, createGunzip(), () => undefined);
+  if (filePath.endsWith('.br')) return pipeline(input, createBrotliDecompress(), () => undefined);
+  return input;
+}
+
+function openCompressedWriter(
+  filePath: string,
+  compression: CompressionFormat
+): { stream: Writable; done: Promise<void> } {
+  const output = createWriteStream(filePath);
+  const compressor: Transform = compression === 'gzip' ? createGzip()
+    : compression === 'brotli' ? createBrotliCompress()
+      : new PassThrough();
+  compressor.pipe(output);
+  return { stream: compressor, done: finished(output) };
+}
+
+async function writeChunk(stream: Writable, chunk: Buffer): Promise<void> {
+  if (!stream.write(chunk)) {
+    await once(stream, 'drain');
+  }
+}
+
+function splitName(fileName: string): { base: string; ext: string } {
+  const ext = path.extname(fileName);
+  return { base: fileName.slice(0, fileName.length - ext.length), ext };
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,62 @@
+/**
+ * Response streaming helpers
+ *
+ * Reads a fetch response body chunk by chunk so that large extracts never
+ * have to be held in memory in full.
+ */
+
+/**
+ * Yields the response body as byte chunks. Responses without a readable body
+ * fall back to a single chunk built from the text content.
+ */
+export async function* readResponseChunks(response: Response): AsyncGenerator<Uint8Array> {
+  if (!response.body) {
+    const text = await response.text();
+    if (text.length > 0) {
+      yield Buffer.from(text, 'utf8');
+    }
+    return;
+  }
+
+  const reader = response.body.getReader();
+  let finished = false;
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) {
+        finished = true;
+        break;
+      }
+      if (value && value.length > 0) {
+        yield value;
+      }
+    }
+  } finally {
+    // Stop the transfer when the consumer gives up early
+    if (!finished) {
+      await reader.cancel().catch(() => undefined);
+    }
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Returns the Content-Length declared by the response, if any
+ */
+export function getDeclaredLength(response: Response): number | null {
+  const header = response.headers?.get('content-length');
+  if (!header) return null;
+
+  const length = Number(header);
+  return Number.isFinite(length) && length >= 0 ? length : null;
+}
+
+/**
+ * Raised when a response grows beyond the configured maximum size
+ */
+export class DownloadLimitError extends Error {
+  constructor(public readonly limit: number) {
+    super(`Download exceeded the maximum of ${limit} bytes`);
+    this.name = 'DownloadLimitError';
+  }
+}
@@ -0,0 +1,330 @@
+/**
+ * Trust hierarchy
+ *
+ * Combines the MAT membership, group links and MAT governance extracts into
+ * one model per trust or group: its details, its member academies with the
+ * date each joined, and its governance roles. The model can be queried by
+ * group UID or by academy URN and written out as one JSON document per
+ * trust. Academies that one membership file places in a trust but the other
+ * does not are reported as discrepancies, as are governance rows for a trust
+ * neither membership file knows.
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { format } from 'date-fns';
+import {
+  CodeName,
+  GovernanceRecord,
+  GroupLink,
+  readGovernanceRecords,
+  readGroupLinks,
+  readMatMemberships,
+} from './records';
+import { hasStoredFile, openStoredFile } from './storage';
+
+// Types
+export type TrustMemberSource = 'mat-membership' | 'group-links';
+
+export interface TrustMember {
+  urn: number;
+  name: string | null;
+  typeOfEstablishment: CodeName | null;
+  phaseOfEducation: CodeName | null;
+  la: CodeName | null;
+  joinedDate: Date | null;
+  // The membership files that list the academy in this trust
+  sources: TrustMemberSource[];
+}
+
+export interface TrustRole {
+  gid: string;
+  role: string;
+  title: string | null;
+  forename1: string | null;
+  forename2: string | null;
+  surname: string | null;
+  appointingBody: string | null;
+  dateOfAppointment: Date | null;
+  dateTermOfOfficeEnds: Date | null;
+}
+
+export interface Trust {
+  uid: number;
+  groupId: string | null;
+  name: string | null;
+  companiesHouseNumber: string | null;
+  groupType: CodeName | null;
+  groupStatus: CodeName | null;
+  closedDate: Date | null;
+  members: TrustMember[];
+  governance: TrustRole[];
+}
+
+export interface TrustDiscrepancy {
+  kind: 'missing-from-group-links' | 'missing-from-mat-membership' | 'governance-without-trust';
+  uid: number;
+  urn: number | null;
+  message: string;
+}
+
+export interface TrustSources {
+  matMemberships?: AsyncIterable<GroupLink> | Iterable<GroupLink>;
+  groupLinks?: AsyncIterable<GroupLink> | Iterable<GroupLink>;
+  governance?: AsyncIterable<GovernanceRecord> | Iterable<GovernanceRecord>;
+}
+
+// A trust as written to JSON, with dates as yyyy-MM-dd
+export interface TrustDocument {
+  uid: number;
+  groupId: string | null;
+  name: string | null;
+  companiesHouseNumber: string | null;
+  groupType: CodeName | null;
+  groupStatus: CodeName | null;
+  closedDate: string | null;
+  members: (Omit<TrustMember, 'joinedDate'> & { joinedDate: string | null })[];
+  governance: (Omit<TrustRole, 'dateOfAppointment' | 'dateTermOfOfficeEnds'> & {
+    dateOfAppointment: string | null;
+    dateTermOfOfficeEnds: string | null;
+  })[];
+  discrepancies: TrustDiscrepancy[];
+}
+
+export const TRUST_FILES = {
+  matMemberships: 'academiesmatmembership.csv',
+  groupLinks: 'grouplinks_edubaseallacademiesandfree.csv',
+  governance: 'governancematdata.csv',
+};
+
+/**
+ * The trusts and groups described by the membership and governance files
+ */
+export class TrustIndex {
+  private readonly trustsByUid = new Map<number, Trust>();
+  private readonly trustsByUrn = new Map<number, Set<number>>();
+  // Trusts the MAT membership file lists, which are the ones it can be compared on
+  private readonly matTrusts = new Set<number>();
+  private readonly governanceOnly = new Set<number>();
+  // Without any group links rows there is nothing to compare the MAT membership file with
+  private hasGroupLinks = false;
+
+  /**
+   * Adds a row of either membership file. A member listed by both files is
+   * kept once; its join date comes from the first file that has one.
+   */
+  addMembership(link: GroupLink, source: TrustMemberSource): void {
+    const trust = this.trustFor(link.groupUid);
+    trust.groupId ??= link.groupId;
+    trust.name ??= link.groupName;
+    trust.companiesHouseNumber ??= link.companiesHouseNumber;
+    trust.groupType ??= link.groupType;
+    trust.groupStatus ??= link.groupStatus;
+    trust.closedDate ??= link.closedDate;
+    if (source === 'mat-membership') this.matTrusts.add(link.groupUid);
+    if (source === 'group-links') this.hasGroupLinks = true;
+    this.governanceOnly.delete(link.groupUid);
+
+    let member = trust.members.find(existing => existing.urn === link.urn);
+    if (!member) {
+      member = {
+        urn: link.urn,
+        name: link.establishmentName,
+        typeOfEstablishment: link.typeOfEstablishment,
+        phaseOfEducation: link.phaseOfEducation,
+        la: link.la,
+        joinedDate: link.joinedDate,
+        sources: [],
+      };
+      trust.members.push(member);
+    }
+    member.joinedDate ??= link.joinedDate;
+    if (!member.sources.includes(source)) member.sources.push(source);
+
+    const trusts = this.trustsByUrn.get(link.urn) ?? new Set<number>();
+    trusts.add(link.groupUid);
+    this.trustsByUrn.set(link.urn, trusts);
+  }
+
+  /**
+   * Adds a governance row. Rows without a group UID belong to no trust and are ignored.
+   */
+  addGovernance(record: GovernanceRecord): void {
+    if (record.groupUid === null) return;
+    if (!this.trustsByUid.has(record.groupUid)) this.governanceOnly.add(record.groupUid);
+
+    const trust = this.trustFor(record.groupUid);
+    trust.name ??= record.groupName;
+    trust.companiesHouseNumber ??= record.companiesHouseNumber;
+    trust.governance.push({
+      gid: record.gid,
+      role: record.role,
+      title: record.title,
+      forename1: record.forename1,
+      forename2: record.forename2,
+      surname: record.surname,
+      appointingBody: record.appointingBody,
+      dateOfAppointment: record.dateOfAppointment,
+      dateTermOfOfficeEnds: record.dateTermOfOfficeEnds,
+    });
+  }
+
+  get(uid: number): Trust | undefined {
+    return this.trustsByUid.get(uid);
+  }
+
+  /**
+   * Returns the trusts and groups an academy belongs to
+   */
+  trustsOf(urn: number): Trust[] {
+    return [...(this.trustsByUrn.get(urn) ?? [])]
+      .sort((a, b) => a - b)
+      .map(uid => this.trustsByUid.get(uid) as Trust);
+  }
+
+  /**
+   * Returns every trust and group in order of UID
+   */
+  trusts(): Trust[] {
+    return [...this.trustsByUid.values()].sort((a, b) => a.uid - b.uid);
+  }
+
+  /**
+   * Compares the two membership files for the trusts the MAT membership file
+   * lists, and finds governance rows for trusts in neither. Group links also
+   * cover federations and other groups, so groups the MAT membership file
+   * does not list are not compared.
+   */
+  findDiscrepancies(): TrustDiscrepancy[] {
+    const discrepancies: TrustDiscrepancy[] = [];
+
+    this.trusts().forEach(trust => {
+      if (this.governanceOnly.has(trust.uid)) {
+        discrepancies.push({
+          kind: 'governance-without-trust',
+          uid: trust.uid,
+          urn: null,
+          message: `Trust ${trust.uid} has governance roles but no members in either membership file`,
+        });
+        return;
+      }
+      if (!this.matTrusts.has(trust.uid) || !this.hasGroupLinks) return;
+
+      [...trust.members].sort((a, b) => a.urn - b.urn).forEach(member => {
+        if (!member.sources.includes('group-links')) {
+          discrepancies.push({
+            kind: 'missing-from-group-links',
+            uid: trust.uid,
+            urn: member.urn,
+            message: `Academy ${member.urn} is a member of trust ${trust.uid} in the MAT membership file ` +
+              'but not in the group links file',
+          });
+        } else if (!member.sources.includes('mat-membership')) {
+          discrepancies.push({
+            kind: 'missing-from-mat-membership',
+            uid: trust.uid,
+            urn: member.urn,
+            message: `Academy ${member.urn} is a member of trust ${trust.uid} in the group links file ` +
+              'but not in the MAT membership file',
+          });
+        }
+      });
+    });
+
+    return discrepancies;
+  }
+
+  private trustFor(uid: number): Trust {
+    let trust = this.trustsByUid.get(uid);
+    if (!trust) {
+      trust = {
+        uid,
+        groupId: null,
+        name: null,
+        companiesHouseNumber: null,
+        groupType: null,
+        groupStatus: null,
+        closedDate: null,
+        members: [],
+        governance: [],
+      };
+      this.trustsByUid.set(uid, trust);
+    }
+    return trust;
+  }
+}
+
+/**
+ * Builds the trust index from parsed records. Each source is optional.
+ */
+export async function buildTrusts(sources: TrustSources): Promise<TrustIndex> {
+  const index = new TrustIndex();
+  for await (const link of sources.matMemberships ?? []) {
+    index.addMembership(link, 'mat-membership');
+  }
+  for await (const link of sources.groupLinks ?? []) {
+    index.addMembership(link, 'group-links');
+  }
+  for await (const record of sources.governance ?? []) {
+    index.addGovernance(record);
+  }
+  return index;
+}
+
+/**
+ * Builds the trust index from the files in a data directory, reading
+ * compressed or split copies when the plain files are not there. Files that
+ * are missing are left out.
+ */
+export async function loadTrusts(dataDir: string): Promise<TrustIndex> {
+  const open = async (fileName: string) =>
+    (await hasStoredFile(dataDir, fileName)) ? openStoredFile(dataDir, fileName) : null;
+
+  const matMemberships = await open(TRUST_FILES.matMemberships);
+  const groupLinks = await open(TRUST_FILES.groupLinks);
+  const governance = await open(TRUST_FILES.governance);
+  return buildTrusts({
+    matMemberships: matMemberships ? readMatMemberships(matMemberships) : undefined,
+    groupLinks: groupLinks ? readGroupLinks(groupLinks) : undefined,
+    governance: governance ? readGovernanceRecords(governance) : undefined,
+  });
+}
+
+/**
+ * Returns a trust as a JSON-ready document, with its members in URN order and
+ * the discrepancies that concern it
+ */
+export function toTrustDocument(trust: Trust, discrepancies: TrustDiscrepancy[] = []): TrustDocument {
+  return {
+    ...trust,
+    closedDate: formatDate(trust.closedDate),
+    members: [...trust.members]
+      .sort((a, b) => a.urn - b.urn)
+      .map(member => ({ ...member, joinedDate: formatDate(member.joinedDate) })),
+    governance: trust.governance.map(role => ({
+      ...role,
+      dateOfAppointment: formatDate(role.dateOfAppointment),
+      dateTermOfOfficeEnds: formatDate(role.dateTermOfOfficeEnds),
+    })),
+    discrepancies: discrepancies.filter(discrepancy => discrepancy.uid === trust.uid),
+  };
+}
+
+/**
+ * Writes one <uid>.json document per trust to a directory, returning the paths written
+ */
+export async function exportTrusts(index: TrustIndex, outputDir: string): Promise<string[]> {
+  await fs.mkdir(outputDir, { recursive: true });
+  const discrepancies = index.findDiscrepancies();
+  const written: string[] = [];
+  for (const trust of index.trusts()) {
+    const filePath = path.join(outputDir, `${trust.uid}.json`);
+    await fs.writeFile(filePath, JSON.stringify(toTrustDocument(trust, discrepancies), null, 2) + '\n');
+    written.push(filePath);
+  }
+  return written;
+}
+
+function formatDate(date: Date | null): string | null {
+  return date ? format(date, 'yyyy-MM-dd') : null;
+}
@@ -0,0 +1,32 @@
+/**
+ * Manifest Verifier
+ *
+ * Checks the files in the data directory against the checksums recorded in
+ * its manifest. Used by the `verify` command of the CLI.
+ */
+
+import { verifyManifest } from './manifest';
+
+/**
+ * Verifies the given directory and prints one line per file
+ */
+export async function runVerify(outputDir: string): Promise<boolean> {
+  const verification = await verifyManifest(outputDir);
+
+  if (verification.files.length === 0) {
+    console.log(`No manifest entries found in ${outputDir}`);
+  }
+
+  verification.files.forEach(file => {
+    if (file.status === 'ok') {
+      console.log(`OK: ${file.file}`);
+    } else if (file.status === 'missing') {
+      console.error(`MISSING: ${file.file}`);
+    } else {
+      console.error(`MODIFIED: ${file.file} (expected sha256 ${file.expectedSha256}, ` +
+        `found ${file.actualSha256}; expected ${file.expectedBytes} bytes, found ${file.actualBytes})`);
+    }
+  });
+
+  return verification.ok;
+}
@@ -0,0 +1,174 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { tmpdir } from 'os';
+import { gunzipSync } from 'zlib';
+import { archiveFile, findSnapshot, pruneArchive, selectSnapshotsToKeep } from '../src/archive';
+import { CHANGES_JSON_FILE } from '../src/diff';
+import { fetchData } from '../src/fetch-data';
+import { MANIFEST_FILE } from '../src/manifest';
+import { silentReporter } from '../src/reporter';
+import { mockResponse, safeFileOps } from './test-utils';
+
+describe('Snapshot archive', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(tmpdir(), 'test-archive-'));
+  });
+
+  afterEach(async () => {
+    await safeFileOps.removeDir(tempDir);
+  });
+
+  const writeSource = async (fileName: string, content: string) => {
+    const sourcePath = path.join(tempDir, fileName);
+    await fs.writeFile(sourcePath, content);
+    return sourcePath;
+  };
+
+  test('archives a file under its date, optionally gzipped', async () => {
+    // Arrange
+    const sourcePath = path.join(tempDir, 'schools.csv');
+    await fs.writeFile(sourcePath, 'URN,Name\n1,School');
+    const archiveDir = path.join(tempDir, 'archive');
+
+    // Act
+    const plainPath = await archiveFile(archiveDir, new Date(2026, 9, 19), sourcePath);
+    const gzipPath = await archiveFile(archiveDir, new Date(2026, 9, 20), sourcePath, true);
+
+    // Assert
+    expect(plainPath).toBe(path.join(archiveDir, '2026-10-19', 'schools.csv'));
+    expect(gzipPath).toBe(path.join(archiveDir, '2026-10-20', 'schools.csv.gz'));
+    expect(gunzipSync(await fs.readFile(gzipPath)).toString('utf8')).toBe('URN,Name\n1,School');
+  });
+
+  test('keeps daily, weekly and monthly snapshots according to the policy', () => {
+    // Arrange
+    const snapshots = [
+      '2026-06-10', '2026-06-25', // June: only the last one is kept as a monthly snapshot
+      '2026-09-01', '2026-09-02', // An old week: only the last one is kept as a weekly snapshot
+      '2026-10-14', '2026-10-16', // Last week
+      '2026-10-19', // Inside the daily window
+    ];
+    const policy = { dailyDays: 3, weeklyWeeks: 8, monthly: true };
+
+    // Act
+    const keep = selectSnapshotsToKeep(snapshots, policy, new Date(2026, 9, 19));
+
+    // Assert
+    expect([...keep].sort()).toEqual(['2026-06-25', '2026-09-02', '2026-10-16', '2026-10-19']);
+  });
+
+  test('prunes snapshots outside the policy and finds the copy current on a date', async () => {
+    // Arrange
+    const archiveDir = path.join(tempDir, 'archive');
+    for (const date of ['2026-10-01', '2026-10-10', '2026-10-18']) {
+      await fs.mkdir(path.join(archiveDir, date), { recursive: true });
+      await fs.writeFile(path.join(archiveDir, date, 'schools.csv'), date);
+    }
+
+    // Act
+    const removed = await pruneArchive(archiveDir, { dailyDays: 14, weeklyWeeks: 0, monthly: false },
+      new Date(2026, 9, 19));
+
+    // Assert
+    expect(removed).toEqual(['2026-10-01']);
+    expect(await findSnapshot(archiveDir, 'schools.csv', new Date(2026, 9, 15)))
+      .toBe(path.join(archiveDir, '2026-10-10', 'schools.csv'));
+    expect(await findSnapshot(archiveDir, 'schools.csv', new Date(2026, 9, 5))).toBeNull();
+  });
+
+  test('keeps the latest copy of a file that has not changed since an older snapshot', async () => {
+    // Arrange
+    const archiveDir = path.join(tempDir, 'archive');
+    await archiveFile(archiveDir, new Date(2026, 0, 1), await writeSource('links.csv', 'links'));
+    for (const date of [new Date(2026, 0, 1), new Date(2026, 4, 20), new Date(2026, 5, 30)]) {
+      await archiveFile(archiveDir, date, await writeSource('schools.csv', date.toISOString()), true);
+    }
+
+    // Act
+    const removed = await pruneArchive(archiveDir, { dailyDays: 30, weeklyWeeks: 0, monthly: false },
+      new Date(2026, 6, 1));
+
+    // Assert
+    expect(removed).toEqual(['2026-05-20']);
+    expect(await fs.readdir(path.join(archiveDir, '2026-01-01'))).toEqual(['links.csv']);
+    expect(await findSnapshot(archiveDir, 'links.csv', new Date(2026, 6, 1)))
+      .toBe(path.join(archiveDir, '2026-01-01', 'links.csv'));
+  });
+
+  test('keeps the manifest and change report of a snapshot with its files', async () => {
+    // Arrange
+    const archiveDir = path.join(tempDir, 'archive');
+    await archiveFile(archiveDir, new Date(2026, 0, 1), await writeSource('links.csv', 'links'));
+    await archiveFile(archiveDir, new Date(2026, 1, 1), await writeSource('schools.csv', 'February'));
+    await archiveFile(archiveDir, new Date(2026, 5, 30), await writeSource('schools.csv', 'June'));
+    await fs.writeFile(path.join(archiveDir, '2026-01-01', MANIFEST_FILE), '{}');
+    await fs.writeFile(path.join(archiveDir, '2026-02-01', CHANGES_JSON_FILE), '{}');
+    await fs.writeFile(path.join(archiveDir, '2026-06-30', MANIFEST_FILE), '{}');
+
+    // Act
+    const removed = await pruneArchive(archiveDir, { dailyDays: 30, weeklyWeeks: 0, monthly: false },
+      new Date(2026, 6, 1));
+
+    // Assert
+    expect(removed).toEqual(['2026-02-01']);
+    expect((await fs.readdir(path.join(archiveDir, '2026-01-01'))).sort()).toEqual(['links.csv', MANIFEST_FILE]);
+    expect((await fs.readdir(path.join(archiveDir, '2026-06-30'))).sort()).toEqual([MANIFEST_FILE, 'schools.csv']);
+  });
+
+  test('fetchData prunes by file, keeping copies of files unchanged since an older run', async () => {
+    // Arrange
+    const archiveDir = path.join(tempDir, 'archive');
+    let schools = '';
+    const fetchFn = jest.fn().mockImplementation(async (url: string) =>
+      mockResponse(200, 'text/csv', url.includes('links') ? 'URN,Link\n1,2' : schools));
+    const run = (date: Date) => {
+      schools = `URN,Name\n1,${date.toDateString()}`;
+      return fetchData({
+        date,
+        urlTemplates: [
+          { urlTemplate: 'https://example.com/schools{0}.csv', outputFile: 'schools.csv' },
+          { urlTemplate: 'https://example.com/links{0}.csv', outputFile: 'links.csv' },
+        ],
+        config: { outputDir: tempDir, archive: true, retainDailyDays: 3, retainWeeklyWeeks: 0, retainMonthly: false },
+        fetchFn: fetchFn as unknown as typeof fetch,
+        configFile: false,
+        reporter: silentReporter,
+      });
+    };
+
+    // Act
+    await run(new Date(2026, 9, 1));
+    await run(new Date(2026, 9, 5));
+    const last = await run(new Date(2026, 9, 19));
+
+    // Assert
+    expect(last.unchangedFiles).toEqual(['links.csv']);
+    expect(await fs.readdir(archiveDir)).toEqual(['2026-10-01', '2026-10-19']);
+    expect(await fs.readdir(path.join(archiveDir, '2026-10-01'))).toEqual(['links.csv']);
+    expect(await findSnapshot(archiveDir, 'links.csv', new Date(2026, 9, 19)))
+      .toBe(path.join(archiveDir, '2026-10-01', 'links.csv'));
+    expect(await findSnapshot(archiveDir, 'schools.csv', new Date(2026, 9, 19)))
+      .toBe(path.join(archiveDir, '2026-10-19', 'schools.csv'));
+  });
+
+  test('fetchData archives each download under the publication date', async () => {
+    // Arrange
+    const fetchFn = jest.fn().mockResolvedValue(mockResponse(200, 'text/csv', 'URN,Name\n1,School'));
+
+    // Act
+    await fetchData({
+      date: new Date(2026, 9, 19),
+      urlTemplates: [{ urlTemplate: 'https://example.com/schools{0}.csv', outputFile: 'schools.csv' }],
+      config: { outputDir: tempDir, archive: true, archiveGzip: true },
+      fetchFn: fetchFn as unknown as typeof fetch,
+      configFile: false,
+      reporter: silentReporter,
+    });
+
+    // Assert
+    expect(await findSnapshot(path.join(tempDir, 'archive'), 'schools.csv', new Date(2026, 9, 19)))
+      .toBe(path.join(tempDir, 'archive', '2026-10-19', 'schools.csv.gz'));
+  });
+});
@@ -0,0 +1,170 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { tmpdir } from 'os';
+import { gzipSync } from 'zlib';
+import { archiveFile } from '../src/archive';
+import { backfill, BACKFILL_REPORT_FILE } from '../src/backfill';
+import { backfillExitCodeFor, EXIT_PARTIAL, parseBackfillArgs, runCli } from '../src/cli';
+import { FileTemplate } from '../src/fetch-data';
+import { silentReporter } from '../src/reporter';
+import { mockResponse, safeFileOps } from './test-utils';
+
+const templates: FileTemplate[] = [
+  { urlTemplate: 'https://example.com/schools{0}.csv', outputFile: 'schools.csv' },
+  { urlTemplate: 'https://example.com/links{0}.csv', outputFile: 'links.csv' },
+];
+
+describe('Backfill', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(tmpdir(), 'test-backfill-'));
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await safeFileOps.removeDir(tempDir);
+  });
+
+  // The links file was not published on 2 July
+  const fetchFn = jest.fn((url: string) => Promise.resolve(url.endsWith('links20250702.csv')
+    ? mockResponse(404, 'text/plain', 'Not Found')
+    : mockResponse(200, 'text/csv', `URN,Name\n1,${url}`)));
+
+  const run = () => backfill({
+    from: new Date(2025, 6, 1),
+    to: new Date(2025, 6, 2),
+    urlTemplates: templates,
+    config: { outputDir: tempDir, retries: 0 },
+    fetchFn: fetchFn as unknown as typeof fetch,
+    configFile: false,
+    reporter: silentReporter,
+  });
+
+  test('fetches each dated file into its own snapshot folder', async () => {
+    // Act
+    const report = await run();
+
+    // Assert
+    expect(report.entries).toEqual([
+      { date: '2025-07-01', file: 'schools.csv', status: 'downloaded' },
+      { date: '2025-07-01', file: 'links.csv', status: 'downloaded' },
+      { date: '2025-07-02', file: 'schools.csv', status: 'downloaded' },
+      { date: '2025-07-02', file: 'links.csv', status: 'missing' },
+    ]);
+    expect(await fs.readFile(path.join(tempDir, 'archive', '2025-07-02', 'schools.csv'), 'utf8'))
+      .toContain('schools20250702.csv');
+    const saved = JSON.parse(await fs.readFile(path.join(tempDir, 'archive', BACKFILL_REPORT_FILE), 'utf8'));
+    expect(saved.entries).toHaveLength(4);
+    expect(backfillExitCodeFor(report)).toBe(EXIT_PARTIAL);
+  });
+
+  test('resumes by fetching only what is missing or invalid', async () => {
+    // Arrange
+    await run();
+    await fs.writeFile(path.join(tempDir, 'archive', '2025-07-01', 'links.csv'), 'tampered');
+    fetchFn.mockClear();
+
+    // Act
+    const report = await run();
+
+    // Assert
+    expect(fetchFn.mock.calls.map(call => call[0])).toEqual([
+      'https://example.com/links20250701.csv',
+      'https://example.com/links20250702.csv',
+    ]);
+    expect(report.entries.filter(entry => entry.status === 'existing')).toHaveLength(2);
+  });
+
+  test('fetches again the unlisted copies an interrupted run left cut off', async () => {
+    // Arrange
+    const snapshotDir = path.join(tempDir, 'archive', '2025-07-01');
+    await fs.mkdir(snapshotDir, { recursive: true });
+    await fs.writeFile(path.join(snapshotDir, 'links.csv'), 'URN,Name\n1');
+    await fs.writeFile(path.join(snapshotDir, 'schools.csv.gz'), gzipSync('URN,Name\n1,Archived\n').subarray(0, 12));
+    fetchFn.mockClear();
+
+    // Act
+    const report = await backfill({
+      from: new Date(2025, 6, 1),
+      to: new Date(2025, 6, 1),
+      urlTemplates: templates,
+      config: { outputDir: tempDir, retries: 0 },
+      fetchFn: fetchFn as unknown as typeof fetch,
+      configFile: false,
+      reporter: silentReporter,
+    });
+
+    // Assert
+    expect(fetchFn).toHaveBeenCalledTimes(2);
+    expect(report.entries.map(entry => entry.status)).toEqual(['downloaded', 'downloaded']);
+    expect((await fs.readdir(snapshotDir)).sort()).toEqual(['links.csv', 'manifest.json', 'schools.csv']);
+  });
+
+  test('keeps archived copies and leaves out the side effects of a daily run', async () => {
+    // Arrange
+    const sourcePath = path.join(tempDir, 'schools.csv');
+    await fs.writeFile(sourcePath, 'URN,Name\n1,Archived');
+    await archiveFile(path.join(tempDir, 'archive'), new Date(2025, 6, 1), sourcePath, true);
+    fetchFn.mockClear();
+
+    // Act
+    const report = await backfill({
+      from: new Date(2025, 6, 1),
+      to: new Date(2025, 6, 1),
+      urlTemplates: templates.map(template => ({ ...template, privacy: { public: { Name: 'drop' } } })),
+      config: {
+        outputDir: tempDir,
+        retries: 0,
+        sqlite: true,
+        privacyProfile: 'public',
+        changeReport: true,
+        transactional: true,
+        integritySeverity: { 'links-urn': 'error' },
+      },
+      fetchFn: fetchFn as unknown as typeof fetch,
+      configFile: false,
+      reporter: silentReporter,
+    });
+
+    // Assert
+    expect(fetchFn.mock.calls.map(call => call[0])).toEqual(['https://example.com/links20250701.csv']);
+    expect(report.entries[0]).toEqual({ date: '2025-07-01', file: 'schools.csv', status: 'existing' });
+    expect((await fs.readdir(path.join(tempDir, 'archive', '2025-07-01'))).sort())
+      .toEqual(['links.csv', 'manifest.json', 'schools.csv.gz']);
+    expect(await fs.readFile(path.join(tempDir, 'archive', '2025-07-01', 'links.csv'), 'utf8')).toContain('URN,Name');
+  });
+
+  test('parses the backfill flags', () => {
+    // Act
+    const options = parseBackfillArgs(['--from', '2025-07-01', '--to', '2025-07-07', '--only', 'edubasealldata']);
+
+    // Assert
+    expect(options.from).toEqual(new Date(2025, 6, 1));
+    expect(options.to).toEqual(new Date(2025, 6, 7));
+    expect(options.only).toEqual(['edubasealldata']);
+    expect(() => parseBackfillArgs(['--from', '2025-07-07', '--to', '2025-07-01'])).toThrow('is after');
+    expect(() => parseBackfillArgs(['--from', '2025-07-07'])).toThrow('needs both --from and --to');
+  });
+
+  test('backfills from the command line and prints the report as JSON', async () => {
+    // Arrange
+    const stdoutSpy = jest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+    jest.spyOn(console, 'error').mockImplementation();
+    const cliFetch = jest.fn((url: string) => Promise.resolve(url.endsWith('20250701.csv')
+      ? mockResponse(200, 'text/csv', '"URN","LinkURN","LinkType"\n1,2,"Successor"\n')
+      : mockResponse(404, 'text/plain', 'Not Found')));
+
+    // Act
+    const code = await runCli(['backfill', '--from', '2025-07-01', '--to', '2025-07-02',
+      '--only', 'links_edubasealldata', '--out', tempDir, '--json'], cliFetch as unknown as typeof fetch);
+
+    // Assert
+    expect(code).toBe(EXIT_PARTIAL);
+    const output = JSON.parse(stdoutSpy.mock.calls.map(call => call[0]).join(''));
+    expect(output.entries).toEqual([
+      { date: '2025-07-01', file: 'links_edubasealldata.csv', status: 'downloaded' },
+      { date: '2025-07-02', file: 'links_edubasealldata.csv', status: 'missing' },
+    ]);
+  });
+});
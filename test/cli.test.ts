@@ -0,0 +1,207 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { tmpdir } from 'os';
+import {
+  CliError,
+  EXIT_FAILURE,
+  EXIT_PARTIAL,
+  EXIT_SUCCESS,
+  exitCodeFor,
+  parseFetchArgs,
+  runCli,
+  selectTemplates,
+  USAGE,
+} from '../src/cli';
+import { DEFAULT_URL_TEMPLATES, DownloadResult } from '../src/fetch-data';
+import { LINEAGE_LINKS_FILE } from '../src/lineage';
+import { mockResponse, safeFileOps } from './test-utils';
+
+const emptyResult = (): DownloadResult => ({
+  downloadedFiles: [],
+  skippedFiles: [],
+  unchangedFiles: [],
+  fileSizeWarnings: [],
+  columnDrift: [],
+  sources: [],
+  recordChanges: [],
+  published: true,
+  missingRequired: [],
+  withheldFiles: [],
+  qualityReports: [],
+});
+
+describe('Command-line interface', () => {
+  describe('parseFetchArgs', () => {
+    test('maps flags onto fetch options', () => {
+      // Act
+      const options = parseFetchArgs([
+        '--date', '2025-07-01', '--out', 'tmp-data', '--only', 'edubasealldata, links_edubasealldata',
+        '--threshold', '5', '--lookback-days', '2', '--dry-run', '--json',
+      ]);
+
+      // Assert
+      expect(options.date).toEqual(new Date(2025, 6, 1));
+      expect(options.outputDir).toBe(path.resolve('tmp-data'));
+      expect(options.only).toEqual(['edubasealldata', 'links_edubasealldata']);
+      expect(options.threshold).toBe(5);
+      expect(options.lookbackDays).toBe(2);
+      expect(options.dryRun).toBe(true);
+      expect(options.json).toBe(true);
+    });
+
+    test('rejects invalid values and unknown flags', () => {
+      // Act & Assert
+      expect(() => parseFetchArgs(['--date', '01/07/2025'])).toThrow(CliError);
+      expect(() => parseFetchArgs(['--threshold', 'lots'])).toThrow('Invalid --threshold');
+      expect(() => parseFetchArgs(['--lookback-days', '1.5'])).toThrow('Invalid --lookback-days');
+      expect(() => parseFetchArgs(['--bogus'])).toThrow(CliError);
+      expect(() => parseFetchArgs(['--reporter', 'xml'])).toThrow('Invalid --reporter');
+    });
+  });
+
+  describe('selectTemplates', () => {
+    test('selects templates by name with or without extension', () => {
+      // Act
+      const templates = selectTemplates(DEFAULT_URL_TEMPLATES, ['edubasealldata', 'links_edubasealldata.csv']);
+
+      // Assert
+      expect(templates.map(template => template.outputFile)).toEqual([
+        'edubasealldata.csv',
+        'links_edubasealldata.csv',
+      ]);
+    });
+
+    test('rejects unknown names', () => {
+      // Act & Assert
+      expect(() => selectTemplates(DEFAULT_URL_TEMPLATES, ['nope'])).toThrow('Unknown file(s) for --only: nope');
+    });
+  });
+
+  describe('exitCodeFor', () => {
+    test('distinguishes success, partial success and total failure', () => {
+      // Act & Assert
+      expect(exitCodeFor({ ...emptyResult(), downloadedFiles: ['a.csv'] })).toBe(EXIT_SUCCESS);
+      expect(exitCodeFor({ ...emptyResult(), unchangedFiles: ['a.csv'], skippedFiles: ['b.csv'] })).toBe(EXIT_PARTIAL);
+      expect(exitCodeFor({ ...emptyResult(), skippedFiles: ['a.csv'] })).toBe(EXIT_FAILURE);
+      expect(exitCodeFor({ ...emptyResult(), unchangedFiles: ['a.csv'], skippedFiles: ['b.csv'], published: false }))
+        .toBe(EXIT_FAILURE);
+      const integrity = { checkedRules: ['links-urn'], skippedRules: [], violations: [], failed: true };
+      expect(exitCodeFor({ ...emptyResult(), downloadedFiles: ['a.csv'], integrity })).toBe(EXIT_FAILURE);
+    });
+  });
+
+  describe('runCli', () => {
+    let tempDir: string;
+    let stdoutSpy: jest.SpyInstance;
+
+    beforeEach(async () => {
+      tempDir = await fs.mkdtemp(path.join(tmpdir(), 'test-cli-'));
+      stdoutSpy = jest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+      jest.spyOn(console, 'log').mockImplementation();
+      jest.spyOn(console, 'error').mockImplementation();
+    });
+
+    afterEach(async () => {
+      jest.restoreAllMocks();
+      await safeFileOps.removeDir(tempDir);
+    });
+
+    test('prints the download result as JSON and reports partial success', async () => {
+      // Arrange
+      const fetchFn = jest.fn((url: string) => Promise.resolve(url.includes('/links_edubasealldata')
+        ? mockResponse(200, 'text/csv', '"URN","LinkURN","LinkType"\n1,2,"Successor"')
+        : mockResponse(404, 'text/plain', 'Not Found')));
+
+      // Act
+      const code = await runCli(
+        ['--only', 'links_edubasealldata,edubasealldata', '--out', tempDir, '--date', '2025-07-01', '--json'],
+        fetchFn as unknown as typeof fetch
+      );
+
+      // Assert
+      expect(code).toBe(EXIT_PARTIAL);
+      const output = JSON.parse(stdoutSpy.mock.calls.map(call => call[0]).join(''));
+      expect(output.downloadedFiles).toEqual([path.join(tempDir, 'links_edubasealldata.csv')]);
+      expect(output.skippedFiles).toEqual(['edubasealldata.csv']);
+    });
+
+    test('falls back to the previous day when --lookback-days allows it', async () => {
+      // Arrange
+      const fetchFn = jest.fn((url: string) => Promise.resolve(url.endsWith('20250630.csv')
+        ? mockResponse(200, 'text/csv', '"URN","LinkURN","LinkType"\n1,2,"Successor"')
+        : mockResponse(404, 'text/plain', 'Not Found')));
+
+      // Act
+      const code = await runCli(
+        ['--only', 'links_edubasealldata', '--out', tempDir, '--date', '2025-07-01', '--lookback-days', '1'],
+        fetchFn as unknown as typeof fetch
+      );
+
+      // Assert
+      expect(code).toBe(EXIT_SUCCESS);
+      expect(fetchFn.mock.calls.map(call => call[0])).toEqual([
+        expect.stringMatching(/links_edubasealldata20250701\.csv$/),
+        expect.stringMatching(/links_edubasealldata20250630\.csv$/),
+      ]);
+    });
+
+    test('does not download anything in a dry run', async () => {
+      // Arrange
+      const fetchFn = jest.fn();
+
+      // Act
+      const code = await runCli(['--dry-run', '--json', '--date', '2025-07-01', '--only', 'governancealldata'],
+        fetchFn as unknown as typeof fetch);
+
+      // Assert
+      expect(code).toBe(EXIT_SUCCESS);
+      expect(fetchFn).not.toHaveBeenCalled();
+      const output = JSON.parse(stdoutSpy.mock.calls.map(call => call[0]).join(''));
+      expect(output.files[0].url).toMatch(/governancealldata20250701\.csv$/);
+    });
+
+    test('returns the failure code for usage errors', async () => {
+      // Act & Assert
+      expect(await runCli(['--date', 'tomorrow'])).toBe(EXIT_FAILURE);
+    });
+
+    test('prints the usage for help', async () => {
+      // Act
+      const code = await runCli(['help']);
+
+      // Assert
+      expect(code).toBe(EXIT_SUCCESS);
+      expect(console.log).toHaveBeenCalledWith(USAGE);
+    });
+
+    test('reads the data directory a config file sets when --data is not given', async () => {
+      // Arrange
+      const dataDir = path.join(tempDir, 'configured');
+      await fs.mkdir(dataDir);
+      await fs.writeFile(path.join(dataDir, LINEAGE_LINKS_FILE),
+        '"URN","LinkURN","LinkName","LinkType"\n1,2,"Second School","Successor"\n');
+      const configPath = path.join(tempDir, 'gias.config.json');
+      await fs.writeFile(configPath, JSON.stringify({ outputDir: dataDir }));
+
+      // Act
+      const lineageCode = await runCli(['lineage', '1', '--config', configPath]);
+      const verifyCode = await runCli(['verify', '--config', configPath]);
+
+      // Assert
+      expect(lineageCode).toBe(EXIT_SUCCESS);
+      expect(console.log).toHaveBeenCalledWith('  2 Second School');
+      expect(verifyCode).toBe(EXIT_SUCCESS);
+      expect(console.log).toHaveBeenCalledWith(`No manifest entries found in ${dataDir}`);
+    });
+
+    test('reports an invalid config file without the usage', async () => {
+      // Act
+      const code = await runCli(['--config', path.join(tempDir, 'missing.json')]);
+
+      // Assert
+      expect(code).toBe(EXIT_FAILURE);
+      expect(console.error).toHaveBeenCalledWith(expect.stringContaining('file not found'));
+      expect(console.error).not.toHaveBeenCalledWith(USAGE);
+    });
+  });
+});
@@ -0,0 +1,186 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { tmpdir } from 'os';
+import { ConfigError, envVarName, readEnvConfig, resolveSettings } from '../src/config';
+import { DEFAULT_CONFIG, DEFAULT_URL_TEMPLATES } from '../src/fetch-data';
+import { safeFileOps } from './test-utils';
+
+describe('Layered configuration', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(tmpdir(), 'test-config-'));
+  });
+
+  afterEach(async () => {
+    await safeFileOps.removeDir(tempDir);
+  });
+
+  const writeConfig = (content: unknown, name = 'gias.config.json') =>
+    fs.writeFile(path.join(tempDir, name), JSON.stringify(content));
+
+  const resolve = (options: Partial<Parameters<typeof resolveSettings>[0]> = {}) => resolveSettings({
+    defaults: DEFAULT_CONFIG,
+    defaultTemplates: DEFAULT_URL_TEMPLATES,
+    cwd: tempDir,
+    env: {},
+    ...options,
+  });
+
+  test('derives environment variable names from setting names', () => {
+    // Act & Assert
+    expect(envVarName('outputDir')).toBe('GIAS_OUTPUT_DIR');
+    expect(envVarName('sizeChangeThresholdPercent')).toBe('GIAS_SIZE_CHANGE_THRESHOLD_PERCENT');
+  });
+
+  test('uses the defaults when there is no config file or environment', () => {
+    // Act
+    const settings = resolve();
+
+    // Assert
+    expect(settings.config).toEqual(DEFAULT_CONFIG);
+    expect(settings.templates).toBe(DEFAULT_URL_TEMPLATES);
+    expect(settings.configPath).toBeUndefined();
+  });
+
+  test('applies file, environment and explicit settings in order of precedence', async () => {
+    // Arrange
+    await writeConfig({ baseUrl: 'https://mirror.example.com', retries: 5, concurrency: 2 });
+
+    // Act
+    const settings = resolve({
+      env: { GIAS_RETRIES: '1', GIAS_BLOCK_ON_COLUMN_DRIFT: 'true' },
+      config: { concurrency: 4 },
+    });
+
+    // Assert
+    expect(settings.configPath).toBe(path.join(tempDir, 'gias.config.json'));
+    expect(settings.config.baseUrl).toBe('https://mirror.example.com');
+    expect(settings.config.retries).toBe(1);
+    expect(settings.config.blockOnColumnDrift).toBe(true);
+    expect(settings.config.concurrency).toBe(4);
+  });
+
+  test('applies custom templates, per-file overrides and a subset', async () => {
+    // Arrange
+    await writeConfig({
+      templates: [
+        { urlTemplate: '{baseUrl}/a{0}.csv', outputFile: 'a.csv' },
+        { urlTemplate: '{baseUrl}/b{0}.csv', outputFile: 'b.csv' },
+      ],
+      overrides: { 'b.csv': { encoding: 'windows-1252' } },
+      only: ['b'],
+    });
+
+    // Act
+    const settings = resolve();
+
+    // Assert
+    expect(settings.templates).toEqual([
+      { urlTemplate: '{baseUrl}/b{0}.csv', outputFile: 'b.csv', encoding: 'windows-1252' },
+    ]);
+  });
+
+  test('lets GIAS_ONLY choose a subset of the default templates', () => {
+    // Act
+    const settings = resolve({ env: { GIAS_ONLY: 'edubasealldata,links_edubasealldata.csv' } });
+
+    // Assert
+    expect(settings.templates.map(template => template.outputFile)).toEqual([
+      'edubasealldata.csv',
+      'links_edubasealldata.csv',
+    ]);
+  });
+
+  test('reports every problem in an invalid config file', async () => {
+    // Arrange
+    await writeConfig({ retries: 'many', concurrency: 0, colour: 'blue', templates: [{ outputFile: 1 }] });
+
+    // Act & Assert
+    expect(() => resolve()).toThrow(ConfigError);
+    try {
+      resolve();
+    } catch (error) {
+      expect((error as ConfigError).issues).toEqual([
+        'retries must be a number, got "many"',
+        'concurrency must be at least 1, got 0',
+        'unknown setting "colour"',
+        'templates[0].outputFile must be a string',
+        'templates[0].urlTemplate is required',
+      ]);
+    }
+  });
+
+  test('checks the shape of quality rules and privacy profiles in templates', async () => {
+    // Arrange
+    await writeConfig({
+      overrides: {
+        'edubasealldata.csv': { qualityRules: {}, privacy: [] },
+        'links_edubasealldata.csv': {
+          qualityRules: [
+            { name: 'urn', type: 'unique' },
+            { name: 'postcode', type: 'pattern', column: 'Postcode', pattern: '^[A-Z', flags: 'i' },
+            { name: 'opened', type: 'date', column: 'OpenDate', format: 'dd-MM-yyyy', colour: 'blue' },
+            { type: 'code-name', codeColumn: 'Code', nameColumn: 'Name', codes: { '1': 1 } },
+            { name: 'own', type: 'custom' },
+            { name: 'typo', type: 'uniq' },
+          ],
+          privacy: { public: ['Surname'] },
+        },
+      },
+    });
+
+    // Act & Assert
+    expect(() => resolve()).toThrow(ConfigError);
+    try {
+      resolve();
+    } catch (error) {
+      const links = 'overrides["links_edubasealldata.csv"]';
+      expect((error as ConfigError).issues).toEqual([
+        'overrides["edubasealldata.csv"].qualityRules must be an array',
+        'overrides["edubasealldata.csv"].privacy must be an object',
+        `${links}.qualityRules[0].column is required for a unique rule`,
+        expect.stringMatching(/^overrides\["links_edubasealldata.csv"\].qualityRules\[1\].pattern is not a valid/),
+        `${links}.qualityRules[2] has unknown field "colour" for a date rule`,
+        `${links}.qualityRules[3].name must be a string`,
+        `${links}.qualityRules[3].codes must map each code to its name`,
+        `${links}.qualityRules[4].check is required for a custom rule`,
+        `${links}.qualityRules[5].type must be one of unique, pattern, date, code-name, field-count, custom, ` +
+          'got "uniq"',
+        `${links}.privacy.public must be an object keyed by column`,
+      ]);
+    }
+  });
+
+  test('rejects environment values of the wrong type', () => {
+    // Act & Assert
+    expect(() => readEnvConfig({ GIAS_LOOKBACK_DAYS: 'two' }, DEFAULT_CONFIG))
+      .toThrow('GIAS_LOOKBACK_DAYS must be a number');
+    expect(() => readEnvConfig({ GIAS_COMPRESSION: 'zip' }, DEFAULT_CONFIG))
+      .toThrow('GIAS_COMPRESSION must be one of none, gzip, brotli, got "zip"');
+    expect(() => readEnvConfig({ GIAS_INTEGRITY_SEVERITY: 'links-urn=fatal' }, DEFAULT_CONFIG))
+      .toThrow('GIAS_INTEGRITY_SEVERITY.links-urn must be one of error, warning, off, got "fatal"');
+    expect(readEnvConfig({ GIAS_INTEGRITY_SEVERITY: 'links-urn=error, governance-urn=off' }, DEFAULT_CONFIG))
+      .toEqual({ integritySeverity: { 'links-urn': 'error', 'governance-urn': 'off' } });
+  });
+
+  test('rejects a missing explicit config file and overrides for unknown files', async () => {
+    // Arrange
+    await writeConfig({ overrides: { 'nope.csv': { encoding: 'utf-8' } } }, 'custom.json');
+
+    // Act & Assert
+    expect(() => resolve({ configFile: 'missing.json' })).toThrow('file not found');
+    expect(() => resolve({ configFile: 'custom.json' })).toThrow('overrides for unknown file(s): nope.csv');
+  });
+
+  test('ignores config files when disabled', async () => {
+    // Arrange
+    await writeConfig({ retries: 9 });
+
+    // Act
+    const settings = resolve({ configFile: false });
+
+    // Assert
+    expect(settings.config.retries).toBe(DEFAULT_CONFIG.retries);
+  });
+});
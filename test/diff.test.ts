@@ -0,0 +1,183 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { tmpdir } from 'os';
+import { CsvParser } from '../src/csv';
+import { CHANGES_JSON_FILE, CHANGES_MARKDOWN_FILE, diffCsvFiles, renderChangeMarkdown } from '../src/diff';
+import { fetchData } from '../src/fetch-data';
+import { mockResponse, safeFileOps } from './test-utils';
+
+describe('Record-level change reports', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(tmpdir(), 'test-diff-'));
+  });
+
+  afterEach(async () => {
+    await safeFileOps.removeDir(tempDir);
+  });
+
+  const writeCsv = async (name: string, content: string) => {
+    const filePath = path.join(tempDir, name);
+    await fs.writeFile(filePath, content);
+    return filePath;
+  };
+
+  describe('CsvParser', () => {
+    test('parses quoted values spanning chunks and lines', () => {
+      // Arrange
+      const parser = new CsvParser();
+
+      // Act
+      const records = [
+        ...parser.push('"URN","Name"\r\n1,"Smith, ""Jo'),
+        ...parser.push('nes""\nSchool"\n2,'),
+        ...parser.end(),
+      ];
+
+      // Assert
+      expect(records).toEqual([['URN', 'Name'], ['1', 'Smith, "Jones"\nSchool'], ['2', '']]);
+    });
+  });
+
+  describe('diffCsvFiles', () => {
+    test('reports added, removed and modified establishments keyed on URN', async () => {
+      // Arrange
+      const previous = await writeCsv('previous.csv',
+        '"URN","EstablishmentName","EstablishmentStatus (name)"\n' +
+        '100000,"Alpha School","Open"\n100001,"Beta School","Open"\n100002,"Gamma School","Open"\n');
+      const current = await writeCsv('current.csv',
+        '"URN","EstablishmentName","EstablishmentStatus (name)"\n' +
+        '100000,"Alpha School","Open"\n100001,"Beta School","Closed"\n100003,"Delta School","Open"\n');
+
+      // Act
+      const changes = await diffCsvFiles(previous, current, ['URN'], 'edubasealldata.csv');
+
+      // Assert
+      expect(changes.added).toEqual([{ key: '100003', name: 'Delta School' }]);
+      expect(changes.removed).toEqual([{ key: '100002', name: 'Gamma School' }]);
+      expect(changes.modified).toEqual([{
+        key: '100001',
+        name: 'Beta School',
+        changes: [{ column: 'EstablishmentStatus (name)', previous: 'Open', current: 'Closed' }],
+      }]);
+    });
+
+    test('uses composite keys for links files', async () => {
+      // Arrange
+      const previous = await writeCsv('previous.csv',
+        '"URN","LinkURN","LinkName","LinkType","LinkEstablishedDate"\n' +
+        '100012,100021,"Rhyl","Successor - merged",""\n');
+      const current = await writeCsv('current.csv',
+        '"URN","LinkURN","LinkName","LinkType","LinkEstablishedDate"\n' +
+        '100012,100021,"Rhyl","Successor - merged","31-08-2021"\n100012,100021,"Rhyl","Successor",""\n');
+
+      // Act
+      const changes = await diffCsvFiles(previous, current, ['URN', 'LinkURN', 'LinkType']);
+
+      // Assert
+      expect(changes.added.map(record => record.key)).toEqual(['100012|100021|Successor']);
+      expect(changes.modified[0].key).toBe('100012|100021|Successor - merged');
+      expect(changes.modified[0].changes[0].column).toBe('LinkEstablishedDate');
+    });
+
+    test('fails clearly when a key column is missing', async () => {
+      // Arrange
+      const previous = await writeCsv('previous.csv', 'Name\nAlpha\n');
+      const current = await writeCsv('current.csv', 'URN,Name\n1,Alpha\n');
+
+      // Act & Assert
+      await expect(diffCsvFiles(previous, current, ['URN']))
+        .rejects.toThrow('Key columns missing from previous.csv: URN');
+    });
+  });
+
+  describe('renderChangeMarkdown', () => {
+    test('summarises each file with its changed records', () => {
+      // Act
+      const markdown = renderChangeMarkdown({
+        generatedAt: '2025-07-01T06:30:00.000Z',
+        newFiles: ['governancealldata.csv'],
+        files: [{
+          file: 'edubasealldata.csv',
+          keyColumns: ['URN'],
+          added: [{ key: '100003', name: 'Delta School' }],
+          removed: [],
+          modified: [{
+            key: '100001',
+            name: 'Beta School',
+            changes: [{ column: 'EstablishmentStatus (name)', previous: 'Open', current: 'Closed' }],
+          }],
+        }],
+      });
+
+      // Assert
+      expect(markdown).toContain('# GIAS data changes (2025-07-01)');
+      expect(markdown).toContain('| edubasealldata.csv | 1 | 0 | 1 |');
+      expect(markdown).toContain('New files: governancealldata.csv');
+      expect(markdown).toContain('- 100003 Delta School');
+      expect(markdown).toContain('- 100001 Beta School: EstablishmentStatus (name): "Open" → "Closed"');
+    });
+  });
+
+  describe('fetchData change report', () => {
+    test('writes the change report next to the data', async () => {
+      // Arrange
+      jest.spyOn(console, 'log').mockImplementation();
+      await writeCsv('schools.csv', 'URN,EstablishmentName\n1,Alpha\n');
+      const fetchFn = async () => mockResponse(200, 'text/csv', 'URN,EstablishmentName\n1,Alpha\n2,Beta\n');
+
+      // Act
+      const result = await fetchData({
+        urlTemplates: [{
+          urlTemplate: 'https://example.com/schools.csv',
+          outputFile: 'schools.csv',
+          schema: { requiredColumns: ['URN'], keyColumns: ['URN'] },
+        }],
+        config: { outputDir: tempDir },
+        fetchFn: fetchFn as unknown as typeof fetch,
+      });
+
+      // Assert
+      expect(result.recordChanges[0].added).toEqual([{ key: '2', name: 'Beta' }]);
+      const markdown = await fs.readFile(path.join(tempDir, CHANGES_MARKDOWN_FILE), 'utf8');
+      expect(markdown).toContain('| schools.csv | 1 | 0 | 0 |');
+      jest.restoreAllMocks();
+    });
+
+    test('leaves out files without record changes and removes the report when nothing is replaced', async () => {
+      // Arrange
+      jest.spyOn(console, 'log').mockImplementation();
+      await writeCsv('schools.csv', 'URN,EstablishmentName\n1,Alpha\n');
+      await writeCsv('centres.csv', 'URN,EstablishmentName\n7,Gamma\n8,Delta\n');
+      const bodies: Record<string, string> = {
+        'https://example.com/schools.csv': 'URN,EstablishmentName\n1,Alpha\n2,Beta\n',
+        // The same records in a different order
+        'https://example.com/centres.csv': 'URN,EstablishmentName\n8,Delta\n7,Gamma\n',
+      };
+      const schema = { requiredColumns: ['URN'], keyColumns: ['URN'] };
+      const options = {
+        urlTemplates: [
+          { urlTemplate: 'https://example.com/schools.csv', outputFile: 'schools.csv', schema },
+          { urlTemplate: 'https://example.com/centres.csv', outputFile: 'centres.csv', schema },
+        ],
+        config: { outputDir: tempDir },
+        fetchFn: (async (url: string) => mockResponse(200, 'text/csv', bodies[url])) as unknown as typeof fetch,
+      };
+
+      // Act
+      const first = await fetchData(options);
+      const report = JSON.parse(await fs.readFile(path.join(tempDir, CHANGES_JSON_FILE), 'utf8'));
+      const second = await fetchData(options);
+
+      // Assert
+      expect(first.downloadedFiles).toHaveLength(2);
+      expect(first.recordChanges.map(changes => changes.file)).toEqual(['schools.csv']);
+      expect(report.files.map((changes: { file: string }) => changes.file)).toEqual(['schools.csv']);
+      expect(second.unchangedFiles).toEqual(['schools.csv', 'centres.csv']);
+      expect(await safeFileOps.exists(path.join(tempDir, CHANGES_JSON_FILE))).toBe(false);
+      expect(await safeFileOps.exists(path.join(tempDir, CHANGES_MARKDOWN_FILE))).toBe(false);
+      jest.restoreAllMocks();
+    });
+  });
+});
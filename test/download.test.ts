@@ -1,8 +1,9 @@
+import { createHash } from 'crypto';
 import { promises as fs } from 'fs';
 import * as path from 'path';
 import { tmpdir } from 'os';
 import { downloadFile } from '../src/fetch-data';
-import { mockResponse, safeFileOps } from './test-utils';
+import { mockChunkedResponse, mockResponse, safeFileOps } from './test-utils';
 
 // Define constants and global variables at the top
 const fixturesDir = path.join(__dirname, '__fixtures__');
@@ -117,6 +118,56 @@ describe('downloadFile function', () => {
     expect(result.warning).toBeNull();
   });
 
+  test('leaves byte-identical files untouched and reports them unchanged', async () => {
+    // Arrange
+    const tempFilePath = path.join(tempDir, 'output.csv.tmp');
+    const outputFilePath = path.join(tempDir, 'output.csv');
+    await safeFileOps.writeFile(outputFilePath, 'header1,header2\nvalue1,value2');
+    const pastTime = new Date(2020, 0, 1);
+    await fs.utimes(outputFilePath, pastTime, pastTime);
+    mockFetchFn.mockResolvedValue(mockResponse(200, 'text/csv', 'header1,header2\nvalue1,value2'));
+
+    // Act
+    const result = await downloadFile(
+      'https://example.com/data.csv',
+      outputFilePath,
+      tempFilePath,
+      20,
+      mockFetchFn
+    );
+
+    // Assert
+    expect(result.success).toBe(true);
+    expect(result.unchanged).toBe(true);
+    expect((await fs.stat(outputFilePath)).mtime).toEqual(pastTime);
+    expect(await safeFileOps.exists(tempFilePath)).toBe(false);
+  });
+
+  test('sends conditional headers and treats 304 as unchanged', async () => {
+    // Arrange
+    const tempFilePath = path.join(tempDir, 'output.csv.tmp');
+    const outputFilePath = path.join(tempDir, 'output.csv');
+    await safeFileOps.writeFile(outputFilePath, 'header1,header2\nvalue1,value2');
+    mockFetchFn.mockResolvedValue(mockResponse(304, 'text/csv', '', { ETag: '"abc"' }));
+
+    // Act
+    const result = await downloadFile(
+      'https://example.com/data.csv',
+      outputFilePath,
+      tempFilePath,
+      20,
+      mockFetchFn,
+      { validators: { etag: '"abc"', lastModified: 'Tue, 01 Jul 2025 06:00:00 GMT' } }
+    );
+
+    // Assert
+    expect(result.success).toBe(true);
+    expect(result.unchanged).toBe(true);
+    expect(mockFetchFn).toHaveBeenCalledWith('https://example.com/data.csv', expect.objectContaining({
+      headers: { 'If-None-Match': '"abc"', 'If-Modified-Since': 'Tue, 01 Jul 2025 06:00:00 GMT' },
+    }));
+  });
+
   test('rejects HTML content', async () => {
     // Arrange
     const tempFilePath = path.join(tempDir, 'output.csv.tmp');
@@ -136,6 +187,257 @@ describe('downloadFile function', () => {
     expect(result.success).toBe(false);
   });
 
+  test('rejects content whose header does not match the schema', async () => {
+    // Arrange
+    const tempFilePath = path.join(tempDir, 'output.csv.tmp');
+    const outputFilePath = path.join(tempDir, 'output.csv');
+    mockFetchFn.mockResolvedValue(mockResponse(200, 'text/csv', 'header1,header2\nvalue1,value2'));
+
+    // Act
+    const result = await downloadFile(
+      'https://example.com/data.csv',
+      outputFilePath,
+      tempFilePath,
+      20,
+      mockFetchFn,
+      { schema: { requiredColumns: ['URN', 'header2'] } }
+    );
+
+    // Assert
+    expect(result.success).toBe(false);
+    expect(result.reason).toBe('Header is missing required columns: URN');
+    expect(await safeFileOps.exists(outputFilePath)).toBe(false);
+  });
+
+  test('reports column drift against the stored file', async () => {
+    // Arrange
+    const tempFilePath = path.join(tempDir, 'output.csv.tmp');
+    const outputFilePath = path.join(tempDir, 'output.csv');
+    await safeFileOps.writeFile(outputFilePath, 'header1,header2\nvalue1,value2');
+    mockFetchFn.mockResolvedValue(mockResponse(200, 'text/csv', 'header1,header3\nvalue1,value3'));
+
+    // Act
+    const result = await downloadFile(
+      'https://example.com/data.csv',
+      outputFilePath,
+      tempFilePath,
+      20,
+      mockFetchFn
+    );
+
+    // Assert
+    expect(result.success).toBe(true);
+    expect(result.columnDrift).toEqual({ added: ['header3'], removed: ['header2'], reordered: [] });
+  });
+
+  test('keeps the stored file when column drift is blocked', async () => {
+    // Arrange
+    const tempFilePath = path.join(tempDir, 'output.csv.tmp');
+    const outputFilePath = path.join(tempDir, 'output.csv');
+    await safeFileOps.writeFile(outputFilePath, 'header1,header2\nvalue1,value2');
+    mockFetchFn.mockResolvedValue(mockResponse(200, 'text/csv', 'header2,header1\nvalue2,value1'));
+
+    // Act
+    const result = await downloadFile(
+      'https://example.com/data.csv',
+      outputFilePath,
+      tempFilePath,
+      20,
+      mockFetchFn,
+      { blockOnColumnDrift: true }
+    );
+
+    // Assert
+    expect(result.success).toBe(false);
+    expect(result.columnDrift?.reordered).toEqual(['header2', 'header1']);
+    expect(await fs.readFile(outputFilePath, 'utf8')).toBe('header1,header2\nvalue1,value2');
+  });
+
+  test('streams a chunked body and reports its hash, size and row count', async () => {
+    // Arrange
+    const tempFilePath = path.join(tempDir, 'output.csv.tmp');
+    const outputFilePath = path.join(tempDir, 'output.csv');
+    const chunks = ['"URN","Name"\n1,"Alpha', ' School"\n2,"Multi\nline"\n', '3,Gamma'];
+    mockFetchFn.mockResolvedValue(mockChunkedResponse(chunks));
+
+    // Act
+    const result = await downloadFile(
+      'https://example.com/data.csv',
+      outputFilePath,
+      tempFilePath,
+      20,
+      mockFetchFn
+    );
+
+    // Assert
+    const expected = chunks.join('');
+    expect(result.success).toBe(true);
+    expect(result.bytes).toBe(Buffer.byteLength(expected));
+    expect(result.rowCount).toBe(3);
+    expect(result.sha256).toBe(createHash('sha256').update(expected).digest('hex'));
+    expect(await fs.readFile(outputFilePath, 'utf8')).toBe(expected);
+  });
+
+  test('aborts downloads larger than the configured maximum', async () => {
+    // Arrange
+    const tempFilePath = path.join(tempDir, 'output.csv.tmp');
+    const outputFilePath = path.join(tempDir, 'output.csv');
+    mockFetchFn.mockResolvedValue(mockChunkedResponse(['header1,header2\n', 'value1,value2\n'.repeat(10)]));
+
+    // Act
+    const result = await downloadFile(
+      'https://example.com/data.csv',
+      outputFilePath,
+      tempFilePath,
+      20,
+      mockFetchFn,
+      { maxFileSizeBytes: 50 }
+    );
+
+    // Assert
+    expect(result.success).toBe(false);
+    expect(result.reason).toContain('exceeded the maximum of 50 bytes');
+    expect(await safeFileOps.exists(tempFilePath)).toBe(false);
+    expect(await safeFileOps.exists(outputFilePath)).toBe(false);
+  });
+
+  test('cancels the body when the buffered start already exceeds the maximum', async () => {
+    // Arrange
+    const tempFilePath = path.join(tempDir, 'output.csv.tmp');
+    const outputFilePath = path.join(tempDir, 'output.csv');
+    const cancel = jest.fn();
+    const body = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        controller.enqueue(new TextEncoder().encode('value1,value2\n'.repeat(1000)));
+      },
+      cancel,
+    });
+    mockFetchFn.mockResolvedValue({ ...mockResponse(200, 'text/csv', ''), body } as Response);
+
+    // Act
+    const result = await downloadFile(
+      'https://example.com/data.csv',
+      outputFilePath,
+      tempFilePath,
+      20,
+      mockFetchFn,
+      { maxFileSizeBytes: 1000 }
+    );
+
+    // Assert
+    expect(result.success).toBe(false);
+    expect(result.reason).toContain('exceeded the maximum of 1000 bytes');
+    expect(cancel).toHaveBeenCalled();
+  });
+
+  test('aborts a stalled request once the timeout elapses', async () => {
+    // Arrange
+    const tempFilePath = path.join(tempDir, 'output.csv.tmp');
+    const outputFilePath = path.join(tempDir, 'output.csv');
+    mockFetchFn.mockImplementation((_url, init) => new Promise((_resolve, reject) => {
+      init?.signal?.addEventListener('abort', () => reject(new Error('aborted')));
+    }));
+
+    // Act
+    const result = await downloadFile(
+      'https://example.com/data.csv',
+      outputFilePath,
+      tempFilePath,
+      20,
+      mockFetchFn,
+      { timeoutMs: 20 }
+    );
+
+    // Assert
+    expect(result.success).toBe(false);
+    expect(result.transient).toBe(true);
+    expect(result.reason).toContain('Request timed out after 20ms');
+  });
+
+  test('does not blame the timeout for errors after the body has been read', async () => {
+    // Arrange
+    const tempFilePath = path.join(tempDir, 'output.csv.tmp');
+    const outputFilePath = path.join(tempDir, 'output.csv');
+    // Large enough for the checks to read the file in several chunks, letting the timer run in between
+    const rows = Array.from({ length: 5000 }, (_, index) => `${index + 1},School number ${index + 1}`);
+    mockFetchFn.mockResolvedValue(mockResponse(200, 'text/csv', 'URN,Name\n' + rows.join('\n')));
+    const check = (row: Record<string, string>) => {
+      if (row.URN === '1') {
+        const until = Date.now() + 50;
+        while (Date.now() < until) { /* outlast the timeout */ }
+      }
+      if (row.URN === '5000') throw new Error('Check failed on the last row');
+      return null;
+    };
+
+    // Act
+    const result = await downloadFile(
+      'https://example.com/data.csv',
+      outputFilePath,
+      tempFilePath,
+      20,
+      mockFetchFn,
+      { timeoutMs: 20, qualityRules: [{ name: 'slow', type: 'custom', check }] }
+    );
+
+    // Assert
+    expect(result.success).toBe(false);
+    expect(result.reason).toContain('Check failed on the last row');
+    expect(result.reason).not.toContain('timed out');
+    expect(result.transient).toBe(false);
+  });
+
+  test('transcodes Windows-1252 content to UTF-8 and records the encoding', async () => {
+    // Arrange
+    const tempFilePath = path.join(tempDir, 'output.csv.tmp');
+    const outputFilePath = path.join(tempDir, 'output.csv');
+    const body = Buffer.from('"URN","EstablishmentName"\n1,"St Mary\x92s Caf\xe9"', 'latin1');
+    mockFetchFn.mockResolvedValue({
+      ...mockResponse(200, 'text/csv', ''),
+      body: new Blob([body]).stream(),
+    } as Response);
+
+    // Act
+    const result = await downloadFile(
+      'https://example.com/data.csv',
+      outputFilePath,
+      tempFilePath,
+      20,
+      mockFetchFn
+    );
+
+    // Assert
+    expect(result.success).toBe(true);
+    expect(result.encoding).toBe('windows-1252');
+    expect(await fs.readFile(outputFilePath, 'utf8')).toBe('"URN","EstablishmentName"\n1,"St Mary’s Café"');
+  });
+
+  test('keeps the original bytes when encoding is preserved', async () => {
+    // Arrange
+    const tempFilePath = path.join(tempDir, 'output.csv.tmp');
+    const outputFilePath = path.join(tempDir, 'output.csv');
+    const body = Buffer.from('"URN","EstablishmentName"\n1,"Caf\xe9"', 'latin1');
+    mockFetchFn.mockResolvedValue({
+      ...mockResponse(200, 'text/csv', ''),
+      body: new Blob([body]).stream(),
+    } as Response);
+
+    // Act
+    const result = await downloadFile(
+      'https://example.com/data.csv',
+      outputFilePath,
+      tempFilePath,
+      20,
+      mockFetchFn,
+      { preserveEncoding: true }
+    );
+
+    // Assert
+    expect(result.success).toBe(true);
+    expect(result.encoding).toBe('windows-1252');
+    expect(await fs.readFile(outputFilePath)).toEqual(body);
+  });
+
   test('handles HTTP errors gracefully', async () => {
     // Arrange
     const tempFilePath = path.join(tempDir, 'output.csv.tmp');
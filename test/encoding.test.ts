@@ -0,0 +1,87 @@
+import { detectBom, parseCharset, Utf8Normaliser } from '../src/encoding';
+
+// Windows-1252 bytes for: "URN","Name"\n1,"Ysgol Gymraeg Bro Ogwr – Pen-y-bont’s café"
+const windows1252 = Buffer.concat([
+  Buffer.from('"URN","Name"\n1,"Ysgol Gymraeg Bro Ogwr ', 'latin1'),
+  Buffer.from([0x96]),
+  Buffer.from(' Pen-y-bont', 'latin1'),
+  Buffer.from([0x92]),
+  Buffer.from('s caf', 'latin1'),
+  Buffer.from([0xe9]),
+  Buffer.from('"', 'latin1'),
+]);
+
+const normalise = (normaliser: Utf8Normaliser, chunks: Uint8Array[]) =>
+  Buffer.concat([...chunks.map(chunk => normaliser.push(chunk)), normaliser.flush()]).toString('utf8');
+
+describe('Encoding Functions', () => {
+  describe('detectBom', () => {
+    test('recognises UTF-8 and UTF-16 byte order marks', () => {
+      // Act & Assert
+      expect(detectBom(Buffer.from([0xef, 0xbb, 0xbf, 0x41]))).toBe('utf-8');
+      expect(detectBom(Buffer.from([0xff, 0xfe, 0x41, 0x00]))).toBe('utf-16le');
+      expect(detectBom(Buffer.from('URN'))).toBeNull();
+    });
+  });
+
+  describe('parseCharset', () => {
+    test('normalises charset labels from Content-Type', () => {
+      // Act & Assert
+      expect(parseCharset('text/csv; charset=ISO-8859-1')).toBe('windows-1252');
+      expect(parseCharset('text/csv; charset="utf-8"')).toBe('utf-8');
+      expect(parseCharset('text/csv')).toBeNull();
+      expect(parseCharset('text/csv; charset=not-a-charset')).toBeNull();
+    });
+  });
+
+  describe('Utf8Normaliser', () => {
+    test('detects Windows-1252 from the bytes and transcodes to UTF-8', () => {
+      // Arrange
+      const normaliser = new Utf8Normaliser('text/csv');
+
+      // Act
+      const output = normalise(normaliser, [windows1252.subarray(0, 10), windows1252.subarray(10)]);
+
+      // Assert
+      expect(output).toBe('"URN","Name"\n1,"Ysgol Gymraeg Bro Ogwr – Pen-y-bont’s café"');
+      expect(normaliser.encoding).toEqual({ encoding: 'windows-1252', source: 'heuristic' });
+    });
+
+    test('keeps UTF-8 split across chunks intact and strips the BOM', () => {
+      // Arrange
+      const bytes = Buffer.concat([Buffer.from([0xef, 0xbb, 0xbf]), Buffer.from('Name\nCafé', 'utf8')]);
+      const normaliser = new Utf8Normaliser();
+
+      // Act
+      const output = normalise(normaliser, [bytes.subarray(0, bytes.length - 1), bytes.subarray(bytes.length - 1)]);
+
+      // Assert
+      expect(output).toBe('Name\nCafé');
+      expect(normaliser.encoding).toEqual({ encoding: 'utf-8', source: 'bom' });
+    });
+
+    test('detects UTF-8 when the first non-ASCII bytes are valid UTF-8', () => {
+      // Arrange
+      const normaliser = new Utf8Normaliser();
+
+      // Act
+      const output = normalise(normaliser, [Buffer.from('Name\n', 'utf8'), Buffer.from('Café', 'utf8')]);
+
+      // Assert
+      expect(output).toBe('Name\nCafé');
+      expect(normaliser.encoding.encoding).toBe('utf-8');
+    });
+
+    test('uses the charset declared in the response headers', () => {
+      // Arrange
+      const normaliser = new Utf8Normaliser('text/csv; charset=windows-1252');
+
+      // Act
+      const output = normalise(normaliser, [Buffer.from([0x43, 0x61, 0x66, 0xe9])]);
+
+      // Assert
+      expect(output).toBe('Café');
+      expect(normaliser.encoding.source).toBe('header');
+    });
+  });
+});
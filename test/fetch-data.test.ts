@@ -4,7 +4,7 @@ import { promises as fs } from 'fs';
 import * as path from 'path';
 import { tmpdir } from 'os';
 import http from 'http';
-import { safeFileOps } from './test-utils';
+import { mockResponse, safeFileOps } from './test-utils';
 
 // Define constants and variables at the top
 const TEST_SERVER_PORT = 8080;
@@ -143,3 +143,76 @@ describe('fetchData function integration', () => {
     }
   });
 });
+
+// Retry and date fallback behaviour, driven through an injected fetch function
+describe('fetchData retries and date fallback', () => {
+  beforeEach(async () => {
+    consoleLogSpy = jest.spyOn(console, 'log').mockImplementation();
+    jest.spyOn(console, 'error').mockImplementation();
+    await safeFileOps.removeDir(tempDir);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('retries transient failures before succeeding', async () => {
+    // Arrange
+    const fetchFn = jest.fn()
+      .mockResolvedValueOnce(mockResponse(503, 'text/plain', 'Service Unavailable'))
+      .mockResolvedValueOnce(mockResponse(200, 'text/csv', 'header,value\n1,2'));
+
+    // Act
+    const result = await fetchData({
+      date: new Date(2025, 6, 1),
+      urlTemplates: [{ urlTemplate: 'https://example.com/data{0}.csv', outputFile: 'data.csv' }],
+      config: { outputDir: tempDir, retries: 2, retryDelayMs: 0 },
+      fetchFn: fetchFn as unknown as typeof fetch,
+    });
+
+    // Assert
+    expect(fetchFn).toHaveBeenCalledTimes(2);
+    expect(result.downloadedFiles).toHaveLength(1);
+    expect(result.sources).toEqual([
+      { file: 'data.csv', url: 'https://example.com/data20250701.csv', date: '2025-07-01', encoding: 'utf-8' },
+    ]);
+  });
+
+  test('does not retry permanent failures', async () => {
+    // Arrange
+    const fetchFn = jest.fn().mockResolvedValue(mockResponse(404, 'text/plain', 'Not Found'));
+
+    // Act
+    const result = await fetchData({
+      urlTemplates: [{ urlTemplate: 'https://example.com/data{0}.csv', outputFile: 'data.csv' }],
+      config: { outputDir: tempDir, retries: 3, retryDelayMs: 0 },
+      fetchFn: fetchFn as unknown as typeof fetch,
+    });
+
+    // Assert
+    expect(fetchFn).toHaveBeenCalledTimes(1);
+    expect(result.skippedFiles).toEqual(['data.csv']);
+  });
+
+  test('falls back to earlier dates when the current file is not published', async () => {
+    // Arrange
+    const fetchFn = jest.fn((url: string) => Promise.resolve(
+      url.endsWith('20250629.csv')
+        ? mockResponse(200, 'text/csv', 'header,value\n1,2')
+        : mockResponse(404, 'text/plain', 'Not Found')
+    ));
+
+    // Act
+    const result = await fetchData({
+      date: new Date(2025, 6, 1),
+      urlTemplates: [{ urlTemplate: 'https://example.com/data{0}.csv', outputFile: 'data.csv' }],
+      config: { outputDir: tempDir, retries: 0, lookbackDays: 3 },
+      fetchFn: fetchFn as unknown as typeof fetch,
+    });
+
+    // Assert
+    expect(fetchFn).toHaveBeenCalledTimes(3);
+    expect(result.sources[0].date).toBe('2025-06-29');
+    expect(result.sources[0].url).toBe('https://example.com/data20250629.csv');
+  });
+});
@@ -0,0 +1,183 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { tmpdir } from 'os';
+import { PassThrough } from 'stream';
+import { EXIT_FAILURE, EXIT_SUCCESS, runCli } from '../src/cli';
+import {
+  exportGeoJson,
+  GeoFeature,
+  gridToOsgb36,
+  gridToWgs84,
+  isGridReferenceInRange,
+  toGeoFeature,
+  writeGeoJson,
+} from '../src/geo';
+import { parseEstablishment, readEstablishments } from '../src/records';
+import { safeFileOps } from './test-utils';
+
+const ESTABLISHMENTS = '"URN","LA (code)","LA (name)","EstablishmentName","TypeOfEstablishment (code)",' +
+  '"TypeOfEstablishment (name)","EstablishmentStatus (code)","EstablishmentStatus (name)","PhaseOfEducation (code)",' +
+  '"PhaseOfEducation (name)","Postcode","Easting","Northing"\n' +
+  '100,"873","Cambridgeshire","Bar Hill Primary","02","Voluntary aided school","1","Open","2","Primary",' +
+  '"CB23 8DY","539300","262300"\n' +
+  '101,"873","Cambridgeshire","Old Bar Hill School","02","Voluntary aided school","2","Closed","2","Primary",' +
+  '"CB23 8DZ","",""\n' +
+  '102,"201","City of London","The Aldgate School","02","Voluntary aided school","1","Open","2","Primary",' +
+  '"EC3A 5DE","533498","181201"\n' +
+  '103,"201","City of London","Misplaced School","02","Voluntary aided school","1","Open","4","Secondary",' +
+  '"EC3A 5DF","0","0"\n';
+const CHILDRENS_CENTRES = '"URN","LA (code)","LA (name)","EstablishmentName","EstablishmentStatus (name)"\n' +
+  '20000,"873","Cambridgeshire","Bar Hill Children\'s Centre","Open"\n';
+
+async function collect(stream: PassThrough): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+describe('coordinate conversion', () => {
+  it('should match the worked example in the Ordnance Survey guide', () => {
+    // Arrange & Act
+    const osgb36 = gridToOsgb36(651409.903, 313177.27);
+    const wgs84 = gridToWgs84(651409.903, 313177.27);
+
+    // Assert: 52°39'27.2531"N 1°43'4.5177"E on OSGB36, about 52°39'28.72"N 1°42'57.79"E on WGS84
+    expect(osgb36.latitude).toBeCloseTo(52.65757030, 7);
+    expect(osgb36.longitude).toBeCloseTo(1.71792158, 7);
+    expect(wgs84.latitude).toBeCloseTo(52.657978, 5);
+    expect(wgs84.longitude).toBeCloseTo(1.716053, 5);
+  });
+
+  it('should treat zero and off-grid references as out of range', () => {
+    expect(isGridReferenceInRange(533498, 181201)).toBe(true);
+    expect(isGridReferenceInRange(0, 0)).toBe(false);
+    expect(isGridReferenceInRange(800000, 181201)).toBe(false);
+    expect(isGridReferenceInRange(533498, -5)).toBe(false);
+  });
+});
+
+describe('GeoJSON export', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(tmpdir(), 'test-geo-'));
+    await fs.writeFile(path.join(tempDir, 'edubasealldata.csv'), ESTABLISHMENTS);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await safeFileOps.removeDir(tempDir);
+  });
+
+  it('should convert a record to a longitude, latitude point with its properties', () => {
+    // Arrange
+    const record = parseEstablishment({
+      URN: '102', EstablishmentName: 'The Aldgate School', 'LA (code)': '201', 'LA (name)': 'City of London',
+      'EstablishmentStatus (name)': 'Open', Postcode: 'EC3A 5DE', Easting: '533498', Northing: '181201',
+    });
+
+    // Act
+    const converted = toGeoFeature(record, 'establishments');
+
+    // Assert
+    expect('feature' in converted).toBe(true);
+    const { feature } = converted as { feature: GeoFeature };
+    expect(feature.geometry.coordinates[0]).toBeCloseTo(-0.0775, 3);
+    expect(feature.geometry.coordinates[1]).toBeCloseTo(51.514, 3);
+    expect(feature.properties).toMatchObject({ urn: 102, status: 'Open', laCode: '201', postcode: 'EC3A 5DE' });
+  });
+
+  it('should write a FeatureCollection and report rows without usable coordinates', async () => {
+    // Arrange
+    const output = new PassThrough();
+    const text = collect(output);
+
+    // Act
+    const result = await writeGeoJson(
+      [{ dataset: 'establishments', records: readEstablishments(path.join(tempDir, 'edubasealldata.csv')) }],
+      output
+    );
+    output.end();
+
+    // Assert
+    const collection = JSON.parse(await text);
+    expect(collection.type).toBe('FeatureCollection');
+    expect(collection.features.map((feature: GeoFeature) => feature.properties.urn)).toEqual([100, 102]);
+    expect(result.features).toBe(2);
+    expect(result.problems).toEqual([
+      expect.objectContaining({ urn: 101, reason: 'missing-coordinates', easting: null }),
+      expect.objectContaining({ urn: 103, reason: 'out-of-range', easting: 0 }),
+    ]);
+  });
+
+  it('should filter by code or name and write newline-delimited features', async () => {
+    // Arrange
+    const outputPath = path.join(tempDir, 'out', 'establishments.ndjson');
+
+    // Act
+    const result = await exportGeoJson({
+      dataDir: tempDir,
+      outputPath,
+      format: 'ndjson',
+      filter: { la: ['cambridgeshire'], status: ['1'] },
+    });
+
+    // Assert
+    const lines = (await fs.readFile(outputPath, 'utf8')).trim().split('\n');
+    expect(lines).toHaveLength(1);
+    expect(JSON.parse(lines[0]).properties).toMatchObject({ urn: 100, laName: 'Cambridgeshire', phase: 'Primary' });
+    expect(result.filtered).toBe(3);
+    expect(result.problems).toEqual([]);
+    expect(result.missingFiles).toEqual(['edubaseallchildrencentre.csv']);
+  });
+
+  it("should report children's centres that carry no grid reference", async () => {
+    // Arrange
+    await fs.writeFile(path.join(tempDir, 'edubaseallchildrencentre.csv'), CHILDRENS_CENTRES);
+    const outputPath = path.join(tempDir, 'centres.geojson');
+
+    // Act
+    const result = await exportGeoJson({ dataDir: tempDir, outputPath, datasets: ['childrens-centres'] });
+
+    // Assert
+    expect(JSON.parse(await fs.readFile(outputPath, 'utf8')).features).toEqual([]);
+    expect(result.problems).toEqual([
+      expect.objectContaining({ dataset: 'childrens-centres', urn: 20000, reason: 'missing-coordinates' }),
+    ]);
+  });
+
+  it('should write the features and problems from the command line', async () => {
+    // Arrange
+    const error = jest.spyOn(console, 'error').mockImplementation();
+    const outputPath = path.join(tempDir, 'establishments.geojson');
+    const problemsPath = path.join(tempDir, 'problems.json');
+
+    // Act
+    const code = await runCli(['geojson', '--data', tempDir, '--out', outputPath, '--problems', problemsPath,
+      '--dataset', 'establishments', '--la', '201']);
+
+    // Assert
+    expect(code).toBe(EXIT_SUCCESS);
+    expect(JSON.parse(await fs.readFile(outputPath, 'utf8')).features).toHaveLength(1);
+    expect(JSON.parse(await fs.readFile(problemsPath, 'utf8')))
+      .toEqual([expect.objectContaining({ urn: 103, reason: 'out-of-range' })]);
+    expect(error).toHaveBeenCalledWith(`Wrote 1 features to ${outputPath}`);
+  });
+
+  it('should fail the command without data files or with an unknown dataset', async () => {
+    // Arrange
+    const error = jest.spyOn(console, 'error').mockImplementation();
+
+    // Act
+    const missingCode = await runCli(['geojson', '--data', tempDir, '--dataset', 'childrens-centres']);
+    const unknownCode = await runCli(['geojson', '--data', tempDir, '--dataset', 'farms']);
+
+    // Assert
+    expect(missingCode).toBe(EXIT_FAILURE);
+    expect(error).toHaveBeenCalledWith(`WARNING: edubaseallchildrencentre.csv is not in ${tempDir}`);
+    expect(unknownCode).toBe(EXIT_FAILURE);
+    expect(error).toHaveBeenCalledWith('Invalid --dataset "farms", expected establishments or childrens-centres');
+  });
+});
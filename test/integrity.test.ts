@@ -0,0 +1,118 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { tmpdir } from 'os';
+import { fetchData, FileTemplate } from '../src/fetch-data';
+import { checkIntegrity, describeViolation } from '../src/integrity';
+import { silentReporter } from '../src/reporter';
+import { mockResponse, safeFileOps } from './test-utils';
+
+const ESTABLISHMENTS = 'URN,EstablishmentName\n100,Alpha\n101,Beta\n';
+const LINKS = 'URN,LinkURN,LinkType\n100,101,Successor\n100,999,Successor\n102,100,Predecessor\n';
+const STATE_FUNDED_LINKS = 'URN,LinkURN,LinkType\n100,101,Successor\n100,101,Predecessor\n';
+
+describe('Referential integrity', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(tmpdir(), 'test-integrity-'));
+  });
+
+  afterEach(async () => {
+    await safeFileOps.removeDir(tempDir);
+  });
+
+  const writeFiles = async (files: Record<string, string>) => {
+    for (const [file, content] of Object.entries(files)) {
+      await fs.writeFile(path.join(tempDir, file), content);
+    }
+  };
+
+  test('counts rows that reference unknown establishments and links missing from the superset', async () => {
+    // Arrange
+    await writeFiles({
+      'edubasealldata.csv': ESTABLISHMENTS,
+      'links_edubasealldata.csv': LINKS,
+      'links_edubaseallstatefunded.csv': STATE_FUNDED_LINKS,
+    });
+
+    // Act
+    const report = await checkIntegrity({
+      resolvePath: file => path.join(tempDir, file),
+      severity: { 'links-link-urn': 'error' },
+    });
+
+    // Assert
+    expect(report.checkedRules).toEqual(['links-urn', 'links-link-urn', 'statefunded-links-subset']);
+    expect(report.skippedRules.map(skipped => skipped.rule)).toContain('grouplinks-urn');
+    expect(report.violations.map(violation => [violation.rule, violation.count, violation.severity])).toEqual([
+      ['links-urn', 1, 'warning'],
+      ['links-link-urn', 1, 'error'],
+      ['statefunded-links-subset', 1, 'warning'],
+    ]);
+    expect(report.violations[1].samples).toEqual([
+      { row: 2, values: { URN: '100', LinkURN: '999', LinkType: 'Successor' } },
+    ]);
+    expect(report.failed).toBe(true);
+    expect(describeViolation(report.violations[0])).toBe('links_edubasealldata.csv: 1 row(s) break links-urn ' +
+      '(every URN in the links file is a known establishment), e.g. row 3');
+  });
+
+  test('skips empty references and rules that are turned off', async () => {
+    // Arrange
+    await writeFiles({
+      'edubasealldata.csv': ESTABLISHMENTS,
+      'links_edubasealldata.csv': LINKS,
+      'governancealldata.csv': 'GID,URN,Role\n1,,Chair\n2,100,Governor\n',
+    });
+
+    // Act
+    const report = await checkIntegrity({
+      resolvePath: file => path.join(tempDir, file),
+      severity: { 'links-urn': 'off', 'links-link-urn': 'off' },
+    });
+
+    // Assert
+    expect(report.checkedRules).toEqual(['governance-urn']);
+    expect(report.violations).toEqual([]);
+    expect(report.failed).toBe(false);
+  });
+
+  test('a transactional run withholds a set of files that fails an error rule', async () => {
+    // Arrange
+    const templates: FileTemplate[] = [
+      { urlTemplate: 'https://example.com/all{0}.csv', outputFile: 'edubasealldata.csv' },
+      { urlTemplate: 'https://example.com/links{0}.csv', outputFile: 'links_edubasealldata.csv' },
+    ];
+    const fetchFn = jest.fn((url: string) => Promise.resolve(
+      mockResponse(200, 'text/csv', url.includes('links') ? LINKS : ESTABLISHMENTS)));
+
+    // Act
+    const result = await fetchData({
+      urlTemplates: templates,
+      config: { outputDir: tempDir, transactional: true, integritySeverity: { 'links-urn': 'error' } },
+      fetchFn: fetchFn as unknown as typeof fetch,
+      configFile: false,
+      reporter: silentReporter,
+    });
+
+    // Assert
+    expect(result.published).toBe(false);
+    expect(result.withheldFiles).toEqual(['edubasealldata.csv', 'links_edubasealldata.csv']);
+    expect(result.integrity?.failed).toBe(true);
+    expect(await fs.readdir(tempDir)).not.toContain('links_edubasealldata.csv');
+  });
+
+  test('refuses error rules outside a transactional run, which could not withhold the files', async () => {
+    // Act
+    const run = fetchData({
+      urlTemplates: [{ urlTemplate: 'https://example.com/links{0}.csv', outputFile: 'links_edubasealldata.csv' }],
+      config: { outputDir: tempDir, integritySeverity: { 'links-urn': 'error' } },
+      fetchFn: jest.fn() as unknown as typeof fetch,
+      configFile: false,
+      reporter: silentReporter,
+    });
+
+    // Assert
+    await expect(run).rejects.toThrow('integritySeverity sets links-urn to error, which needs transactional');
+  });
+});
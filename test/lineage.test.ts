@@ -0,0 +1,139 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { tmpdir } from 'os';
+import { Readable } from 'stream';
+import { EXIT_FAILURE, EXIT_SUCCESS, parseLineageArgs, runCli, runLineage } from '../src/cli';
+import { buildLineage, linkDirection, LineageGraph, LINEAGE_LINKS_FILE } from '../src/lineage';
+import { readEstablishmentLinks } from '../src/records';
+import { safeFileOps } from './test-utils';
+
+// 1 and 2 merged into 3, which split into 4 and 5; 6 and 7 each claim to succeed the other
+const LINKS = 'URN,LinkURN,LinkName,LinkType,LinkEstablishedDate\n' +
+  '1,3,"Merged School","Successor - merged",31-08-2010\n' +
+  '3,1,"First School","Predecessor - merged",01-09-2010\n' +
+  '2,3,"Merged School","Successor - merged",31-08-2010\n' +
+  '3,4,"North School","Successor - Split School",31-08-2020\n' +
+  '5,3,"Merged School","Predecessor - Split School",01-03-2021\n' +
+  '3,9,"Sixth Form","Sixth Form Centre Link",\n' +
+  '6,7,"Seventh","Successor",\n' +
+  '6,7,"Seventh","Predecessor",\n';
+
+const load = (): Promise<LineageGraph> =>
+  buildLineage(readEstablishmentLinks(Readable.from([Buffer.from(LINKS, 'utf8')])));
+
+describe('Lineage', () => {
+  test('reads the direction of each link type', () => {
+    // Act & Assert
+    expect(linkDirection('Successor - amalgamated')).toBe('successor');
+    expect(linkDirection('Predecessor')).toBe('predecessor');
+    expect(linkDirection('Result of Amalgamation')).toBeNull();
+  });
+
+  test('resolves a URN to the establishments that currently replace it', async () => {
+    // Arrange
+    const graph = await load();
+
+    // Act & Assert
+    expect(graph.resolveCurrent(1)).toEqual([4, 5]);
+    expect(graph.resolveCurrent(4)).toEqual([4]);
+    expect(graph.successorsOf(3).map(edge => edge.to)).toEqual([4, 5]);
+    expect(graph.nameOf(3)).toBe('Merged School');
+  });
+
+  test('lists the history chains through a URN in order', async () => {
+    // Arrange
+    const graph = await load();
+
+    // Act
+    const chains = graph.history(3).map(chain => chain.map(step => step.urn));
+
+    // Assert
+    expect(chains).toEqual([[1, 3, 4], [1, 3, 5], [2, 3, 4], [2, 3, 5]]);
+    expect(graph.history(1)[0][1].via).toEqual({ linkType: 'Successor - merged', date: new Date(2010, 7, 31) });
+  });
+
+  test('finds cycles and contradictory links', async () => {
+    // Arrange
+    const graph = await load();
+
+    // Act
+    const conflicts = graph.findConflicts();
+
+    // Assert
+    expect(graph.findCycles()).toEqual([[6, 7]]);
+    expect(conflicts.map(conflict => [conflict.kind, conflict.from, conflict.to])).toEqual([
+      ['contradictory-direction', 6, 7],
+    ]);
+    expect(graph.resolveCurrent(6)).toEqual([]);
+  });
+
+  test('reports links whose ends disagree on the date by more than a day', async () => {
+    // Arrange
+    const graph = new LineageGraph();
+    const link = { urn: 10, linkUrn: 11, linkName: null, linkType: 'Successor', raw: {} };
+
+    // Act
+    graph.addLink({ ...link, linkEstablishedDate: new Date(2015, 7, 31) });
+    graph.addLink({ ...link, urn: 11, linkUrn: 10, linkType: 'Predecessor',
+      linkEstablishedDate: new Date(2015, 8, 1) });
+    const withinTolerance = graph.findConflicts();
+    graph.addLink({ ...link, linkEstablishedDate: new Date(2016, 0, 1) });
+
+    // Assert
+    expect(withinTolerance).toEqual([]);
+    expect(graph.findConflicts()).toEqual([expect.objectContaining({ kind: 'date-mismatch', from: 10, to: 11 })]);
+  });
+
+  describe('lineage command', () => {
+    let tempDir: string;
+    let stdoutSpy: jest.SpyInstance;
+    let logSpy: jest.SpyInstance;
+    let stderrSpy: jest.SpyInstance;
+
+    beforeEach(async () => {
+      tempDir = await fs.mkdtemp(path.join(tmpdir(), 'test-lineage-'));
+      await fs.writeFile(path.join(tempDir, LINEAGE_LINKS_FILE), LINKS);
+      stdoutSpy = jest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+      logSpy = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+      stderrSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    });
+
+    afterEach(async () => {
+      stdoutSpy.mockRestore();
+      logSpy.mockRestore();
+      stderrSpy.mockRestore();
+      await safeFileOps.removeDir(tempDir);
+    });
+
+    test('parses its arguments', () => {
+      // Act & Assert
+      expect(parseLineageArgs(['100012', '--json'])).toMatchObject({ urn: 100012, json: true });
+      expect(() => parseLineageArgs([])).toThrow('lineage needs exactly one URN');
+      expect(() => parseLineageArgs(['abc'])).toThrow('Invalid URN "abc"');
+    });
+
+    test('prints the current establishments as JSON', async () => {
+      // Act
+      const code = await runLineage(['2', '--data', tempDir, '--json']);
+
+      // Assert
+      expect(code).toBe(EXIT_SUCCESS);
+      const output = JSON.parse(stdoutSpy.mock.calls.map(call => call[0]).join(''));
+      expect(output.current).toEqual([{ urn: 4, name: 'North School' }, { urn: 5, name: null }]);
+      expect(output.history).toHaveLength(2);
+    });
+
+    test('prints the lineage as text from the command line and fails for an unknown URN', async () => {
+      // Act
+      const code = await runCli(['lineage', '2', '--data', tempDir]);
+      const unknownCode = await runCli(['lineage', '99', '--data', tempDir]);
+
+      // Assert
+      expect(code).toBe(EXIT_SUCCESS);
+      expect(logSpy).toHaveBeenCalledWith('Current establishment(s) for 2:');
+      expect(logSpy).toHaveBeenCalledWith('  4 North School');
+      expect(unknownCode).toBe(EXIT_FAILURE);
+      expect(stderrSpy).toHaveBeenCalledWith('URN 99 does not appear in the links file');
+    });
+  });
+});
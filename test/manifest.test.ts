@@ -0,0 +1,154 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { tmpdir } from 'os';
+import { fetchData } from '../src/fetch-data';
+import { MANIFEST_FILE, readManifest, verifyManifest } from '../src/manifest';
+import { mockResponse, safeFileOps } from './test-utils';
+
+describe('Run manifest', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation();
+    tempDir = await fs.mkdtemp(path.join(tmpdir(), 'test-manifest-'));
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await safeFileOps.removeDir(tempDir);
+  });
+
+  const fetchInto = (outputDir: string, files: Record<string, string>) => fetchData({
+    date: new Date(2025, 6, 1),
+    urlTemplates: Object.keys(files).map(file => ({
+      urlTemplate: `https://example.com/${file.replace('.csv', '')}{0}.csv`,
+      outputFile: file,
+    })),
+    config: { outputDir, retries: 0 },
+    fetchFn: (async (url: string) => {
+      const file = Object.keys(files).find(name => url.includes(`/${name.replace('.csv', '')}2`));
+      return file && files[file]
+        ? mockResponse(200, 'text/csv', files[file])
+        : mockResponse(404, 'text/plain', 'Not Found');
+    }) as unknown as typeof fetch,
+  });
+
+  test('records provenance, checksum, row count and header for downloaded files', async () => {
+    // Act
+    await fetchInto(tempDir, { 'a.csv': '"URN","Name"\n1,"Alpha"\n2,"Beta"\n' });
+
+    // Assert
+    const manifest = await readManifest(tempDir);
+    expect(manifest.files['a.csv']).toMatchObject({
+      file: 'a.csv',
+      url: 'https://example.com/a20250701.csv',
+      date: '2025-07-01',
+      bytes: 32,
+      rowCount: 2,
+      header: ['URN', 'Name'],
+    });
+    expect(manifest.files['a.csv'].sha256).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  test('keeps entries for files that were not replaced', async () => {
+    // Arrange
+    await fetchInto(tempDir, { 'a.csv': 'URN,Name\n1,Alpha', 'b.csv': 'URN,Name\n2,Beta' });
+
+    // Act
+    await fetchInto(tempDir, { 'a.csv': 'URN,Name\n1,Alpha\n3,Gamma', 'b.csv': '' });
+
+    // Assert
+    const manifest = await readManifest(tempDir);
+    expect(Object.keys(manifest.files)).toEqual(['a.csv', 'b.csv']);
+    expect(manifest.files['a.csv'].rowCount).toBe(2);
+    expect(manifest.files['b.csv'].rowCount).toBe(1);
+  });
+
+  test('verifies files on disk against the manifest', async () => {
+    // Arrange
+    await fetchInto(tempDir, { 'a.csv': 'URN,Name\n1,Alpha', 'b.csv': 'URN,Name\n2,Beta' });
+    expect((await verifyManifest(tempDir)).ok).toBe(true);
+
+    // Act
+    await fs.writeFile(path.join(tempDir, 'a.csv'), 'URN,Name\n1,Tampered');
+    await fs.unlink(path.join(tempDir, 'b.csv'));
+    const verification = await verifyManifest(tempDir);
+
+    // Assert
+    expect(verification.ok).toBe(false);
+    expect(verification.files.map(file => [file.file, file.status])).toEqual([
+      ['a.csv', 'modified'],
+      ['b.csv', 'missing'],
+    ]);
+  });
+
+  test('does not write a manifest when disabled', async () => {
+    // Act
+    await fetchData({
+      urlTemplates: [{ urlTemplate: 'https://example.com/a.csv', outputFile: 'a.csv' }],
+      config: { outputDir: tempDir, writeManifest: false },
+      fetchFn: (async () => mockResponse(200, 'text/csv', 'URN,Name\n1,Alpha')) as unknown as typeof fetch,
+    });
+
+    // Assert
+    expect(await safeFileOps.exists(path.join(tempDir, MANIFEST_FILE))).toBe(false);
+  });
+
+  test('remembers validators and reports unchanged files separately', async () => {
+    // Arrange
+    const fetchFn = jest.fn()
+      .mockResolvedValueOnce(mockResponse(200, 'text/csv', 'URN,Name\n1,Alpha', { ETag: '"v1"' }))
+      .mockResolvedValueOnce(mockResponse(304, 'text/csv', ''));
+    const options = {
+      date: new Date(2025, 6, 1),
+      urlTemplates: [{ urlTemplate: 'https://example.com/a{0}.csv', outputFile: 'a.csv' }],
+      config: { outputDir: tempDir },
+      fetchFn: fetchFn as unknown as typeof fetch,
+    };
+
+    // Act
+    const first = await fetchData(options);
+    const second = await fetchData(options);
+
+    // Assert
+    expect(first.downloadedFiles).toHaveLength(1);
+    expect((await readManifest(tempDir)).files['a.csv'].etag).toBe('"v1"');
+    expect(fetchFn.mock.calls[1][1].headers).toEqual({ 'If-None-Match': '"v1"' });
+    expect(second.downloadedFiles).toEqual([]);
+    expect(second.skippedFiles).toEqual([]);
+    expect(second.unchangedFiles).toEqual(['a.csv']);
+  });
+
+  test('refreshes the URL and validators of a file found unchanged on a later day', async () => {
+    // Arrange
+    const fetchFn = jest.fn()
+      .mockResolvedValueOnce(mockResponse(200, 'text/csv', 'URN,Name\n1,Alpha', { ETag: '"v1"' }))
+      .mockResolvedValueOnce(mockResponse(200, 'text/csv', 'URN,Name\n1,Alpha', { ETag: '"v2"' }))
+      .mockResolvedValueOnce(mockResponse(304, 'text/csv', '', { ETag: '"v2"' }));
+    const run = (date: Date) => fetchData({
+      date,
+      urlTemplates: [{ urlTemplate: 'https://example.com/a{0}.csv', outputFile: 'a.csv' }],
+      config: { outputDir: tempDir },
+      fetchFn: fetchFn as unknown as typeof fetch,
+    });
+
+    // Act
+    await run(new Date(2025, 6, 1));
+    const secondDay = await run(new Date(2025, 6, 2));
+    const manifest = await readManifest(tempDir);
+    const rerun = await run(new Date(2025, 6, 2));
+
+    // Assert
+    expect(secondDay.unchangedFiles).toEqual(['a.csv']);
+    expect(fetchFn.mock.calls[1][1].headers).toBeUndefined();
+    expect(manifest.files['a.csv']).toMatchObject({
+      url: 'https://example.com/a20250702.csv',
+      date: '2025-07-02',
+      etag: '"v2"',
+    });
+    expect(fetchFn.mock.calls[2][1].headers).toEqual({ 'If-None-Match': '"v2"' });
+    expect(rerun.unchangedFiles).toEqual(['a.csv']);
+    // Nothing new was learnt on the rerun, so the manifest is left as it was
+    expect(await readManifest(tempDir)).toEqual(manifest);
+  });
+});
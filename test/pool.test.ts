@@ -0,0 +1,34 @@
+import { mapWithConcurrency } from '../src/pool';
+
+describe('mapWithConcurrency', () => {
+  test('keeps results in input order regardless of completion order', async () => {
+    // Arrange
+    const delays = [30, 10, 20, 0];
+
+    // Act
+    const results = await mapWithConcurrency(delays, 2, async (delay, index) => {
+      await new Promise(resolve => setTimeout(resolve, delay));
+      return index;
+    });
+
+    // Assert
+    expect(results).toEqual([0, 1, 2, 3]);
+  });
+
+  test('never runs more than the limit at once', async () => {
+    // Arrange
+    let inFlight = 0;
+    let maxInFlight = 0;
+
+    // Act
+    await mapWithConcurrency(Array.from({ length: 8 }, (_, i) => i), 3, async () => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      inFlight--;
+    });
+
+    // Assert
+    expect(maxInFlight).toBe(3);
+  });
+});
@@ -0,0 +1,183 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { tmpdir } from 'os';
+import { resolveSettings } from '../src/config';
+import { CHANGES_JSON_FILE, CHANGES_MARKDOWN_FILE } from '../src/diff';
+import { DEFAULT_CONFIG, DEFAULT_URL_TEMPLATES, fetchData, FileTemplate } from '../src/fetch-data';
+import { readManifest } from '../src/manifest';
+import { applyPrivacyFilter, hashValue, privacyColumnsFor, privacyFileName } from '../src/privacy';
+import { silentReporter } from '../src/reporter';
+import { mockResponse, safeFileOps } from './test-utils';
+
+const GOVERNANCE = '"GID","URN","Role","Title","Forename 1","Surname","Appointing body","Date of appointment"\r\n' +
+  '"1001","100","Governor","Dr","Alex","Smith","Trust","01-09-2015"\r\n' +
+  '"1002","100","Chair of governors","","Sam","O\'Brien, Jr","Parents",""\r\n';
+
+const GOVERNANCE_TEMPLATE: FileTemplate = {
+  urlTemplate: 'https://example.com/gov{0}.csv',
+  outputFile: 'governancealldata.csv',
+};
+
+const readLines = async (filePath: string) => (await fs.readFile(filePath, 'utf8')).trim().split('\r\n');
+
+describe('Privacy filter', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(tmpdir(), 'test-privacy-'));
+  });
+
+  afterEach(async () => {
+    await safeFileOps.removeDir(tempDir);
+  });
+
+  test('drops, hashes and masks the chosen columns', async () => {
+    // Arrange
+    const sourcePath = path.join(tempDir, 'governancealldata.csv');
+    await fs.writeFile(sourcePath, GOVERNANCE);
+
+    // Act
+    const result = await applyPrivacyFilter(sourcePath, path.join(tempDir, 'filtered.csv'), {
+      GID: 'hash',
+      'Forename 1': 'drop',
+      Surname: 'mask',
+      'Not a column': 'drop',
+    }, { salt: 'pepper' });
+
+    // Assert
+    expect(result).toEqual({ dropped: ['Forename 1'], hashed: ['GID'], masked: ['Surname'], rowCount: 2 });
+    expect(await readLines(path.join(tempDir, 'filtered.csv'))).toEqual([
+      '"GID","URN","Role","Title","Surname","Appointing body","Date of appointment"',
+      `"${hashValue('1001', 'pepper')}","100","Governor","Dr","S***","Trust","01-09-2015"`,
+      `"${hashValue('1002', 'pepper')}","100","Chair of governors","","O***","Parents",""`,
+    ]);
+    expect(hashValue('1001', 'pepper')).not.toBe(hashValue('1001'));
+  });
+
+  test('combines the built-in profile with the columns a template sets', () => {
+    // Act
+    const columns = privacyColumnsFor('public', { ...GOVERNANCE_TEMPLATE, privacy: { public: { Surname: 'mask' } } });
+
+    // Assert
+    expect(columns).toMatchObject({ GID: 'hash', 'Forename 1': 'drop', Surname: 'mask' });
+    expect(privacyColumnsFor('partner', GOVERNANCE_TEMPLATE)).toEqual({});
+    expect(privacyFileName('governancealldata.csv', 'public')).toBe('governancealldata.public.csv');
+  });
+
+  test('rejects unknown profiles and actions in the configuration', async () => {
+    // Arrange
+    const configPath = path.join(tempDir, 'gias.config.json');
+    await fs.writeFile(configPath, JSON.stringify({
+      overrides: { 'governancealldata.csv': { privacy: { partner: { Surname: 'redact' } } } },
+    }));
+    const resolve = (env: NodeJS.ProcessEnv, configFile: string | false = false) => resolveSettings({
+      defaults: DEFAULT_CONFIG,
+      defaultTemplates: DEFAULT_URL_TEMPLATES,
+      configFile,
+      env,
+    });
+
+    // Act & Assert
+    expect(resolve({ GIAS_PRIVACY_PROFILE: 'public' }).config.privacyProfile).toBe('public');
+    expect(() => resolve({ GIAS_PRIVACY_PROFILE: 'partner' })).toThrow('privacyProfile "partner" is not defined');
+    expect(() => resolve({ GIAS_PRIVACY_OUTPUT: 'elsewhere' })).toThrow('GIAS_PRIVACY_OUTPUT must be one of');
+    expect(() => resolve({}, configPath)).toThrow('privacy.partner["Surname"] must be one of drop, hash, mask');
+    expect(() => resolveSettings({
+      defaults: DEFAULT_CONFIG,
+      defaultTemplates: DEFAULT_URL_TEMPLATES,
+      urlTemplates: [{ ...GOVERNANCE_TEMPLATE, preserveEncoding: true }],
+      configFile: false,
+      env: { GIAS_PRIVACY_PROFILE: 'public' },
+    })).toThrow('governancealldata.csv: preserveEncoding cannot be combined with privacyProfile "public"');
+  });
+
+  test('fetchData writes a filtered copy alongside the original and records it', async () => {
+    // Act
+    const result = await fetchData({
+      urlTemplates: [GOVERNANCE_TEMPLATE],
+      config: { outputDir: tempDir, privacyProfile: 'public' },
+      fetchFn: jest.fn().mockResolvedValue(mockResponse(200, 'text/csv', GOVERNANCE)) as unknown as typeof fetch,
+      configFile: false,
+      reporter: silentReporter,
+    });
+
+    // Assert
+    expect(await fs.readFile(path.join(tempDir, 'governancealldata.csv'), 'utf8')).toBe(GOVERNANCE);
+    expect((await readLines(path.join(tempDir, 'governancealldata.public.csv')))[0])
+      .toBe('"GID","URN","Role","Appointing body"');
+    expect(result.privacy).toMatchObject({
+      profile: 'public',
+      output: 'alongside',
+      files: [{ file: 'governancealldata.csv', output: 'governancealldata.public.csv', rowCount: 2 }],
+    });
+    const manifest = await readManifest(tempDir);
+    expect(manifest.files['governancealldata.csv'].privacy)
+      .toEqual({ profile: 'public', output: 'governancealldata.public.csv' });
+  });
+
+  test('fetchData leaves the protected columns out of the change report', async () => {
+    // Arrange
+    const establishments = (head: string, status: string) =>
+      '"URN","EstablishmentName","HeadLastName","EstablishmentStatus (name)"\n' +
+      `100,"Alpha School","${head}","${status}"\n`;
+    const fetchFn = jest.fn()
+      .mockResolvedValueOnce(mockResponse(200, 'text/csv', establishments('Smith', 'Open')))
+      .mockResolvedValueOnce(mockResponse(200, 'text/csv', establishments('Jones', 'Closed')));
+    const run = () => fetchData({
+      urlTemplates: [{
+        urlTemplate: 'https://example.com/all{0}.csv',
+        outputFile: 'edubasealldata.csv',
+        schema: { requiredColumns: ['URN'], keyColumns: ['URN'] },
+      }],
+      config: { outputDir: tempDir, privacyProfile: 'public', changeReport: true },
+      fetchFn: fetchFn as unknown as typeof fetch,
+      configFile: false,
+      reporter: silentReporter,
+    });
+    await run();
+
+    // Act
+    const result = await run();
+
+    // Assert
+    expect(result.recordChanges[0].modified).toEqual([{
+      key: '100',
+      name: 'Alpha School',
+      changes: [{ column: 'EstablishmentStatus (name)', previous: 'Open', current: 'Closed' }],
+    }]);
+    for (const file of [CHANGES_JSON_FILE, CHANGES_MARKDOWN_FILE]) {
+      const report = await fs.readFile(path.join(tempDir, file), 'utf8');
+      expect(report).toContain('Closed');
+      expect(report).not.toMatch(/Smith|Jones|HeadLastName/);
+    }
+  });
+
+  test('fetchData filters the file in place and treats an identical download as unchanged', async () => {
+    // Arrange
+    const options = {
+      urlTemplates: [GOVERNANCE_TEMPLATE],
+      config: { outputDir: tempDir, privacyProfile: 'public', privacyOutput: 'replace' as const },
+      fetchFn: jest.fn().mockImplementation(async () => mockResponse(200, 'text/csv', GOVERNANCE)) as unknown as
+        typeof fetch,
+      configFile: false as const,
+      reporter: silentReporter,
+    };
+
+    // Act
+    const first = await fetchData(options);
+    const second = await fetchData(options);
+
+    // Assert
+    expect(await readLines(path.join(tempDir, 'governancealldata.csv'))).toHaveLength(3);
+    expect((await readLines(path.join(tempDir, 'governancealldata.csv')))[1])
+      .toBe(`"${hashValue('1001')}","100","Governor","Trust"`);
+    expect(first.downloadedFiles).toHaveLength(1);
+    expect(second.unchangedFiles).toEqual(['governancealldata.csv']);
+    expect(second.columnDrift).toEqual([]);
+    const manifest = await readManifest(tempDir);
+    expect(manifest.files['governancealldata.csv']).toMatchObject({
+      privacy: { profile: 'public', output: 'governancealldata.csv' },
+      header: ['GID', 'URN', 'Role', 'Appointing body'],
+    });
+  });
+});
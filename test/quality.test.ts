@@ -0,0 +1,149 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { tmpdir } from 'os';
+import { Readable } from 'stream';
+import { fetchData } from '../src/fetch-data';
+import { ConfigError } from '../src/config';
+import { checkQuality, ESTABLISHMENT_QUALITY_RULES, QualityRule, QualityRuleError } from '../src/quality';
+import { silentReporter } from '../src/reporter';
+import { ESTABLISHMENT_SCHEMA } from '../src/schema';
+import { mockResponse, safeFileOps } from './test-utils';
+
+const HEADER = 'URN,LA (code),LA (name),EstablishmentName,EstablishmentStatus (code),EstablishmentStatus (name),' +
+  'OpenDate,Postcode\n';
+const GOOD_ROWS = '100,201,City of London,Alpha,1,Open,01-09-2010,EC3A 5DE\n' +
+  '101,201,City of London,Beta,2,Closed,,EC2Y 8BB\n';
+const BAD_ROWS = '100,201,City of London,Alpha again,1,Open,01-09-2010,EC3A 5DE\n' +
+  '102,201,City of London,Gamma,2,Open,31-02-2010,NOT A CODE\n' +
+  '103,201,City of London,Delta\n';
+
+const source = (content: string) => Readable.from([Buffer.from(content, 'utf8')]);
+
+describe('Data quality rules', () => {
+  test('reports each failing row with its rule, row number, URN and value', async () => {
+    // Act
+    const report = await checkQuality('schools.csv', source(HEADER + GOOD_ROWS + BAD_ROWS),
+      ESTABLISHMENT_QUALITY_RULES);
+
+    // Assert
+    expect(report.rowCount).toBe(5);
+    expect(report.failedRows).toBe(3);
+    expect(report.ruleCounts).toEqual({
+      'unique-urn': 1,
+      'establishment-status': 1,
+      'open-date': 1,
+      'postcode': 1,
+      'field-count': 1,
+    });
+    expect(report.issues).toContainEqual(expect.objectContaining({
+      rule: 'open-date',
+      row: 4,
+      urn: '102',
+      column: 'OpenDate',
+      value: '31-02-2010',
+    }));
+    expect(report.issues).toContainEqual(expect.objectContaining({
+      rule: 'establishment-status',
+      urn: '102',
+      message: 'EstablishmentStatus (code) 2 should be "Closed", found "Open"',
+    }));
+    expect(report.rejected).toBe(false);
+  });
+
+  test('applies custom rules and rejects files above the threshold', async () => {
+    // Arrange
+    const rules: QualityRule[] = [{
+      name: 'named',
+      type: 'custom',
+      column: 'EstablishmentName',
+      check: row => row['EstablishmentName'].startsWith('A') ? null : 'Name does not start with A',
+    }];
+
+    // Act
+    const report = await checkQuality('schools.csv', source(HEADER + GOOD_ROWS), rules, { thresholdPercent: 25 });
+
+    // Assert
+    expect(report.issues).toEqual([{
+      rule: 'named',
+      row: 2,
+      urn: '101',
+      column: 'EstablishmentName',
+      value: 'Beta',
+      message: 'Name does not start with A',
+    }]);
+    expect(report.failedPercent).toBe(50);
+    expect(report.rejected).toBe(true);
+  });
+
+  test('rejects rules of an unknown type or with an invalid pattern', async () => {
+    // Arrange
+    const rules = [
+      { name: 'typo', type: 'uniq', column: 'URN' },
+      { name: 'postcode', type: 'pattern', column: 'Postcode', pattern: '[A-Z' },
+    ] as unknown as QualityRule[];
+
+    // Act
+    const checking = checkQuality('schools.csv', source(HEADER + GOOD_ROWS), rules);
+
+    // Assert
+    await expect(checking).rejects.toThrow(QualityRuleError);
+    await expect(checking).rejects.toThrow(
+      'qualityRules[0].type must be one of unique, pattern, date, code-name, field-count, custom, got "uniq"; ' +
+      'qualityRules[1].pattern is not a valid regular expression');
+  });
+
+  describe('during a fetch', () => {
+    let tempDir: string;
+
+    beforeEach(async () => {
+      tempDir = await fs.mkdtemp(path.join(tmpdir(), 'test-quality-'));
+    });
+
+    afterEach(async () => {
+      await safeFileOps.removeDir(tempDir);
+    });
+
+    test('keeps the existing file when too many rows fail', async () => {
+      // Arrange
+      const outputPath = path.join(tempDir, 'schools.csv');
+      await fs.writeFile(outputPath, HEADER + GOOD_ROWS);
+
+      // Act
+      const result = await fetchData({
+        urlTemplates: [{ urlTemplate: 'https://example.com/schools{0}.csv', outputFile: 'schools.csv',
+          schema: ESTABLISHMENT_SCHEMA }],
+        config: { outputDir: tempDir, retries: 0, qualityThresholdPercent: 10 },
+        fetchFn: jest.fn().mockResolvedValue(
+          mockResponse(200, 'text/csv', HEADER + GOOD_ROWS + BAD_ROWS)) as unknown as typeof fetch,
+        configFile: false,
+        reporter: silentReporter,
+      });
+
+      // Assert
+      expect(result.skippedFiles).toEqual(['schools.csv']);
+      expect(result.qualityReports).toHaveLength(1);
+      expect(result.qualityReports[0].rejected).toBe(true);
+      expect(await fs.readFile(outputPath, 'utf8')).toBe(HEADER + GOOD_ROWS);
+    });
+
+    test('reports malformed rules as a configuration error before downloading', async () => {
+      // Arrange
+      const fetchFn = jest.fn().mockResolvedValue(mockResponse(200, 'text/csv', HEADER + GOOD_ROWS));
+
+      // Act
+      const fetching = fetchData({
+        urlTemplates: [{ urlTemplate: 'https://example.com/schools{0}.csv', outputFile: 'schools.csv',
+          qualityRules: [{ name: 'typo', type: 'uniq' } as unknown as QualityRule] }],
+        config: { outputDir: tempDir },
+        fetchFn: fetchFn as unknown as typeof fetch,
+        configFile: false,
+        reporter: silentReporter,
+      });
+
+      // Assert
+      await expect(fetching).rejects.toThrow(ConfigError);
+      await expect(fetching).rejects.toThrow('schools.csv: qualityRules[0].type must be one of');
+      expect(fetchFn).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,115 @@
+import * as path from 'path';
+import { Readable } from 'stream';
+import { DEFAULT_URL_TEMPLATES } from '../src/fetch-data';
+import {
+  dateField,
+  Establishment,
+  EstablishmentLink,
+  parseGovernanceRecord,
+  parseGroupLink,
+  RECORD_PARSERS,
+  readChildrensCentres,
+  readEstablishmentLinks,
+  readEstablishments,
+  RecordParseError,
+} from '../src/records';
+
+const fixturesDir = path.join(__dirname, '__fixtures__');
+
+const collect = async <T>(records: AsyncIterable<T>): Promise<T[]> => {
+  const items: T[] = [];
+  for await (const record of records) {
+    items.push(record);
+  }
+  return items;
+};
+
+describe('Typed records', () => {
+  test('parses establishments with code/name pairs, dates and quoted commas', async () => {
+    // Act
+    const establishments: Establishment[] = await collect(
+      readEstablishments(path.join(fixturesDir, 'establishments.csv'))
+    );
+
+    // Assert
+    expect(establishments).toHaveLength(2);
+    const [open, closed] = establishments;
+    expect(open.urn).toBe(100000);
+    expect(open.la).toEqual({ code: '201', name: 'City of London' });
+    expect(open.openDate).toBeNull();
+    expect(open.trust).toBeNull();
+    expect(open.address.street).toBe('St James\'s Passage, Duke\'s Place');
+    expect(open.easting).toBe(533498);
+    expect(closed.establishmentStatus).toEqual({ code: '2', name: 'Closed' });
+    expect(closed.openDate).toEqual(new Date(1894, 8, 1));
+    expect(closed.closeDate).toEqual(new Date(2024, 7, 31));
+    expect(closed.schoolCapacity).toBeNull();
+    expect(closed.trust).toEqual({ code: '1234', name: 'Example "Quoted" Trust' });
+    expect(closed.raw['EstablishmentNumber']).toBe('6005');
+  });
+
+  test('reads links from a byte stream, including a BOM and quoted line breaks', async () => {
+    // Arrange
+    const csv = '﻿"URN","LinkURN","LinkName","LinkType","LinkEstablishedDate"\r\n' +
+      '100006,134643,"CCfL Key Stage 3\nPRU","Predecessor - merged","01-01-2022"\r\n';
+    const source = Readable.from([Buffer.from(csv, 'utf8')]);
+
+    // Act
+    const links: EstablishmentLink[] = await collect(readEstablishmentLinks(source));
+
+    // Assert
+    expect(links).toHaveLength(1);
+    expect(links[0]).toMatchObject({
+      urn: 100006,
+      linkUrn: 134643,
+      linkName: 'CCfL Key Stage 3\nPRU',
+      linkType: 'Predecessor - merged',
+      linkEstablishedDate: new Date(2022, 0, 1),
+    });
+  });
+
+  test('maps group and governance columns that have no "(name)" suffix', () => {
+    // Act
+    const group = parseGroupLink({
+      'URN': '140000',
+      'Group UID': '2044',
+      'Group Type (code)': '06',
+      'Group Type': 'Multi-academy trust',
+      'Joined date': '01-09-2013',
+    });
+    const governor = parseGovernanceRecord({ 'GID': '123', 'Role': 'Chair of Trustees', 'Date of appointment': '' });
+
+    // Assert
+    expect(group.groupType).toEqual({ code: '06', name: 'Multi-academy trust' });
+    expect(group.joinedDate).toEqual(new Date(2013, 8, 1));
+    expect(governor).toMatchObject({ gid: '123', role: 'Chair of Trustees', urn: null, dateOfAppointment: null });
+  });
+
+  test('rejects rows without their identifying columns and invalid dates', () => {
+    // Act & Assert
+    expect(() => parseGroupLink({ 'URN': 'abc', 'Group UID': '1' })).toThrow(RecordParseError);
+    expect(dateField({ OpenDate: '31-02-2024' }, 'OpenDate')).toBeNull();
+  });
+
+  test('has a parser for every default template', () => {
+    // Act & Assert
+    DEFAULT_URL_TEMPLATES.forEach(template => {
+      expect(Object.keys(RECORD_PARSERS)).toContain(template.outputFile);
+    });
+  });
+
+  test('reads the children\'s centre extract in the repository', async () => {
+    // Arrange
+    const filePath = path.join(__dirname, '..', 'data', 'edubaseallchildrencentre.csv');
+
+    // Act
+    const centres = await collect(readChildrensCentres(filePath));
+
+    // Assert
+    expect(centres.length).toBeGreaterThan(0);
+    centres.forEach(centre => {
+      expect(Number.isInteger(centre.urn)).toBe(true);
+      expect(centre.openDate === null || centre.openDate instanceof Date).toBe(true);
+    });
+  });
+});
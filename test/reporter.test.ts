@@ -0,0 +1,141 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { tmpdir } from 'os';
+import { DownloadResult, fetchData } from '../src/fetch-data';
+import {
+  ConsoleReporter,
+  FetchEvent,
+  GitHubActionsReporter,
+  JsonLinesReporter,
+  renderSummaryMarkdown,
+} from '../src/reporter';
+import { mockResponse, safeFileOps } from './test-utils';
+
+const result = (): DownloadResult => ({
+  downloadedFiles: ['/data/links.csv'],
+  skippedFiles: ['groups.csv'],
+  unchangedFiles: ['schools.csv'],
+  fileSizeWarnings: ['WARNING: File links.csv has increased in size by 50.00% (from 10 to 15 bytes)'],
+  columnDrift: [],
+  sources: [],
+  recordChanges: [],
+  published: true,
+  missingRequired: [],
+  withheldFiles: [],
+  qualityReports: [],
+});
+
+describe('Reporters', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(tmpdir(), 'test-reporter-'));
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await safeFileOps.removeDir(tempDir);
+  });
+
+  test('fetchData emits typed events in order', async () => {
+    // Arrange
+    const events: FetchEvent[] = [];
+    const fetchFn = jest.fn((url: string) => Promise.resolve(url.includes('/links')
+      ? mockResponse(200, 'text/csv', '"URN","LinkURN","LinkType"\n1,2,"Successor"')
+      : mockResponse(404, 'text/plain', 'Not Found')));
+
+    // Act
+    await fetchData({
+      config: { outputDir: tempDir, retries: 0 },
+      urlTemplates: [
+        { urlTemplate: 'https://example.com/links{0}.csv', outputFile: 'links.csv' },
+        { urlTemplate: 'https://example.com/groups{0}.csv', outputFile: 'groups.csv' },
+      ],
+      fetchFn: fetchFn as unknown as typeof fetch,
+      configFile: false,
+      reporter: { report: event => events.push(event) },
+    });
+
+    // Assert
+    expect(events.map(event => event.type)).toEqual([
+      'download-started',
+      'saved',
+      'download-started',
+      'http-error',
+      'skipped',
+      'manifest-written',
+      'change-report-written',
+      'summary',
+    ]);
+    expect(events[1]).toEqual({ type: 'saved', file: 'links.csv', bytes: 42, rowCount: 1, encoding: 'utf-8' });
+    expect(events[3]).toMatchObject({ type: 'http-error', file: 'groups.csv', status: 404, transient: false });
+  });
+
+  test('the console reporter can move everything to stderr', () => {
+    // Arrange
+    const logSpy = jest.spyOn(console, 'log').mockImplementation();
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation();
+
+    // Act
+    const reporter = new ConsoleReporter({ stderr: true });
+    reporter.report({ type: 'saved', file: 'a.csv', bytes: 1, rowCount: 0, encoding: 'utf-8' });
+
+    // Assert
+    expect(logSpy).not.toHaveBeenCalled();
+    expect(errorSpy).toHaveBeenCalledWith('Successfully validated and saved a.csv');
+  });
+
+  test('the JSON-lines reporter writes one timestamped object per event', () => {
+    // Arrange
+    const lines: string[] = [];
+    const reporter = new JsonLinesReporter(line => lines.push(line));
+
+    // Act
+    reporter.report({ type: 'download-started', file: 'a.csv', url: 'https://example.com/a.csv' });
+    reporter.report({ type: 'unchanged', file: 'a.csv' });
+
+    // Assert
+    expect(lines).toHaveLength(2);
+    expect(lines.every(line => line.endsWith('\n'))).toBe(true);
+    const first = JSON.parse(lines[0]);
+    expect(first).toMatchObject({ type: 'download-started', file: 'a.csv', url: 'https://example.com/a.csv' });
+    expect(new Date(first.time).toString()).not.toBe('Invalid Date');
+  });
+
+  test('the GitHub Actions reporter annotates warnings and writes a job summary', async () => {
+    // Arrange
+    jest.spyOn(console, 'log').mockImplementation();
+    const lines: string[] = [];
+    const summaryPath = path.join(tempDir, 'summary.md');
+    const reporter = new GitHubActionsReporter({
+      write: line => lines.push(line),
+      summaryPath,
+      outputDir: path.join(process.cwd(), 'data'),
+    });
+
+    // Act
+    reporter.report({ type: 'size-warning', file: 'links.csv', message: 'Grew by 50%\nfrom 10 bytes' });
+    reporter.report({ type: 'skipped', file: 'groups.csv', reason: 'HTTP error! Status: 404 - Not Found' });
+    reporter.report({ type: 'saved', file: 'links.csv', bytes: 15, rowCount: 1, encoding: 'utf-8' });
+    reporter.report({ type: 'summary', result: result() });
+
+    // Assert
+    expect(lines).toEqual([
+      `::warning file=${path.join('data', 'links.csv')},title=File size changed::Grew by 50%25%0Afrom 10 bytes\n`,
+      `::warning file=${path.join('data', 'groups.csv')},title=File skipped::HTTP error! Status: 404 - Not Found\n`,
+    ]);
+    const summary = await fs.readFile(summaryPath, 'utf8');
+    expect(summary).toContain('| links.csv | downloaded |');
+    expect(summary).toContain('| schools.csv | unchanged |');
+    expect(summary).toContain('| groups.csv | skipped |');
+    expect(summary).toContain('- WARNING: File links.csv has increased in size');
+  });
+
+  test('renderSummaryMarkdown lists the totals', () => {
+    // Act
+    const markdown = renderSummaryMarkdown(result());
+
+    // Assert
+    expect(markdown).toContain('Downloaded: 1, unchanged: 1, skipped: 1');
+  });
+});
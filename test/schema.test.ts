@@ -0,0 +1,82 @@
+import { parseCsvLine, extractHeader } from '../src/csv';
+import { detectColumnDrift, hasColumnDrift, LINKS_SCHEMA, validateHeader } from '../src/schema';
+
+describe('Schema Validation Functions', () => {
+  describe('parseCsvLine', () => {
+    test('splits quoted and unquoted fields', () => {
+      // Act & Assert
+      expect(parseCsvLine('"URN","LA (code)",EstablishmentName')).toEqual(['URN', 'LA (code)', 'EstablishmentName']);
+      expect(parseCsvLine('1,"Smith, Jones",""')).toEqual(['1', 'Smith, Jones', '']);
+      expect(parseCsvLine('"St Paul""s",2')).toEqual(['St Paul"s', '2']);
+    });
+  });
+
+  describe('extractHeader', () => {
+    test('strips byte order mark and carriage return', () => {
+      // Act & Assert
+      expect(extractHeader('\uFEFF"URN","LinkURN"\r\n1,2')).toEqual(['URN', 'LinkURN']);
+      expect(extractHeader('')).toEqual([]);
+    });
+  });
+
+  describe('validateHeader', () => {
+    test('accepts a header containing every required column', () => {
+      // Arrange
+      const content = '"URN","LinkURN","LinkName","LinkType","LinkEstablishedDate"\n100006,134643,"PRU","Successor",""';
+
+      // Act
+      const result = validateHeader(content, LINKS_SCHEMA);
+
+      // Assert
+      expect(result.isValid).toBe(true);
+      expect(result.missingColumns).toEqual([]);
+    });
+
+    test('rejects a header missing required columns with a precise reason', () => {
+      // Arrange
+      const content = '"URN","LinkName"\n100006,"PRU"';
+
+      // Act
+      const result = validateHeader(content, LINKS_SCHEMA);
+
+      // Assert
+      expect(result.isValid).toBe(false);
+      expect(result.missingColumns).toEqual(['LinkURN', 'LinkType']);
+      expect(result.reason).toBe('Header is missing required columns: LinkURN, LinkType');
+    });
+
+    test('rejects content with no header row', () => {
+      // Act
+      const result = validateHeader('', LINKS_SCHEMA);
+
+      // Assert
+      expect(result.isValid).toBe(false);
+      expect(result.reason).toBe('Content has no header row');
+    });
+  });
+
+  describe('detectColumnDrift', () => {
+    test('reports added, removed and reordered columns', () => {
+      // Arrange
+      const previous = ['URN', 'LinkURN', 'LinkName', 'LinkType'];
+      const current = ['URN', 'LinkType', 'LinkURN', 'LinkEstablishedDate'];
+
+      // Act
+      const drift = detectColumnDrift(previous, current);
+
+      // Assert
+      expect(drift.added).toEqual(['LinkEstablishedDate']);
+      expect(drift.removed).toEqual(['LinkName']);
+      expect(drift.reordered).toEqual(['LinkType', 'LinkURN']);
+      expect(hasColumnDrift(drift)).toBe(true);
+    });
+
+    test('reports no drift for identical headers', () => {
+      // Act
+      const drift = detectColumnDrift(['URN', 'LinkURN'], ['URN', 'LinkURN']);
+
+      // Assert
+      expect(hasColumnDrift(drift)).toBe(false);
+    });
+  });
+});
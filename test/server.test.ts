@@ -0,0 +1,112 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { tmpdir } from 'os';
+import { parseServeArgs } from '../src/cli';
+import { ApiServer, handleRequest, loadSnapshot, SNAPSHOT_FILES } from '../src/server';
+import { writeStoredCopy } from '../src/storage';
+import { safeFileOps } from './test-utils';
+
+const ESTABLISHMENTS = '"URN","LA (code)","LA (name)","EstablishmentName","EstablishmentStatus (code)",' +
+  '"EstablishmentStatus (name)","OpenDate","Postcode"\n' +
+  '100,"873","Cambridgeshire","Bar Hill Primary","1","Open","01-09-2010","CB23 8DY"\n' +
+  '101,"873","Cambridgeshire","Old Bar Hill School","2","Closed","","CB23 8DZ"\n' +
+  '102,"201","City of London","Aldgate School","1","Open","","EC3A 5DE"\n';
+const LINKS = 'URN,LinkURN,LinkName,LinkType,LinkEstablishedDate\n101,100,"Bar Hill Primary",Successor,31-08-2010\n';
+const GROUP_LINKS = '"URN","Group UID","Group Type (code)","Group Type","Joined date"\n' +
+  '100,"5001","06","Multi-academy trust","01-09-2012"\n102,"5001","06","Multi-academy trust",""\n';
+
+describe('HTTP API', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(tmpdir(), 'test-server-'));
+    await fs.writeFile(path.join(tempDir, SNAPSHOT_FILES.establishments), ESTABLISHMENTS);
+    await fs.writeFile(path.join(tempDir, SNAPSHOT_FILES.links), LINKS);
+    await fs.writeFile(path.join(tempDir, SNAPSHOT_FILES.groupLinks), GROUP_LINKS);
+  });
+
+  afterEach(async () => {
+    await safeFileOps.removeDir(tempDir);
+  });
+
+  const get = async (pathAndQuery: string) =>
+    handleRequest(await loadSnapshot(tempDir), new URL(pathAndQuery, 'http://localhost'));
+
+  test('filters establishments by LA, status and postcode prefix, with paging and fields', async () => {
+    // Act
+    const page = await get('/establishments?la=873&status=open&postcode=cb23&fields=urn,name');
+    const second = await get('/establishments?pageSize=2&page=2&fields=urn');
+
+    // Assert
+    expect(page).toEqual({ page: 1, pageSize: 50, total: 1, items: [{ urn: 100, name: 'Bar Hill Primary' }] });
+    expect(second).toEqual({ page: 2, pageSize: 2, total: 3, items: [{ urn: 102 }] });
+  });
+
+  test('looks up an establishment, its links and trust members', async () => {
+    // Act
+    const establishment = await get('/establishments/100') as Record<string, unknown>;
+    const links = await get('/establishments/101/links?fields=linkUrn,linkType') as { items: unknown[] };
+    const members = await get('/trusts/5001/members?fields=urn') as { items: unknown[] };
+
+    // Assert
+    expect(establishment.la).toEqual({ code: '873', name: 'Cambridgeshire' });
+    expect(establishment).not.toHaveProperty('raw');
+    expect(links.items).toEqual([{ linkUrn: 100, linkType: 'Successor' }]);
+    expect(members.items).toEqual([{ urn: 100 }, { urn: 102 }]);
+  });
+
+  test('answers unknown records and bad parameters with an error status', async () => {
+    // Act & Assert
+    await expect(get('/establishments/999')).rejects.toMatchObject({ status: 404 });
+    await expect(get('/establishments?page=0')).rejects.toMatchObject({ status: 400 });
+    await expect(get('/schools')).rejects.toMatchObject({ status: 404 });
+  });
+
+  test('serves JSON over HTTP and reloads when a run replaces the files', async () => {
+    // Arrange
+    const server = new ApiServer({ dataDir: tempDir, port: 0, reloadDelayMs: 50, log: () => undefined });
+    const { port } = await server.start();
+    const base = `http://127.0.0.1:${port}`;
+
+    try {
+      // Act
+      const response = await fetch(`${base}/establishments/100?fields=urn,openDate`);
+      const post = await fetch(`${base}/establishments`, { method: 'POST' });
+      await fs.writeFile(path.join(tempDir, SNAPSHOT_FILES.establishments),
+        ESTABLISHMENTS + '103,"873","Cambridgeshire","New School","4","Proposed to open","","CB23 1AA"\n');
+      let total = 0;
+      for (let attempt = 0; attempt < 40 && total !== 4; attempt++) {
+        await new Promise(resolve => setTimeout(resolve, 50));
+        total = ((await (await fetch(`${base}/establishments`)).json()) as { total: number }).total;
+      }
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({ urn: 100, openDate: '2010-09-01' });
+      expect(post.status).toBe(405);
+      expect(total).toBe(4);
+    } finally {
+      await server.stop();
+    }
+  });
+
+  test('loads stored copies when the plain files are not kept', async () => {
+    // Arrange
+    const plainPath = path.join(tempDir, SNAPSHOT_FILES.establishments);
+    await writeStoredCopy(plainPath, { compression: 'gzip', splitSizeBytes: 0 });
+    await fs.unlink(plainPath);
+
+    // Act
+    const snapshot = await loadSnapshot(tempDir);
+
+    // Assert
+    expect(snapshot.establishments.size).toBe(3);
+    expect(snapshot.files).toContain(SNAPSHOT_FILES.establishments);
+  });
+
+  test('parses the serve flags', () => {
+    // Act & Assert
+    expect(parseServeArgs(['--port', '8080', '--no-watch'])).toMatchObject({ port: 8080, watch: false });
+    expect(() => parseServeArgs(['--port', 'http'])).toThrow('Invalid --port "http"');
+  });
+});
@@ -0,0 +1,123 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { tmpdir } from 'os';
+import initSqlJs, { Database } from 'sql.js';
+import { EXIT_FAILURE, EXIT_SUCCESS, runCli } from '../src/cli';
+import { DEFAULT_URL_TEMPLATES, fetchData } from '../src/fetch-data';
+import { silentReporter } from '../src/reporter';
+import { exportSqlite, SQLITE_FILE, toColumnName } from '../src/sqlite';
+import { mockResponse, safeFileOps } from './test-utils';
+
+const ESTABLISHMENTS = '"URN","LA (code)","LA (name)","EstablishmentName","TypeOfEstablishment (code)",' +
+  '"EstablishmentStatus (name)","OpenDate","Postcode"\n' +
+  '100,"873","Cambridgeshire","Bar Hill Primary","02","Open","01-09-2010","CB23 8DY"\n' +
+  '101,"873","Cambridgeshire","Old Bar Hill School","28","Closed","","CB23 8DZ"\n';
+const LINKS = 'URN,LinkURN,LinkName,LinkType,LinkEstablishedDate\n101,100,"Bar Hill Primary",Successor,31-08-2010\n';
+const GROUP_LINKS = '"URN","Group UID","Group Name","Group Type"\n100,"5001","Fenland Trust","Multi-academy trust"\n';
+
+describe('SQLite export', () => {
+  let tempDir: string;
+  let databases: Database[];
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(tmpdir(), 'test-sqlite-'));
+    databases = [];
+    await fs.writeFile(path.join(tempDir, 'edubasealldata.csv'), ESTABLISHMENTS);
+    await fs.writeFile(path.join(tempDir, 'links_edubasealldata.csv'), LINKS);
+    await fs.writeFile(path.join(tempDir, 'grouplinks_edubaseallacademiesandfree.csv'), GROUP_LINKS);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    databases.forEach(db => db.close());
+    await safeFileOps.removeDir(tempDir);
+  });
+
+  const open = async (): Promise<Database> => {
+    const SQL = await initSqlJs();
+    const db = new SQL.Database(await fs.readFile(path.join(tempDir, SQLITE_FILE)));
+    databases.push(db);
+    return db;
+  };
+  const query = (db: Database, sql: string) => db.exec(sql)[0]?.values ?? [];
+
+  test('names columns in snake_case', () => {
+    // Act & Assert
+    expect(toColumnName('LA (code)')).toBe('la_code');
+    expect(toColumnName('EstablishmentStatus (name)')).toBe('establishment_status_name');
+    expect(toColumnName('LinkURN')).toBe('link_urn');
+    expect(toColumnName('GSSLACode (name)')).toBe('gssla_code_name');
+    expect(toColumnName('Date term of office ends/ended')).toBe('date_term_of_office_ends_ended');
+  });
+
+  test('creates typed tables with keys, indexes and views', async () => {
+    // Act
+    const result = await exportSqlite({ dataDir: tempDir, templates: DEFAULT_URL_TEMPLATES });
+    const db = await open();
+
+    // Assert
+    expect(result.rebuilt).toEqual([
+      'edubasealldata.csv',
+      'links_edubasealldata.csv',
+      'grouplinks_edubaseallacademiesandfree.csv',
+    ]);
+    expect(query(db, 'SELECT urn, la_code, type_of_establishment_code, open_date FROM edubasealldata ORDER BY urn'))
+      .toEqual([[100, 873, '02', '2010-09-01'], [101, 873, '28', null]]);
+    expect(query(db, 'SELECT name, pk FROM pragma_table_info(\'edubasealldata\') WHERE pk > 0')).toEqual([['urn', 1]]);
+    expect(query(db, 'SELECT name FROM sqlite_master WHERE type = \'index\' AND tbl_name = \'edubasealldata\'').flat())
+      .toEqual(['idx_edubasealldata_la_code', 'idx_edubasealldata_postcode']);
+    expect(query(db, 'SELECT establishment_name, link_urn, linked_establishment_name FROM establishment_links'))
+      .toEqual([['Old Bar Hill School', 100, 'Bar Hill Primary']]);
+    expect(query(db, 'SELECT urn, group_name FROM establishment_trusts')).toEqual([[100, 'Fenland Trust']]);
+  });
+
+  test('rebuilds only the tables whose file changed', async () => {
+    // Arrange
+    await exportSqlite({ dataDir: tempDir, templates: DEFAULT_URL_TEMPLATES });
+    await fs.writeFile(path.join(tempDir, 'links_edubasealldata.csv'), LINKS + '100,101,"Old",Predecessor,\n');
+
+    // Act
+    const result = await exportSqlite({ dataDir: tempDir, templates: DEFAULT_URL_TEMPLATES });
+    const db = await open();
+
+    // Assert
+    expect(result.rebuilt).toEqual(['links_edubasealldata.csv']);
+    expect(result.unchanged).toEqual(['edubasealldata.csv', 'grouplinks_edubaseallacademiesandfree.csv']);
+    expect(query(db, 'SELECT count(*) FROM links_edubasealldata')).toEqual([[2]]);
+    expect(query(db, 'SELECT count(*) FROM establishment_links')).toEqual([[2]]);
+  });
+
+  test('fetchData updates the database after publishing when enabled', async () => {
+    // Act
+    await fetchData({
+      urlTemplates: [{ urlTemplate: 'https://example.com/all{0}.csv', outputFile: 'edubasealldata.csv' }],
+      config: { outputDir: tempDir, sqlite: true },
+      fetchFn: jest.fn().mockResolvedValue(mockResponse(200, 'text/csv', ESTABLISHMENTS)) as unknown as typeof fetch,
+      configFile: false,
+      reporter: silentReporter,
+    });
+    const db = await open();
+
+    // Assert
+    expect(query(db, 'SELECT file, row_count FROM gias_files')).toEqual([['edubasealldata.csv', 2]]);
+  });
+
+  test('the sqlite command builds the database and fails when there is nothing to load', async () => {
+    // Arrange
+    const log = jest.spyOn(console, 'log').mockImplementation();
+    const error = jest.spyOn(console, 'error').mockImplementation();
+    const emptyDir = path.join(tempDir, 'empty');
+    await fs.mkdir(emptyDir);
+
+    // Act
+    const code = await runCli(['sqlite', '--data', tempDir]);
+    const emptyCode = await runCli(['sqlite', '--data', emptyDir]);
+
+    // Assert
+    expect(code).toBe(EXIT_SUCCESS);
+    expect(log).toHaveBeenCalledWith('Rebuilt: links_edubasealldata.csv');
+    expect(log).toHaveBeenCalledWith(`Wrote ${path.join(tempDir, SQLITE_FILE)}`);
+    expect(emptyCode).toBe(EXIT_FAILURE);
+    expect(error).toHaveBeenCalledWith(`No data files found in ${emptyDir}`);
+  });
+});
@@ -0,0 +1,126 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { tmpdir } from 'os';
+import { EXIT_FAILURE, EXIT_PARTIAL, runCli } from '../src/cli';
+import { CHANGES_MARKDOWN_FILE } from '../src/diff';
+import { fetchData, FileTemplate } from '../src/fetch-data';
+import { MANIFEST_FILE } from '../src/manifest';
+import { silentReporter } from '../src/reporter';
+import { publishStagedFiles, STAGING_DIR } from '../src/staging';
+import { mockResponse, safeFileOps } from './test-utils';
+
+const templates: FileTemplate[] = [
+  { urlTemplate: 'https://example.com/schools{0}.csv', outputFile: 'schools.csv' },
+  { urlTemplate: 'https://example.com/links{0}.csv', outputFile: 'links.csv' },
+  { urlTemplate: 'https://example.com/extras{0}.csv', outputFile: 'extras.csv', required: false },
+];
+
+describe('Transactional publishing', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(tmpdir(), 'test-staging-'));
+    await fs.writeFile(path.join(tempDir, 'schools.csv'), 'URN,Name\n1,Old');
+    await fs.writeFile(path.join(tempDir, 'links.csv'), 'URN,LinkURN\n1,2');
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await safeFileOps.removeDir(tempDir);
+  });
+
+  const run = (available: string[]) => fetchData({
+    urlTemplates: templates,
+    config: { outputDir: tempDir, retries: 0, transactional: true },
+    fetchFn: ((url: string) => Promise.resolve(available.some(name => url.includes(`/${name}`))
+      ? mockResponse(200, 'text/csv', `URN,Name\n1,New ${url}`)
+      : mockResponse(404, 'text/plain', 'Not Found'))) as unknown as typeof fetch,
+    configFile: false,
+    reporter: silentReporter,
+  });
+
+  test('keeps every existing file when a required file fails', async () => {
+    // Act
+    const result = await run(['schools', 'extras']);
+
+    // Assert
+    expect(result.published).toBe(false);
+    expect(result.missingRequired).toEqual(['links.csv']);
+    expect(result.withheldFiles).toEqual(['schools.csv', 'extras.csv']);
+    expect(result.downloadedFiles).toEqual([]);
+    expect(await fs.readFile(path.join(tempDir, 'schools.csv'), 'utf8')).toBe('URN,Name\n1,Old');
+    expect((await fs.readdir(tempDir)).sort()).toEqual(['links.csv', 'schools.csv']);
+  });
+
+  test('publishes the set when only optional files fail', async () => {
+    // Act
+    const result = await run(['schools', 'links']);
+
+    // Assert
+    expect(result.published).toBe(true);
+    expect(result.skippedFiles).toEqual(['extras.csv']);
+    expect(result.downloadedFiles).toEqual([path.join(tempDir, 'schools.csv'), path.join(tempDir, 'links.csv')]);
+    expect(await fs.readFile(path.join(tempDir, 'schools.csv'), 'utf8')).toContain('New');
+    expect(await fs.readdir(tempDir)).not.toContain(STAGING_DIR);
+  });
+
+  test('restores the previous files when a move fails part way', async () => {
+    // Arrange
+    const stagingDir = path.join(tempDir, STAGING_DIR);
+    await fs.mkdir(stagingDir);
+    await fs.writeFile(path.join(stagingDir, 'schools.csv'), 'URN,Name\n1,New');
+
+    // Act & Assert
+    await expect(publishStagedFiles(stagingDir, tempDir, ['schools.csv', 'links.csv'])).rejects.toThrow();
+    expect(await fs.readFile(path.join(tempDir, 'schools.csv'), 'utf8')).toBe('URN,Name\n1,Old');
+    expect(await fs.readFile(path.join(tempDir, 'links.csv'), 'utf8')).toBe('URN,LinkURN\n1,2');
+  });
+
+  describe('from the command line with the default templates', () => {
+    const bodies: Record<string, string> = {
+      edubasealldata: 'URN,LA (code),LA (name),EstablishmentName\n100,201,City of London,Alpha\n',
+      links_edubasealldata: 'URN,LinkURN,LinkType\n100,101,Successor\n',
+      governancealldata: 'GID,Role\n1,Governor\n',
+    };
+
+    const runTransactional = (available: string[]) => runCli([
+      '--only', Object.keys(bodies).join(','), '--out', tempDir, '--date', '2025-07-01', '--transactional',
+    ], ((url: string) => {
+      const name = Object.keys(bodies).find(candidate => url.endsWith(`/${candidate}20250701.csv`)) ?? '';
+      return Promise.resolve(available.includes(name)
+        ? mockResponse(200, 'text/csv', bodies[name])
+        : mockResponse(404, 'text/plain', 'Not Found'));
+    }) as unknown as typeof fetch);
+
+    beforeEach(() => {
+      jest.spyOn(console, 'log').mockImplementation();
+      jest.spyOn(console, 'error').mockImplementation();
+      jest.spyOn(console, 'warn').mockImplementation();
+    });
+
+    test('publishes without an optional file and exits with the partial code', async () => {
+      // Act
+      const code = await runTransactional(['edubasealldata', 'links_edubasealldata']);
+
+      // Assert
+      expect(code).toBe(EXIT_PARTIAL);
+      expect(await fs.readFile(path.join(tempDir, 'edubasealldata.csv'), 'utf8')).toBe(bodies.edubasealldata);
+      expect(await fs.readdir(tempDir)).toContain(MANIFEST_FILE);
+      expect(await fs.readdir(tempDir)).not.toContain('governancealldata.csv');
+    });
+
+    test('withholds every file and exits with the failure code when a required file is missing', async () => {
+      // Act
+      const code = await runTransactional(['edubasealldata', 'governancealldata']);
+
+      // Assert
+      expect(code).toBe(EXIT_FAILURE);
+      const files = await fs.readdir(tempDir);
+      expect(files).not.toContain('edubasealldata.csv');
+      expect(files).not.toContain('governancealldata.csv');
+      expect(files).not.toContain(MANIFEST_FILE);
+      expect(files).not.toContain(CHANGES_MARKDOWN_FILE);
+      expect(files).not.toContain(STAGING_DIR);
+    });
+  });
+});
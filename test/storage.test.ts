@@ -0,0 +1,166 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { tmpdir } from 'os';
+import { gunzipSync, gzipSync } from 'zlib';
+import { EXIT_FAILURE, EXIT_SUCCESS, runCli } from '../src/cli';
+import { fetchData } from '../src/fetch-data';
+import { verifyManifest } from '../src/manifest';
+import { silentReporter } from '../src/reporter';
+import { openStoredFile, restoreStoredFile, writeStoredCopy } from '../src/storage';
+import { mockResponse, safeFileOps } from './test-utils';
+
+const CSV = 'URN,Name\n1,"Alpha\nSchool"\n2,Beta School\n3,Gamma School\n4,Delta School\n';
+
+const readAll = async (dir: string, file: string) => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of openStoredFile(dir, file)) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+};
+
+describe('Compressed and chunked storage', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(tmpdir(), 'test-storage-'));
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await safeFileOps.removeDir(tempDir);
+  });
+
+  test('writes a single compressed copy that reads back unchanged', async () => {
+    // Arrange
+    const sourcePath = path.join(tempDir, 'schools.csv');
+    await fs.writeFile(sourcePath, CSV);
+
+    // Act
+    const written = await writeStoredCopy(sourcePath, { compression: 'brotli', splitSizeBytes: 0 });
+    await fs.unlink(sourcePath);
+
+    // Assert
+    expect(written).toEqual([path.join(tempDir, 'schools.csv.br')]);
+    expect(await readAll(tempDir, 'schools.csv')).toBe(CSV);
+  });
+
+  test('splits large files into parts that each repeat the header', async () => {
+    // Arrange
+    const sourcePath = path.join(tempDir, 'schools.csv');
+    await fs.writeFile(sourcePath, CSV);
+
+    // Act
+    const written = await writeStoredCopy(sourcePath, { compression: 'gzip', splitSizeBytes: 40 });
+    await fs.unlink(sourcePath);
+
+    // Assert
+    expect(written.map(part => path.basename(part))).toEqual([
+      'schools.part001.csv.gz',
+      'schools.part002.csv.gz',
+    ]);
+    const firstPart = gunzipSync(await fs.readFile(written[0])).toString('utf8');
+    expect(firstPart).toBe('URN,Name\n1,"Alpha\nSchool"\n2,Beta School\n');
+    const lastPart = gunzipSync(await fs.readFile(written[1])).toString('utf8');
+    expect(lastPart).toBe('URN,Name\n3,Gamma School\n4,Delta School\n');
+    expect(await readAll(tempDir, 'schools.csv')).toBe(CSV);
+  });
+
+  test('rejects the read when a part is deleted after the parts were listed', async () => {
+    // Arrange
+    const sourcePath = path.join(tempDir, 'schools.csv');
+    await fs.writeFile(sourcePath, CSV);
+    const written = await writeStoredCopy(sourcePath, { compression: 'gzip', splitSizeBytes: 40 });
+    await fs.unlink(sourcePath);
+
+    // Act
+    const read = async () => {
+      for await (const _chunk of openStoredFile(tempDir, 'schools.csv')) {
+        await fs.rm(written[1], { force: true });
+      }
+    };
+
+    // Assert
+    await expect(read()).rejects.toThrow('ENOENT');
+  });
+
+  test('removes parts left over from a larger earlier copy', async () => {
+    // Arrange
+    const sourcePath = path.join(tempDir, 'schools.csv');
+    await fs.writeFile(sourcePath, CSV);
+    await writeStoredCopy(sourcePath, { compression: 'none', splitSizeBytes: 40 });
+    await fs.writeFile(sourcePath, 'URN,Name\n1,Alpha\n');
+
+    // Act
+    await writeStoredCopy(sourcePath, { compression: 'gzip', splitSizeBytes: 40 });
+
+    // Assert
+    expect((await fs.readdir(tempDir)).sort()).toEqual(['schools.csv', 'schools.csv.gz']);
+  });
+
+  test('fetchData keeps only stored copies, restores them for the next run and verifies them', async () => {
+    // Arrange
+    const run = () => fetchData({
+      urlTemplates: [{ urlTemplate: 'https://example.com/schools{0}.csv', outputFile: 'schools.csv' }],
+      config: { outputDir: tempDir, compression: 'gzip', splitSizeBytes: 40, keepUncompressed: false },
+      fetchFn: jest.fn().mockResolvedValue(mockResponse(200, 'text/csv', CSV)) as unknown as typeof fetch,
+      configFile: false,
+      reporter: silentReporter,
+    });
+    await run();
+
+    // Act
+    const second = await run();
+
+    // Assert
+    expect(second.unchangedFiles).toEqual(['schools.csv']);
+    expect(await fs.readdir(tempDir)).not.toContain('schools.csv');
+    expect((await verifyManifest(tempDir)).ok).toBe(true);
+    expect(await restoreStoredFile(tempDir, 'schools.csv')).toBe(true);
+    expect(await fs.readFile(path.join(tempDir, 'schools.csv'), 'utf8')).toBe(CSV);
+  });
+
+  test('the verify command checks compressed copies and reports missing and modified files', async () => {
+    // Arrange
+    await fetchData({
+      urlTemplates: [
+        { urlTemplate: 'https://example.com/schools{0}.csv', outputFile: 'schools.csv' },
+        { urlTemplate: 'https://example.com/links{0}.csv', outputFile: 'links.csv' },
+      ],
+      config: { outputDir: tempDir, compression: 'gzip', keepUncompressed: false },
+      fetchFn: jest.fn().mockImplementation(async () => mockResponse(200, 'text/csv', CSV)) as unknown as
+        typeof fetch,
+      configFile: false,
+      reporter: silentReporter,
+    });
+    const log = jest.spyOn(console, 'log').mockImplementation();
+    const error = jest.spyOn(console, 'error').mockImplementation();
+
+    // Act
+    const intactCode = await runCli(['verify', tempDir]);
+    await fs.writeFile(path.join(tempDir, 'schools.csv.gz'), gzipSync('URN,Name\n1,Alpha School\n'));
+    await fs.unlink(path.join(tempDir, 'links.csv.gz'));
+    const damagedCode = await runCli(['verify', tempDir]);
+
+    // Assert
+    expect(await fs.readdir(tempDir)).not.toContain('schools.csv');
+    expect(intactCode).toBe(EXIT_SUCCESS);
+    expect(log).toHaveBeenCalledWith('OK: schools.csv');
+    expect(log).toHaveBeenCalledWith('OK: links.csv');
+    expect(damagedCode).toBe(EXIT_FAILURE);
+    expect(error).toHaveBeenCalledWith(expect.stringMatching(/^MODIFIED: schools\.csv \(expected sha256 /));
+    expect(error).toHaveBeenCalledWith('MISSING: links.csv');
+  });
+
+  test('the verify command reports a directory without a manifest', async () => {
+    // Arrange
+    const log = jest.spyOn(console, 'log').mockImplementation();
+
+    // Act
+    const code = await runCli(['verify', tempDir]);
+
+    // Assert
+    expect(code).toBe(EXIT_SUCCESS);
+    expect(log).toHaveBeenCalledWith(`No manifest entries found in ${tempDir}`);
+  });
+});
@@ -7,27 +7,51 @@ import * as path from 'path';
 /**
  * Creates a mock Response object for testing fetch operations
  */
-export const mockResponse = (status: number, contentType: string, body: string): Response => {
+export const mockResponse = (
+  status: number,
+  contentType: string,
+  body: string,
+  extraHeaders: Record<string, string> = {}
+): Response => {
+  const headers: Record<string, string> = { 'content-type': contentType };
+  Object.entries(extraHeaders).forEach(([name, value]) => {
+    headers[name.toLowerCase()] = value;
+  });
+
   return {
     ok: status >= 200 && status < 300,
     status,
     headers: {
-      get: (header: string) => (header.toLowerCase() === 'content-type' ? contentType : null),
+      get: (header: string) => headers[header.toLowerCase()] ?? null,
     },
     redirected: false,
     statusText: '',
     type: 'basic',
     url: 'https://example.com',
-    clone: () => mockResponse(status, contentType, body),
-    body: null,
+    clone: () => mockResponse(status, contentType, body, extraHeaders),
+    body: new Blob([body]).stream(),
     bodyUsed: false,
     text: async () => body,
     json: async () => JSON.parse(body),
     blob: async () => new Blob([body]),
-    arrayBuffer: async () => new ArrayBuffer(0),
+    arrayBuffer: async () => new Blob([body]).arrayBuffer(),
   } as Response;
 };
 
+/**
+ * Creates a mock Response whose body is delivered in the given chunks
+ */
+export const mockChunkedResponse = (chunks: string[]): Response => {
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    },
+  });
+  return { ...mockResponse(200, 'text/csv', chunks.join('')), body: stream } as Response;
+};
+
 /**
  * Safe file operation with better error logging
  * Wraps fs operations with proper error handling for tests
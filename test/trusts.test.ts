@@ -0,0 +1,141 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { tmpdir } from 'os';
+import { EXIT_SUCCESS, parseTrustsArgs, runTrusts } from '../src/cli';
+import { readGovernanceRecords, readGroupLinks, readMatMemberships } from '../src/records';
+import { buildTrusts, exportTrusts, loadTrusts, TRUST_FILES, TrustIndex } from '../src/trusts';
+import { safeFileOps } from './test-utils';
+
+const LINK_HEADER = '"URN","Group UID","Group ID","Group Name","Companies House Number","Group Type (code)",' +
+  '"Group Type","Joined date","EstablishmentName"\n';
+
+// Trust 5001 lists 100 in both files, 101 only in MAT membership and 102 only in group links
+const MAT_MEMBERSHIP = LINK_HEADER +
+  '100,"5001","TR0001","Fenland Trust","07000001","06","Multi-academy trust","01-09-2015","Bar Hill Primary"\n' +
+  '101,"5001","TR0001","Fenland Trust","07000001","06","Multi-academy trust","01-09-2016","Fen Academy"\n';
+const GROUP_LINKS = LINK_HEADER +
+  '100,"5001","TR0001","Fenland Trust","07000001","06","Multi-academy trust","","Bar Hill Primary"\n' +
+  '102,"5001","TR0001","Fenland Trust","07000001","06","Multi-academy trust","01-09-2018","Ely Academy"\n' +
+  '100,"6001","FE0001","Bar Hill Federation","","01","Federation","01-01-2019","Bar Hill Primary"\n';
+const GOVERNANCE = '"GID","Group UID","Group Name","Role","Forename 1","Surname","Date of appointment"\n' +
+  '"9001","5001","Fenland Trust","Trustee","Alex","Smith","01-09-2015"\n' +
+  '"9002","7001","Orphan Trust","Member","Sam","Jones",""\n';
+
+const text = (content: string) => (async function* () {
+  yield Buffer.from(content, 'utf8');
+})();
+
+const load = (): Promise<TrustIndex> => buildTrusts({
+  matMemberships: readMatMemberships(text(MAT_MEMBERSHIP)),
+  groupLinks: readGroupLinks(text(GROUP_LINKS)),
+  governance: readGovernanceRecords(text(GOVERNANCE)),
+});
+
+describe('Trusts', () => {
+  test('combines the membership files into one member list per trust', async () => {
+    // Arrange
+    const index = await load();
+
+    // Act
+    const trust = index.get(5001);
+
+    // Assert
+    expect(trust).toMatchObject({ uid: 5001, name: 'Fenland Trust', companiesHouseNumber: '07000001' });
+    expect(trust?.groupType).toEqual({ code: '06', name: 'Multi-academy trust' });
+    expect(trust?.members.map(member => [member.urn, member.sources])).toEqual([
+      [100, ['mat-membership', 'group-links']],
+      [101, ['mat-membership']],
+      [102, ['group-links']],
+    ]);
+    expect(trust?.members[0].joinedDate).toEqual(new Date(2015, 8, 1));
+    expect(trust?.governance).toEqual([expect.objectContaining({ gid: '9001', role: 'Trustee', surname: 'Smith' })]);
+  });
+
+  test('finds the trusts and groups of an academy', async () => {
+    // Arrange
+    const index = await load();
+
+    // Act & Assert
+    expect(index.trustsOf(100).map(trust => trust.uid)).toEqual([5001, 6001]);
+    expect(index.trustsOf(999)).toEqual([]);
+  });
+
+  test('flags academies missing from one membership file and governance for unknown trusts', async () => {
+    // Arrange
+    const index = await load();
+
+    // Act
+    const discrepancies = index.findDiscrepancies();
+
+    // Assert
+    expect(discrepancies.map(discrepancy => [discrepancy.kind, discrepancy.uid, discrepancy.urn])).toEqual([
+      ['missing-from-group-links', 5001, 101],
+      ['missing-from-mat-membership', 5001, 102],
+      ['governance-without-trust', 7001, null],
+    ]);
+  });
+
+  test('does not compare the membership files when one is absent', async () => {
+    // Arrange
+    const index = await buildTrusts({ matMemberships: readMatMemberships(text(MAT_MEMBERSHIP)) });
+
+    // Act & Assert
+    expect(index.findDiscrepancies()).toEqual([]);
+  });
+
+  describe('files', () => {
+    let tempDir: string;
+    let stdoutSpy: jest.SpyInstance;
+    let stderrSpy: jest.SpyInstance;
+
+    beforeEach(async () => {
+      tempDir = await fs.mkdtemp(path.join(tmpdir(), 'test-trusts-'));
+      await fs.writeFile(path.join(tempDir, TRUST_FILES.matMemberships), MAT_MEMBERSHIP);
+      await fs.writeFile(path.join(tempDir, TRUST_FILES.groupLinks), GROUP_LINKS);
+      await fs.writeFile(path.join(tempDir, TRUST_FILES.governance), GOVERNANCE);
+      stdoutSpy = jest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+      stderrSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    });
+
+    afterEach(async () => {
+      stdoutSpy.mockRestore();
+      stderrSpy.mockRestore();
+      await safeFileOps.removeDir(tempDir);
+    });
+
+    test('writes one JSON document per trust', async () => {
+      // Arrange
+      const index = await loadTrusts(tempDir);
+      const outputDir = path.join(tempDir, 'trusts');
+
+      // Act
+      const written = await exportTrusts(index, outputDir);
+
+      // Assert
+      expect(written.map(file => path.basename(file))).toEqual(['5001.json', '6001.json', '7001.json']);
+      const document = JSON.parse(await fs.readFile(path.join(outputDir, '5001.json'), 'utf8'));
+      expect(document.members[1]).toMatchObject({ urn: 101, joinedDate: '2016-09-01' });
+      expect(document.governance[0].dateOfAppointment).toBe('2015-09-01');
+      expect(document.discrepancies).toHaveLength(2);
+    });
+
+    test('parses the command arguments', () => {
+      // Act & Assert
+      expect(parseTrustsArgs(['--uid', '5001'])).toMatchObject({ uid: 5001 });
+      expect(() => parseTrustsArgs([])).toThrow('trusts needs exactly one of --uid, --urn or --out');
+      expect(() => parseTrustsArgs(['--urn', 'abc'])).toThrow('Invalid --urn "abc"');
+    });
+
+    test('prints the trusts of an academy and warns about its discrepancies', async () => {
+      // Act
+      const code = await runTrusts(['--urn', '101', '--data', tempDir]);
+
+      // Assert
+      expect(code).toBe(EXIT_SUCCESS);
+      const output = JSON.parse(stdoutSpy.mock.calls.map(call => call[0]).join(''));
+      expect(output.map((trust: { uid: number }) => trust.uid)).toEqual([5001]);
+      expect(stderrSpy).toHaveBeenCalledTimes(1);
+      expect(stderrSpy.mock.calls[0][0]).toContain('Academy 101 is a member of trust 5001');
+    });
+  });
+});